@@ -0,0 +1,12 @@
+-- Shared cache for RAWG API responses (used when RAWG_CACHE_BACKEND=supabase)
+create table if not exists public.rawg_cache (
+  key text primary key,
+  value jsonb not null,
+  expires_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists rawg_cache_expires_at_idx on public.rawg_cache (expires_at);
+
+-- Only the service role reads and writes the cache
+alter table public.rawg_cache enable row level security;
@@ -0,0 +1,48 @@
+-- Full-text and trigram search over the local games table (hybrid search)
+create extension if not exists pg_trgm;
+
+-- Search document: game name weighted above tag names
+create or replace function public.games_search_document(name text, tags jsonb)
+returns tsvector
+language sql
+immutable
+as $$
+  select
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(
+      to_tsvector(
+        'simple',
+        coalesce(
+          (select string_agg(tag_name, ' ')
+           from jsonb_array_elements_text(jsonb_path_query_array(coalesce(tags, '[]'::jsonb), '$[*].name')) as tag_name),
+          ''
+        )
+      ),
+      'B'
+    )
+$$;
+
+create index if not exists games_search_document_idx
+  on public.games using gin (public.games_search_document(name, tags));
+
+create index if not exists games_name_trgm_idx
+  on public.games using gin (name gin_trgm_ops);
+
+-- Ranked matches: best of full-text rank and name similarity, then rating
+create or replace function public.search_games(search_query text, max_results int default 20)
+returns setof public.games
+language sql
+stable
+as $$
+  select g.*
+  from public.games g
+  where public.games_search_document(g.name, g.tags) @@ plainto_tsquery('simple', search_query)
+     or g.name % search_query
+  order by
+    greatest(
+      ts_rank(public.games_search_document(g.name, g.tags), plainto_tsquery('simple', search_query)),
+      similarity(g.name, search_query)
+    ) desc,
+    g.rating desc nulls last
+  limit max_results
+$$;
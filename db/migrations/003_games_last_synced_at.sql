@@ -0,0 +1,38 @@
+-- Track when each cached game was last re-synced from RAWG
+alter table public.games
+  add column if not exists last_synced_at timestamptz not null default now();
+
+-- Existing rows were last synced when they were last written
+update public.games set last_synced_at = updated_at where last_synced_at > updated_at;
+
+create index if not exists games_last_synced_at_idx on public.games (last_synced_at);
+
+-- updated_at only moves when upstream data actually changed, so a re-sync
+-- that just bumps last_synced_at leaves it alone
+create or replace function public.games_touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.name, new.slug, new.description, new.released, new.background_image,
+      new.website, new.rating, new.rating_top, new.metacritic, new.playtime,
+      new.platforms, new.genres, new.tags, new.developers, new.publishers, new.stores)
+     is distinct from
+     (old.name, old.slug, old.description, old.released, old.background_image,
+      old.website, old.rating, old.rating_top, old.metacritic, old.playtime,
+      old.platforms, old.genres, old.tags, old.developers, old.publishers, old.stores)
+  then
+    new.updated_at := now();
+  else
+    new.updated_at := old.updated_at;
+  end if;
+  return new;
+end;
+$$;
+
+-- Replaces the generic "always bump updated_at" trigger
+drop trigger if exists update_games_updated_at on public.games;
+drop trigger if exists games_touch_updated_at on public.games;
+create trigger games_touch_updated_at
+  before update on public.games
+  for each row execute function public.games_touch_updated_at();
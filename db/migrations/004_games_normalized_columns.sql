@@ -0,0 +1,31 @@
+-- Columns needed for a lossless RAWG game <-> games row round trip
+alter table public.games
+  add column if not exists description_raw text,
+  add column if not exists background_image_additional text,
+  add column if not exists short_screenshots jsonb;
+
+-- Include the new columns in the upstream-change check from 003
+create or replace function public.games_touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.name, new.slug, new.description, new.description_raw, new.released,
+      new.background_image, new.background_image_additional, new.website,
+      new.rating, new.rating_top, new.metacritic, new.playtime, new.platforms,
+      new.genres, new.tags, new.developers, new.publishers, new.stores,
+      new.short_screenshots)
+     is distinct from
+     (old.name, old.slug, old.description, old.description_raw, old.released,
+      old.background_image, old.background_image_additional, old.website,
+      old.rating, old.rating_top, old.metacritic, old.playtime, old.platforms,
+      old.genres, old.tags, old.developers, old.publishers, old.stores,
+      old.short_screenshots)
+  then
+    new.updated_at := now();
+  else
+    new.updated_at := old.updated_at;
+  end if;
+  return new;
+end;
+$$;
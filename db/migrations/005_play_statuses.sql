@@ -0,0 +1,7 @@
+-- Play statuses: want to play, currently playing, backlog, dropped
+-- New enum values can't be used in the transaction that adds them, so the
+-- index that references them lives in 006_play_status_exclusive.sql.
+alter type public.interaction_action add value if not exists 'wishlist';
+alter type public.interaction_action add value if not exists 'playing';
+alter type public.interaction_action add value if not exists 'backlog';
+alter type public.interaction_action add value if not exists 'dropped';
@@ -0,0 +1,4 @@
+-- At most one play status per user and game (like/favorite/played are unaffected)
+create unique index if not exists user_interactions_play_status_idx
+  on public.user_interactions (user_id, game_id)
+  where action in ('wishlist', 'playing', 'backlog', 'dropped');
@@ -0,0 +1,56 @@
+-- Personal ratings: one of four grades per user and game
+do $$
+begin
+  create type public.game_rating as enum ('exceptional', 'recommended', 'meh', 'skip');
+exception
+  when duplicate_object then null;
+end
+$$;
+
+create table if not exists public.game_ratings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Same identifier user_interactions uses (the game slug)
+  game_id text not null,
+  rating public.game_rating not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, game_id)
+);
+
+create index if not exists game_ratings_game_id_idx on public.game_ratings (game_id);
+
+alter table public.game_ratings enable row level security;
+
+create policy "Users can read their own ratings"
+  on public.game_ratings for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own ratings"
+  on public.game_ratings for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own ratings"
+  on public.game_ratings for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own ratings"
+  on public.game_ratings for delete
+  using (auth.uid() = user_id);
+
+-- Per-grade counts for a game; security definer so anyone can see the
+-- aggregate without reading other users' rows
+create or replace function public.game_rating_distribution(target_game_id text)
+returns table (rating public.game_rating, count bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.rating, count(*)
+  from public.game_ratings r
+  where r.game_id = target_game_id
+  group by r.rating
+$$;
+
+grant execute on function public.game_rating_distribution(text) to anon, authenticated;
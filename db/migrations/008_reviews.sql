@@ -0,0 +1,171 @@
+-- Written reviews, helpful votes, reports and the moderation queue
+do $$
+begin
+  create type public.review_status as enum ('published', 'removed');
+exception
+  when duplicate_object then null;
+end
+$$;
+
+-- Users who can work the moderation queue; add rows by hand (SQL editor)
+create table if not exists public.moderators (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.moderators enable row level security;
+
+create or replace function public.is_moderator()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.moderators where user_id = auth.uid())
+$$;
+
+grant execute on function public.is_moderator() to authenticated;
+
+create table if not exists public.reviews (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Same identifier user_interactions uses (the game slug)
+  game_id text not null,
+  -- Display name at the time of writing; other users' auth records aren't readable
+  author_name text not null,
+  title text not null check (char_length(title) between 1 and 120),
+  body text not null check (char_length(body) between 1 and 5000),
+  rating public.game_rating not null,
+  platform text check (char_length(platform) <= 60),
+  helpful_count integer not null default 0,
+  status public.review_status not null default 'published',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, game_id)
+);
+
+create index if not exists reviews_game_helpful_idx
+  on public.reviews (game_id, helpful_count desc, created_at desc)
+  where status = 'published';
+create index if not exists reviews_game_recent_idx
+  on public.reviews (game_id, created_at desc)
+  where status = 'published';
+
+alter table public.reviews enable row level security;
+
+create policy "Published reviews are public"
+  on public.reviews for select
+  using (status = 'published' or auth.uid() = user_id or public.is_moderator());
+
+create policy "Users can write their own reviews"
+  on public.reviews for insert
+  with check (auth.uid() = user_id and status = 'published' and helpful_count = 0);
+
+-- Column-level grants below keep authors away from helpful_count and status
+create policy "Users can edit their own reviews"
+  on public.reviews for update
+  using (auth.uid() = user_id);
+
+create policy "Moderators can update reviews"
+  on public.reviews for update
+  using (public.is_moderator());
+
+create policy "Users can delete their own reviews"
+  on public.reviews for delete
+  using (auth.uid() = user_id);
+
+revoke update on public.reviews from authenticated;
+grant update (title, body, rating, platform, updated_at, status) on public.reviews to authenticated;
+
+-- Authors can't change status themselves; only moderators can
+create or replace function public.reviews_guard_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status and not public.is_moderator() then
+    raise exception 'Only moderators can change a review''s status';
+  end if;
+  return new;
+end
+$$;
+
+drop trigger if exists reviews_guard_status on public.reviews;
+create trigger reviews_guard_status
+  before update on public.reviews
+  for each row execute function public.reviews_guard_status();
+
+create table if not exists public.review_votes (
+  review_id uuid not null references public.reviews (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (review_id, user_id)
+);
+
+alter table public.review_votes enable row level security;
+
+create policy "Users can read their own votes"
+  on public.review_votes for select
+  using (auth.uid() = user_id);
+
+create policy "Users can vote"
+  on public.review_votes for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can take back their votes"
+  on public.review_votes for delete
+  using (auth.uid() = user_id);
+
+-- helpful_count follows review_votes
+create or replace function public.review_votes_sync_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.reviews
+  set helpful_count = (
+    select count(*) from public.review_votes
+    where review_id = coalesce(new.review_id, old.review_id)
+  )
+  where id = coalesce(new.review_id, old.review_id);
+  return null;
+end
+$$;
+
+drop trigger if exists review_votes_sync_count on public.review_votes;
+create trigger review_votes_sync_count
+  after insert or delete on public.review_votes
+  for each row execute function public.review_votes_sync_count();
+
+create table if not exists public.review_reports (
+  id uuid primary key default gen_random_uuid(),
+  review_id uuid not null references public.reviews (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  reason text not null check (char_length(reason) between 1 and 500),
+  created_at timestamptz not null default now(),
+  -- Set when a moderator dismisses the report or removes the review
+  resolved_at timestamptz,
+  resolved_by uuid references auth.users (id) on delete set null,
+  unique (review_id, user_id)
+);
+
+create index if not exists review_reports_open_idx
+  on public.review_reports (created_at)
+  where resolved_at is null;
+
+alter table public.review_reports enable row level security;
+
+create policy "Users can read their own reports"
+  on public.review_reports for select
+  using (auth.uid() = user_id or public.is_moderator());
+
+create policy "Users can report reviews"
+  on public.review_reports for insert
+  with check (auth.uid() = user_id and resolved_at is null);
+
+create policy "Moderators can resolve reports"
+  on public.review_reports for update
+  using (public.is_moderator());
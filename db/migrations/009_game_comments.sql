@@ -0,0 +1,45 @@
+-- Threaded comments on games (and optionally on a single review)
+create table if not exists public.game_comments (
+  id uuid primary key default gen_random_uuid(),
+  -- Same identifier user_interactions uses (the game slug)
+  game_id text not null,
+  -- Set when the thread hangs off a review rather than the game itself
+  review_id uuid references public.reviews (id) on delete cascade,
+  parent_id uuid references public.game_comments (id) on delete cascade,
+  -- Top-level comment of the thread (null for top-level comments themselves)
+  root_id uuid references public.game_comments (id) on delete cascade,
+  depth smallint not null default 0 check (depth between 0 and 4),
+  user_id uuid references auth.users (id) on delete set null,
+  author_name text,
+  body text not null check (char_length(body) <= 2000),
+  created_at timestamptz not null default now(),
+  edited_at timestamptz,
+  -- Soft delete: the row stays as a tombstone so replies keep their place
+  deleted_at timestamptz,
+  check (deleted_at is null or body = '')
+);
+
+-- Top-level comments, newest first (cursor pagination)
+create index if not exists game_comments_roots_idx
+  on public.game_comments (game_id, review_id, created_at desc, id desc)
+  where parent_id is null;
+create index if not exists game_comments_root_id_idx
+  on public.game_comments (root_id, created_at);
+
+alter table public.game_comments enable row level security;
+
+create policy "Comments are public"
+  on public.game_comments for select
+  using (true);
+
+create policy "Users can comment"
+  on public.game_comments for insert
+  with check (auth.uid() = user_id and deleted_at is null and edited_at is null);
+
+create policy "Users can edit and delete their own comments"
+  on public.game_comments for update
+  using (auth.uid() = user_id);
+
+-- Authors may only touch the text and the edit/delete markers
+revoke update on public.game_comments from authenticated;
+grant update (body, edited_at, deleted_at) on public.game_comments to authenticated;
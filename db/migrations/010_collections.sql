@@ -0,0 +1,63 @@
+-- User-curated collections: named, ordered lists of games
+create table if not exists public.collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Display name at the time of creation; other users' auth records aren't readable
+  owner_name text not null,
+  name text not null check (char_length(name) between 1 and 80),
+  description text check (char_length(description) <= 1000),
+  is_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists collections_user_id_idx on public.collections (user_id, updated_at desc);
+
+create table if not exists public.collection_games (
+  collection_id uuid not null references public.collections (id) on delete cascade,
+  -- Same identifier user_interactions uses (the game slug)
+  game_id text not null,
+  position integer not null,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, game_id)
+);
+
+create index if not exists collection_games_game_id_idx on public.collection_games (game_id);
+create index if not exists collection_games_position_idx on public.collection_games (collection_id, position);
+
+alter table public.collections enable row level security;
+alter table public.collection_games enable row level security;
+
+create policy "Public collections are visible to everyone"
+  on public.collections for select
+  using (is_public or auth.uid() = user_id);
+
+create policy "Users can create collections"
+  on public.collections for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own collections"
+  on public.collections for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own collections"
+  on public.collections for delete
+  using (auth.uid() = user_id);
+
+create policy "Collection games follow collection visibility"
+  on public.collection_games for select
+  using (exists (
+    select 1 from public.collections c
+    where c.id = collection_id and (c.is_public or c.user_id = auth.uid())
+  ));
+
+create policy "Owners can manage collection games"
+  on public.collection_games for all
+  using (exists (
+    select 1 from public.collections c
+    where c.id = collection_id and c.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.collections c
+    where c.id = collection_id and c.user_id = auth.uid()
+  ));
@@ -0,0 +1,50 @@
+-- Play sessions: when, how long and on what a user played a game
+create table if not exists public.play_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Same identifier user_interactions uses (the game slug)
+  game_id text not null,
+  played_on date not null,
+  -- Whole minutes, at most a day per session
+  duration_minutes integer not null check (duration_minutes between 1 and 1440),
+  platform text check (char_length(platform) <= 60),
+  notes text check (char_length(notes) <= 1000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists play_sessions_user_game_idx
+  on public.play_sessions (user_id, game_id, played_on desc);
+
+alter table public.play_sessions enable row level security;
+
+create policy "Users can read their own play sessions"
+  on public.play_sessions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can log their own play sessions"
+  on public.play_sessions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own play sessions"
+  on public.play_sessions for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own play sessions"
+  on public.play_sessions for delete
+  using (auth.uid() = user_id);
+
+-- The caller's totals across all games, summed in the database rather than
+-- by paging through every session
+create or replace function public.play_session_totals()
+returns table (session_count bigint, game_count bigint, total_minutes bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select count(*), count(distinct s.game_id), coalesce(sum(s.duration_minutes), 0)
+  from public.play_sessions s
+  where s.user_id = auth.uid()
+$$;
+
+grant execute on function public.play_session_totals() to authenticated;
@@ -0,0 +1,101 @@
+-- Interaction history: an append-only log of every add and remove.
+-- user_interactions stays as the current state, but it is now derived from
+-- this log by a trigger instead of being written directly.
+do $$
+begin
+  create type public.interaction_event_type as enum ('added', 'removed');
+exception
+  when duplicate_object then null;
+end
+$$;
+
+create table if not exists public.interaction_events (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Same identifier user_interactions uses (the game slug)
+  game_id text not null,
+  action public.interaction_action not null,
+  event public.interaction_event_type not null,
+  -- Set on the removal of a play status that another status replaced
+  caused_by bigint references public.interaction_events (id) on delete cascade,
+  -- Set when this event reverses an earlier one
+  undo_of bigint references public.interaction_events (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists interaction_events_user_idx
+  on public.interaction_events (user_id, id desc);
+create index if not exists interaction_events_user_game_idx
+  on public.interaction_events (user_id, game_id, id desc);
+create index if not exists interaction_events_undo_of_idx
+  on public.interaction_events (undo_of) where undo_of is not null;
+
+alter table public.interaction_events enable row level security;
+
+-- Append-only: no update or delete policies
+create policy "Users can read their own interaction events"
+  on public.interaction_events for select
+  using (auth.uid() = user_id);
+
+create policy "Users can record their own interaction events"
+  on public.interaction_events for insert
+  with check (auth.uid() = user_id);
+
+revoke update, delete on public.interaction_events from anon, authenticated;
+
+-- Seed the log with the interactions that exist today
+insert into public.interaction_events (user_id, game_id, action, event, created_at)
+select user_id, game_id, action, 'added', created_at
+from public.user_interactions
+where not exists (select 1 from public.interaction_events)
+order by created_at;
+
+-- Apply each event to user_interactions. Adding a play status first logs
+-- the removal of whichever status it replaces, so the history stays complete.
+create or replace function public.apply_interaction_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  replaced public.interaction_action;
+begin
+  if new.event = 'removed' then
+    delete from public.user_interactions
+    where user_id = new.user_id and game_id = new.game_id and action = new.action;
+    return new;
+  end if;
+
+  if new.action in ('wishlist', 'playing', 'backlog', 'dropped') then
+    for replaced in
+      select action from public.user_interactions
+      where user_id = new.user_id
+        and game_id = new.game_id
+        and action in ('wishlist', 'playing', 'backlog', 'dropped')
+        and action <> new.action
+    loop
+      insert into public.interaction_events (user_id, game_id, action, event, caused_by)
+      values (new.user_id, new.game_id, replaced, 'removed', new.id);
+    end loop;
+  end if;
+
+  insert into public.user_interactions (user_id, game_id, action)
+  select new.user_id, new.game_id, new.action
+  where not exists (
+    select 1 from public.user_interactions
+    where user_id = new.user_id and game_id = new.game_id and action = new.action
+  );
+
+  return new;
+end
+$$;
+
+drop trigger if exists interaction_events_apply on public.interaction_events;
+create trigger interaction_events_apply
+  after insert on public.interaction_events
+  for each row execute function public.apply_interaction_event();
+
+-- Clients change interactions by logging events; the trigger keeps this
+-- table in step
+revoke insert, update, delete on public.user_interactions from anon, authenticated;
@@ -0,0 +1,14 @@
+-- Account deletion: reviews and public collections stay up under an
+-- anonymous name when their author deletes their account, so their
+-- user_id becomes nullable and is cleared instead of cascading
+alter table public.reviews alter column user_id drop not null;
+alter table public.reviews drop constraint if exists reviews_user_id_fkey;
+alter table public.reviews
+  add constraint reviews_user_id_fkey
+  foreign key (user_id) references auth.users (id) on delete set null;
+
+alter table public.collections alter column user_id drop not null;
+alter table public.collections drop constraint if exists collections_user_id_fkey;
+alter table public.collections
+  add constraint collections_user_id_fkey
+  foreign key (user_id) references auth.users (id) on delete set null;
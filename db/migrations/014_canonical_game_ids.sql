@@ -0,0 +1,91 @@
+-- Canonical game identity: every table that points at a game uses the game
+-- slug, as user_interactions always has. Older rows and callers may hold a
+-- games.id UUID or a RAWG id instead; canonical_game_id maps those to the
+-- slug and leaves anything it can't resolve untouched.
+create or replace function public.canonical_game_id(ref text)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(
+    (select slug from games where slug = ref),
+    (select slug from games
+     where id = case
+       when ref ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then ref::uuid
+     end),
+    (select slug from games
+     where rawg_id = case when ref ~ '^[0-9]{1,9}$' then ref::integer end),
+    ref
+  )
+$$;
+
+-- Backfill user_interactions. Where a game is stored under more than one
+-- identifier, keep the row already using the slug (or the newest), so the
+-- unique and one-play-status constraints still hold afterwards.
+with ranked as (
+  select
+    id,
+    row_number() over (
+      partition by
+        user_id,
+        public.canonical_game_id(game_id),
+        case when action in ('wishlist', 'playing', 'backlog', 'dropped') then 'status' else action::text end
+      order by (game_id = public.canonical_game_id(game_id)) desc, created_at desc
+    ) as position
+  from public.user_interactions
+)
+delete from public.user_interactions
+where id in (select id from ranked where position > 1);
+
+update public.user_interactions
+set game_id = public.canonical_game_id(game_id)
+where game_id <> public.canonical_game_id(game_id);
+
+update public.interaction_events
+set game_id = public.canonical_game_id(game_id)
+where game_id <> public.canonical_game_id(game_id);
+
+with ranked as (
+  select
+    id,
+    row_number() over (
+      partition by user_id, public.canonical_game_id(game_id)
+      order by (game_id = public.canonical_game_id(game_id)) desc, updated_at desc
+    ) as position
+  from public.game_ratings
+)
+delete from public.game_ratings
+where id in (select id from ranked where position > 1);
+
+update public.game_ratings
+set game_id = public.canonical_game_id(game_id)
+where game_id <> public.canonical_game_id(game_id);
+
+-- New events are stored under the slug whatever identifier the client sent,
+-- so the trigger that applies them writes canonical user_interactions rows
+create or replace function public.canonicalize_interaction_event()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.game_id := public.canonical_game_id(new.game_id);
+  return new;
+end
+$$;
+
+drop trigger if exists interaction_events_canonical_game on public.interaction_events;
+create trigger interaction_events_canonical_game
+  before insert on public.interaction_events
+  for each row execute function public.canonicalize_interaction_event();
+
+-- Recommendations pointed at games.id; they now use the slug too. The
+-- foreign key follows slug changes made by the RAWG sync.
+alter table public.recommendations drop constraint if exists recommendations_game_id_fkey;
+alter table public.recommendations
+  alter column game_id type text using public.canonical_game_id(game_id::text);
+alter table public.recommendations
+  add constraint recommendations_game_id_fkey
+  foreign key (game_id) references public.games (slug)
+  on update cascade on delete cascade;
@@ -0,0 +1,33 @@
+-- Similar games: the top content-similar neighbours of each game, written by
+-- scripts/compute-similar-games.js. Like recommendations, rows now point at
+-- games by slug (see 014_canonical_game_ids.sql).
+alter table public.similar_games drop constraint if exists similar_games_game_id_fkey;
+alter table public.similar_games drop constraint if exists similar_games_similar_game_id_fkey;
+
+alter table public.similar_games
+  alter column game_id type text using public.canonical_game_id(game_id::text),
+  alter column similar_game_id type text using public.canonical_game_id(similar_game_id::text);
+
+alter table public.similar_games
+  add constraint similar_games_game_id_fkey
+  foreign key (game_id) references public.games (slug)
+  on update cascade on delete cascade;
+alter table public.similar_games
+  add constraint similar_games_similar_game_id_fkey
+  foreign key (similar_game_id) references public.games (slug)
+  on update cascade on delete cascade;
+
+create unique index if not exists similar_games_pair_idx
+  on public.similar_games (game_id, similar_game_id);
+create index if not exists similar_games_game_score_idx
+  on public.similar_games (game_id, similarity_score desc);
+
+-- Anyone can read neighbours; only the job (service role) writes them
+alter table public.similar_games enable row level security;
+
+drop policy if exists "Anyone can read similar games" on public.similar_games;
+create policy "Anyone can read similar games"
+  on public.similar_games for select
+  using (true);
+
+revoke insert, update, delete on public.similar_games from anon, authenticated;
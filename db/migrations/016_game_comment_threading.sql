@@ -0,0 +1,48 @@
+-- Comment threading is derived from the parent row, not taken from the
+-- client: a reply's review_id, root_id and depth always follow its parent,
+-- and top-level comments start a thread at depth 0 on a published review
+-- of the same game (or on the game itself).
+create or replace function public.game_comments_set_thread()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  parent public.game_comments%rowtype;
+begin
+  if new.parent_id is null then
+    new.root_id := null;
+    new.depth := 0;
+
+    if new.review_id is not null and not exists (
+      select 1 from public.reviews r
+      where r.id = new.review_id and r.game_id = new.game_id and r.status = 'published'
+    ) then
+      raise exception 'Review not found' using errcode = 'foreign_key_violation';
+    end if;
+
+    return new;
+  end if;
+
+  select * into parent from public.game_comments where id = new.parent_id;
+
+  if not found or parent.game_id <> new.game_id then
+    raise exception 'Parent comment not found' using errcode = 'foreign_key_violation';
+  end if;
+
+  if parent.deleted_at is not null then
+    raise exception 'Cannot reply to a deleted comment' using errcode = 'check_violation';
+  end if;
+
+  -- depth is capped by the table's check constraint
+  new.review_id := parent.review_id;
+  new.root_id := coalesce(parent.root_id, parent.id);
+  new.depth := parent.depth + 1;
+  return new;
+end
+$$;
+
+drop trigger if exists game_comments_set_thread on public.game_comments;
+create trigger game_comments_set_thread
+  before insert on public.game_comments
+  for each row execute function public.game_comments_set_thread();
@@ -0,0 +1,33 @@
+-- Reorder a collection in one statement, so a failure can't leave
+-- duplicate or missing positions. ordered_game_ids must list every game in
+-- the collection exactly once; otherwise nothing changes. Runs with the
+-- caller's rights, so the collection_games policies still apply.
+create or replace function public.reorder_collection_games(
+  target_collection_id uuid,
+  ordered_game_ids text[]
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  updated integer;
+  total integer;
+begin
+  update public.collection_games cg
+  set position = ordered.position - 1
+  from unnest(ordered_game_ids) with ordinality as ordered(game_id, position)
+  where cg.collection_id = target_collection_id
+    and cg.game_id = ordered.game_id;
+  get diagnostics updated = row_count;
+
+  select count(*) into total
+  from public.collection_games
+  where collection_id = target_collection_id;
+
+  if updated <> total or updated <> cardinality(ordered_game_ids) then
+    raise exception 'ordered_game_ids must list every game in the collection once'
+      using errcode = 'check_violation';
+  end if;
+end
+$$;
@@ -0,0 +1,55 @@
+-- Store ratings, collection entries and play sessions under the game slug
+-- whatever identifier the client sent, as interaction_events already are
+-- (014_canonical_game_ids.sql). Without this a rating sent with a UUID and
+-- one sent with the slug are two rows for the same user and game.
+create or replace function public.canonicalize_game_id()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.game_id := public.canonical_game_id(new.game_id);
+  return new;
+end
+$$;
+
+drop trigger if exists game_ratings_canonical_game on public.game_ratings;
+create trigger game_ratings_canonical_game
+  before insert or update of game_id on public.game_ratings
+  for each row execute function public.canonicalize_game_id();
+
+drop trigger if exists collection_games_canonical_game on public.collection_games;
+create trigger collection_games_canonical_game
+  before insert or update of game_id on public.collection_games
+  for each row execute function public.canonicalize_game_id();
+
+drop trigger if exists play_sessions_canonical_game on public.play_sessions;
+create trigger play_sessions_canonical_game
+  before insert or update of game_id on public.play_sessions
+  for each row execute function public.canonicalize_game_id();
+
+-- Backfill. game_ratings was backfilled in 014; a collection may hold one
+-- game under several identifiers, so keep its earliest entry.
+with ranked as (
+  select
+    collection_id,
+    game_id,
+    row_number() over (
+      partition by collection_id, public.canonical_game_id(game_id)
+      order by (game_id = public.canonical_game_id(game_id)) desc, position
+    ) as rank
+  from public.collection_games
+)
+delete from public.collection_games entry
+using ranked
+where ranked.rank > 1
+  and entry.collection_id = ranked.collection_id
+  and entry.game_id = ranked.game_id;
+
+update public.collection_games
+set game_id = public.canonical_game_id(game_id)
+where game_id <> public.canonical_game_id(game_id);
+
+update public.play_sessions
+set game_id = public.canonical_game_id(game_id)
+where game_id <> public.canonical_game_id(game_id);
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server'
+import { describe, expect, it } from 'vitest'
+import { middleware } from './middleware'
+
+describe('middleware', () => {
+  it('passes requests through without Supabase configured', async () => {
+    const response = await middleware(new NextRequest('http://localhost/api/games/celeste'))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('x-middleware-next')).toBe('1')
+  })
+})
@@ -1,5 +1,6 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { isSupabaseConfigured, type Database } from '@/lib/supabase'
 
 export async function middleware(request: NextRequest) {
   const response = NextResponse.next({
@@ -8,7 +9,12 @@ export async function middleware(request: NextRequest) {
     },
   })
 
-  const supabase = createServerClient(
+  // Offline mode: no session to refresh
+  if (!isSupabaseConfigured()) {
+    return response
+  }
+
+  const supabase = createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     {
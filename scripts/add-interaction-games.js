@@ -9,6 +9,8 @@
 
 require('dotenv').config({ path: '.env.local' });
 const { createClient } = require('@supabase/supabase-js');
+require('./register-ts');
+const { rawgGameToRow } = require('../src/lib/game-normalization');
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const rawgApiKey = process.env.RAWG_API_KEY;
@@ -35,31 +37,6 @@ if (!rawgApiKey) {
 const supabase = createClient(supabaseUrl, serviceRoleKey);
 console.log('✓ Using service role key (bypasses RLS)\n');
 
-/**
- * Transform RAWG game data to match database schema
- */
-function transformRAWGGame(rawgGame) {
-  return {
-    rawg_id: rawgGame.id,
-    name: rawgGame.name,
-    slug: rawgGame.slug,
-    description: rawgGame.description || null,
-    released: rawgGame.released || null,
-    background_image: rawgGame.background_image || null,
-    website: rawgGame.website || null,
-    rating: rawgGame.rating || null,
-    rating_top: rawgGame.rating_top || null,
-    metacritic: rawgGame.metacritic || null,
-    playtime: rawgGame.playtime || null,
-    platforms: rawgGame.platforms ? rawgGame.platforms.map(p => p.platform) : null,
-    genres: rawgGame.genres || null,
-    tags: rawgGame.tags || null,
-    developers: rawgGame.developers || null,
-    publishers: rawgGame.publishers || null,
-    stores: rawgGame.stores ? rawgGame.stores.map(s => s.store) : null,
-  };
-}
-
 /**
  * Fetch game by slug from RAWG API
  */
@@ -178,7 +155,7 @@ async function main() {
       const rawgGame = await fetchGameBySlug(gameIdentifier);
       
       // Transform and insert
-      const gameData = transformRAWGGame(rawgGame);
+      const gameData = rawgGameToRow(rawgGame);
 
       // Check again if it exists (might have been added by another process)
       const exists = await gameExists(gameData.slug);
@@ -0,0 +1,187 @@
+/**
+ * Recommendation Inference Benchmark
+ *
+ * Scores a synthetic catalog for one user two ways and compares them:
+ * - loop: one model.predict per game (how generateRecommendations used to work)
+ * - batched: predictScores from src/lib/recommendations.ts
+ *
+ * The model has the training script's architecture with random weights, so
+ * no database, trained model or environment variables are needed. Runs on
+ * the CPU backend of @tensorflow/tfjs, as the API routes do.
+ *
+ * Run with: node scripts/benchmark-recommendations.js [games] [runs]
+ * or: npm run benchmark:recommendations
+ */
+
+const tf = require('@tensorflow/tfjs');
+require('./register-ts');
+const { predictScores, PREDICTION_BATCH_SIZE } = require('../src/lib/recommendations');
+
+const CONFIG = {
+  numGames: parseInt(process.argv[2]) || 10000,
+  runs: parseInt(process.argv[3]) || 3,
+  numUsers: 100,
+  // Same layout as the trained model: genres, top tags, platforms, then 4 numeric features
+  numGenres: 19,
+  numTags: 20,
+  numPlatforms: 12,
+};
+
+const FEATURE_SIZE = CONFIG.numGenres + CONFIG.numTags + CONFIG.numPlatforms + 4;
+
+/**
+ * Same layers as buildModel in train-recommendations.js (uncompiled; it is
+ * only used for inference)
+ */
+function buildModel(numUsers, numGames, featureSize) {
+  const userInput = tf.input({ shape: [1], name: 'user_input' });
+  const gameInput = tf.input({ shape: [1], name: 'game_input' });
+  const featureInput = tf.input({ shape: [featureSize], name: 'feature_input' });
+
+  const userFlat = tf.layers.flatten().apply(
+    tf.layers.embedding({ inputDim: numUsers, outputDim: 32, inputLength: 1 }).apply(userInput)
+  );
+  const gameFlat = tf.layers.flatten().apply(
+    tf.layers.embedding({ inputDim: numGames, outputDim: 32, inputLength: 1 }).apply(gameInput)
+  );
+  const featureNorm = tf.layers.dense({ units: 64, activation: 'relu' }).apply(featureInput);
+
+  let hidden = tf.layers.concatenate().apply([userFlat, gameFlat, featureNorm]);
+  for (const units of [128, 64, 32]) {
+    hidden = tf.layers.dense({ units, activation: 'relu' }).apply(hidden);
+    if (units !== 32) hidden = tf.layers.dropout({ rate: 0.3 }).apply(hidden);
+  }
+  const output = tf.layers.dense({ units: 1, activation: 'sigmoid' }).apply(hidden);
+
+  return tf.model({ inputs: [userInput, gameInput, featureInput], outputs: output });
+}
+
+/**
+ * Random feature vectors shaped like extractGameFeatures output
+ */
+function syntheticFeatures(numGames) {
+  return Array.from({ length: numGames }, () => {
+    const categorical = Array.from(
+      { length: CONFIG.numGenres + CONFIG.numTags + CONFIG.numPlatforms },
+      () => (Math.random() < 0.1 ? 1 : 0)
+    );
+    const numeric = Array.from({ length: 4 }, () => Math.random());
+    return [...categorical, ...numeric];
+  });
+}
+
+/**
+ * The previous approach: three tensors and a predict call per game
+ */
+async function predictScoresLoop(model, userIndex, gameIndices, features) {
+  const scores = new Float32Array(gameIndices.length);
+
+  for (let i = 0; i < gameIndices.length; i++) {
+    const userTensor = tf.tensor2d([[userIndex]]);
+    const gameTensor = tf.tensor2d([[gameIndices[i]]]);
+    const featureTensor = tf.tensor2d([features[i]]);
+
+    const prediction = model.predict([userTensor, gameTensor, featureTensor]);
+    const predictionTensor = Array.isArray(prediction) ? prediction[0] : prediction;
+    scores[i] = (await predictionTensor.data())[0];
+
+    userTensor.dispose();
+    gameTensor.dispose();
+    featureTensor.dispose();
+    predictionTensor.dispose();
+  }
+
+  return scores;
+}
+
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function formatBytes(bytes) {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Median latency over CONFIG.runs on the whole catalog, then memory from a
+ * profiled run over one batch worth of games. tf.profile records every
+ * kernel call, too many to keep for the per-game loop over 10k games; the
+ * peak is reached within a single batch either way.
+ */
+async function measure(label, score, gameIndices, features) {
+  const scores = await score(gameIndices, features); // warm-up: kernel setup and weight uploads
+
+  const timings = [];
+  for (let run = 0; run < CONFIG.runs; run++) {
+    const start = process.hrtime.bigint();
+    await score(gameIndices, features);
+    timings.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+
+  const sample = Math.min(gameIndices.length, PREDICTION_BATCH_SIZE);
+  const before = tf.memory().numTensors;
+  const profile = await tf.profile(() =>
+    score(gameIndices.slice(0, sample), features.slice(0, sample))
+  );
+  const leaked = tf.memory().numTensors - before;
+
+  console.log(`${label}`);
+  console.log(`  Latency (median of ${CONFIG.runs}): ${median(timings).toFixed(0)} ms`);
+  console.log(`  Peak tensor memory: ${formatBytes(profile.peakBytes)}`);
+  console.log(`  Kernel calls per ${sample} games: ${profile.kernels.length}`);
+  console.log(`  Tensors left behind: ${leaked}\n`);
+
+  return { latency: median(timings), peakBytes: profile.peakBytes, scores };
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Recommendation Inference Benchmark');
+  console.log('='.repeat(60) + '\n');
+
+  await tf.setBackend('cpu');
+  await tf.ready();
+
+  console.log(`Catalog: ${CONFIG.numGames} games, ${FEATURE_SIZE} features each`);
+  console.log(`Batch size: ${PREDICTION_BATCH_SIZE}, runs: ${CONFIG.runs}\n`);
+
+  const model = buildModel(CONFIG.numUsers, CONFIG.numGames, FEATURE_SIZE);
+  const gameIndices = Array.from({ length: CONFIG.numGames }, (_, i) => i);
+  const features = syntheticFeatures(CONFIG.numGames);
+  const userIndex = Math.floor(Math.random() * CONFIG.numUsers);
+
+  const loop = await measure(
+    'Per-game loop',
+    (indices, feats) => predictScoresLoop(model, userIndex, indices, feats),
+    gameIndices,
+    features
+  );
+  const batched = await measure(
+    'Batched (predictScores)',
+    (indices, feats) => predictScores(tf, model, userIndex, indices, feats),
+    gameIndices,
+    features
+  );
+
+  // Dropout is inactive at inference, so both must give the same scores
+  let maxDifference = 0;
+  for (let i = 0; i < CONFIG.numGames; i++) {
+    maxDifference = Math.max(maxDifference, Math.abs(loop.scores[i] - batched.scores[i]));
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Speed-up: ${(loop.latency / batched.latency).toFixed(1)}x`);
+  console.log(`Peak memory: ${formatBytes(loop.peakBytes)} → ${formatBytes(batched.peakBytes)}`);
+  console.log(`Largest score difference: ${maxDifference.toExponential(2)}`);
+  console.log('='.repeat(60));
+
+  model.dispose();
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('\n❌ Benchmark failed:', error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,231 @@
+/**
+ * Similar Games Script
+ *
+ * Computes the top content-similar neighbours of every cached game (genres,
+ * tags, developers, platforms, rating and release year; see
+ * src/lib/game-similarity.ts) and replaces the rows in similar_games.
+ * Re-run it after populating or syncing games.
+ *
+ * Usage: node scripts/compute-similar-games.js [k]
+ * or: npm run similar:games
+ */
+
+require('dotenv').config({ path: '.env.local' });
+const tf = require('@tensorflow/tfjs');
+const { createClient } = require('@supabase/supabase-js');
+require('./register-ts');
+const {
+  buildSimilarityVocabulary,
+  similarityVector,
+  MIN_SIMILARITY,
+  SIMILAR_GAMES_K,
+} = require('../src/lib/game-similarity');
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('❌ Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in .env.local');
+  console.error('The service role key is required: only the service role can write similar_games.');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+// Configuration
+const CONFIG = {
+  k: parseInt(process.argv[2]) || SIMILAR_GAMES_K,
+  pageSize: 1000, // rows per games query (the PostgREST default maximum)
+  scoreBatchSize: 512, // games compared against the catalog per matrix product
+  writeBatchSize: 100, // games whose neighbours are replaced per round of requests
+};
+
+/**
+ * Every cached game, a page at a time
+ */
+async function loadGames() {
+  const games = [];
+
+  for (let from = 0; ; from += CONFIG.pageSize) {
+    const { data, error } = await supabase
+      .from('games')
+      .select('slug, name, genres, tags, developers, platforms, rating, released')
+      .order('slug')
+      .range(from, from + CONFIG.pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to load games: ${error.message}`);
+    }
+
+    games.push(...data);
+    if (data.length < CONFIG.pageSize) break;
+  }
+
+  return games;
+}
+
+/**
+ * Top-k neighbours of every game by cosine similarity, skipping the game
+ * itself and anything under MIN_SIMILARITY
+ */
+async function findNeighbours(vectors, k) {
+  const neighbours = [];
+  const catalog = tf.tidy(() => {
+    const matrix = tf.tensor2d(vectors);
+    return matrix.div(matrix.norm('euclidean', 1, true).add(1e-8));
+  });
+  const count = Math.min(k + 1, vectors.length);
+
+  for (let start = 0; start < vectors.length; start += CONFIG.scoreBatchSize) {
+    const size = Math.min(CONFIG.scoreBatchSize, vectors.length - start);
+
+    const { values, indices } = tf.tidy(() => {
+      const rows = catalog.slice([start, 0], [size, -1]);
+      return tf.topk(rows.matMul(catalog, false, true), count);
+    });
+    const [scores, positions] = await Promise.all([values.data(), indices.data()]);
+    values.dispose();
+    indices.dispose();
+
+    for (let row = 0; row < size; row++) {
+      const gameIndex = start + row;
+      const found = [];
+      for (let column = 0; column < count && found.length < k; column++) {
+        const index = positions[row * count + column];
+        const score = scores[row * count + column];
+        if (index !== gameIndex && score >= MIN_SIMILARITY) {
+          found.push({ index, score });
+        }
+      }
+      neighbours.push(found);
+    }
+
+    console.log(`  Scored ${start + size}/${vectors.length} games`);
+  }
+
+  catalog.dispose();
+  return neighbours;
+}
+
+/**
+ * Stored neighbour rows of some games, a page at a time
+ */
+async function loadStoredPairs(slugs) {
+  const pairs = [];
+
+  for (let from = 0; ; from += CONFIG.pageSize) {
+    const { data, error } = await supabase
+      .from('similar_games')
+      .select('id, game_id, similar_game_id')
+      .in('game_id', slugs)
+      .order('id')
+      .range(from, from + CONFIG.pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to load stored similar games: ${error.message}`);
+    }
+
+    pairs.push(...data);
+    if (data.length < CONFIG.pageSize) break;
+  }
+
+  return pairs;
+}
+
+/**
+ * Replace the stored neighbours of each game
+ * New pairs are upserted on (game_id, similar_game_id) first and only the
+ * pairs that are no longer neighbours are deleted after, so a reader never
+ * sees a game without neighbours, even if the job stops partway.
+ */
+async function saveNeighbours(games, neighbours) {
+  let saved = 0;
+
+  for (let start = 0; start < games.length; start += CONFIG.writeBatchSize) {
+    const slugs = games.slice(start, start + CONFIG.writeBatchSize).map(game => game.slug);
+    const rows = slugs.flatMap((slug, offset) =>
+      neighbours[start + offset].map(({ index, score }) => ({
+        game_id: slug,
+        similar_game_id: games[index].slug,
+        similarity_score: Number(score.toFixed(4)),
+      }))
+    );
+
+    if (rows.length > 0) {
+      const { error: upsertError } = await supabase
+        .from('similar_games')
+        .upsert(rows, { onConflict: 'game_id,similar_game_id' });
+
+      if (upsertError) {
+        throw new Error(`Failed to save similar games: ${upsertError.message}`);
+      }
+    }
+
+    const current = new Set(rows.map(row => `${row.game_id}\n${row.similar_game_id}`));
+    const staleIds = (await loadStoredPairs(slugs))
+      .filter(pair => !current.has(`${pair.game_id}\n${pair.similar_game_id}`))
+      .map(pair => pair.id);
+
+    for (let i = 0; i < staleIds.length; i += CONFIG.writeBatchSize) {
+      const { error: deleteError } = await supabase
+        .from('similar_games')
+        .delete()
+        .in('id', staleIds.slice(i, i + CONFIG.writeBatchSize));
+
+      if (deleteError) {
+        throw new Error(`Failed to remove old similar games: ${deleteError.message}`);
+      }
+    }
+
+    saved += rows.length;
+  }
+
+  return saved;
+}
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Compute Similar Games');
+  console.log('='.repeat(60) + '\n');
+
+  await tf.setBackend('cpu');
+  await tf.ready();
+
+  const games = await loadGames();
+  console.log(`✓ Found ${games.length} games`);
+
+  if (games.length < 2) {
+    console.log('Nothing to compare. Populate games first: npm run populate:games');
+    return;
+  }
+
+  const vocabulary = buildSimilarityVocabulary(games);
+  console.log(
+    `✓ Vocabulary: ${vocabulary.genres.length} genres, ${vocabulary.tags.length} tags, ` +
+    `${vocabulary.developers.length} developers, ${vocabulary.platforms.length} platforms\n`
+  );
+
+  const vectors = games.map(game => similarityVector(game, vocabulary));
+
+  console.log(`Finding the top ${CONFIG.k} neighbours per game...`);
+  const neighbours = await findNeighbours(vectors, CONFIG.k);
+
+  console.log('\nSaving neighbours...');
+  const saved = await saveNeighbours(games, neighbours);
+
+  console.log('\n' + '='.repeat(60));
+  console.log('✅ Similar games updated!');
+  console.log('='.repeat(60));
+  console.log(`Games: ${games.length}`);
+  console.log(`Neighbours saved: ${saved}`);
+}
+
+// Run
+if (require.main === module) {
+  main().catch(error => {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = { main, findNeighbours };
@@ -9,6 +9,8 @@
 
 require('dotenv').config({ path: '.env.local' });
 const { createClient } = require('@supabase/supabase-js');
+require('./register-ts');
+const { rawgGameToRow } = require('../src/lib/game-normalization');
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const rawgApiKey = process.env.RAWG_API_KEY;
@@ -48,31 +50,6 @@ const TARGET_COUNT = parseInt(process.argv[2]) || 3000;
 const BATCH_SIZE = 40; // RAWG API max page size
 const DELAY_BETWEEN_REQUESTS = 200; // ms - to respect rate limits
 
-/**
- * Transform RAWG game data to match database schema
- */
-function transformRAWGGame(rawgGame) {
-  return {
-    rawg_id: rawgGame.id,
-    name: rawgGame.name,
-    slug: rawgGame.slug,
-    description: rawgGame.description || null,
-    released: rawgGame.released || null,
-    background_image: rawgGame.background_image || null,
-    website: rawgGame.website || null,
-    rating: rawgGame.rating || null,
-    rating_top: rawgGame.rating_top || null,
-    metacritic: rawgGame.metacritic || null,
-    playtime: rawgGame.playtime || null,
-    platforms: rawgGame.platforms ? rawgGame.platforms.map(p => p.platform) : null,
-    genres: rawgGame.genres || null,
-    tags: rawgGame.tags || null,
-    developers: rawgGame.developers || null,
-    publishers: rawgGame.publishers || null,
-    stores: rawgGame.stores ? rawgGame.stores.map(s => s.store) : null,
-  };
-}
-
 /**
  * Fetch games from RAWG API
  */
@@ -221,7 +198,7 @@ async function main() {
       }
 
       // Transform games
-      const transformedGames = gamesWithGenres.map(transformRAWGGame);
+      const transformedGames = gamesWithGenres.map(rawgGameToRow);
 
       // Insert into database
       const { inserted, skipped } = await insertGames(transformedGames);
@@ -0,0 +1,27 @@
+/**
+ * Lets the Node scripts require TypeScript modules from src/lib
+ *
+ * Compiles `.ts` files on the fly with the project's own TypeScript
+ * (transpile only, no type-check). Only use it for modules without
+ * path-alias imports, e.g. src/lib/game-normalization.ts.
+ *
+ * Usage: require('./register-ts');
+ */
+
+const fs = require('fs');
+const ts = require('typescript');
+
+if (!require.extensions['.ts']) {
+  require.extensions['.ts'] = function compileTypeScript(module, filename) {
+    const source = fs.readFileSync(filename, 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+      },
+      fileName: filename,
+    });
+    module._compile(outputText, filename);
+  };
+}
@@ -86,6 +86,14 @@ try {
 const fs = require('fs').promises;
 const path = require('path');
 const { createClient } = require('@supabase/supabase-js');
+require('./register-ts');
+const { RATING_SCORES, isGameRating } = require('../src/lib/ratings');
+const { createGameIdentityIndex } = require('../src/lib/game-identity');
+const {
+  createFeatureSchema,
+  describeFeatureSchema,
+  extractGameFeatures: extractFeatures,
+} = require('../src/lib/game-features');
 
 // Configuration
 const CONFIG = {
@@ -100,6 +108,12 @@ const CONFIG = {
   modelDir: path.join(__dirname, '../models/recommendation-model'),
 };
 
+// Labels for interactions that aren't a plain "I like this"; ratings use
+// RATING_SCORES from src/lib/ratings.ts
+const INTERACTION_LABELS = {
+  dropped: 0.2,
+};
+
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 // Use service role key to bypass RLS (for admin scripts)
@@ -150,10 +164,24 @@ async function loadData() {
   const actualCount = interactions?.length || interactionsCount || 0;
   console.log(`✓ Found ${actualCount} user interactions`);
 
+  // Load personal ratings (graded labels); older databases may not have the table yet
+  const { data: ratingRows, error: ratingsError } = await supabase
+    .from('game_ratings')
+    .select('user_id, game_id, rating');
+
+  let ratings = [];
+  if (ratingsError) {
+    console.warn(`⚠️  Could not load ratings (${ratingsError.message}); training on interactions only`);
+  } else {
+    ratings = (ratingRows || []).filter(r => isGameRating(r.rating));
+    console.log(`✓ Found ${ratings.length} ratings`);
+  }
+
   // Get unique users (handle empty interactions array)
-  const users = interactions && interactions.length > 0 
-    ? [...new Set(interactions.map(i => i.user_id))]
-    : [];
+  const users = [...new Set([
+    ...(interactions || []).map(i => i.user_id),
+    ...ratings.map(r => r.user_id),
+  ])];
   console.log(`✓ Found ${users.length} users\n`);
 
   // Validate data
@@ -164,7 +192,7 @@ async function loadData() {
     );
   }
 
-  const interactionCount = interactions?.length || 0;
+  const interactionCount = (interactions?.length || 0) + ratings.length;
   if (interactionCount < CONFIG.minInteractions) {
     console.error(`\n❌ Insufficient interactions: ${interactionCount} < ${CONFIG.minInteractions}`);
     console.error(`   Please add more user interactions (like, favorite, or played on games).`);
@@ -191,120 +219,41 @@ async function loadData() {
     console.log('   - For better results, aim for at least 10+ interactions across different games\n');
   }
 
-  return { games, interactions, users };
+  return { games, interactions, ratings, users };
 }
 
 /**
  * Extract and normalize game features
+ * Uses the same pipeline the server scores with (src/lib/game-features.ts);
+ * the schema is saved in metadata.json so the server can check it matches.
  */
 function extractGameFeatures(games) {
-  // Collect all unique genres, tags, and platforms
-  const allGenres = new Set();
-  const allTags = new Set();
-  const allPlatforms = new Set();
-
-  games.forEach(game => {
-    if (game.genres && Array.isArray(game.genres)) {
-      game.genres.forEach(g => allGenres.add(g.name || g));
-    }
-    if (game.tags && Array.isArray(game.tags)) {
-      game.tags.forEach(t => allTags.add(t.name || t));
-    }
-    if (game.platforms && Array.isArray(game.platforms)) {
-      game.platforms.forEach(p => {
-        const platformName = p.name || p.platform?.name || p;
-        if (platformName) allPlatforms.add(platformName);
-      });
-    }
-  });
+  const schema = createFeatureSchema(games);
 
-  const genreList = Array.from(allGenres);
-  const tagList = Array.from(allTags);
-  const platformList = Array.from(allPlatforms);
-  
-  // Get top 20 most common tags (used for feature encoding)
-  const topTags = tagList.slice(0, 20);
-
-  // Create feature vectors for each game
-  const gameFeatures = games.map(game => {
-    const features = [];
-
-    // One-hot encode genres
-    const genreVec = new Array(genreList.length).fill(0);
-    if (game.genres && Array.isArray(game.genres)) {
-      game.genres.forEach(g => {
-        const genreName = g.name || g;
-        const idx = genreList.indexOf(genreName);
-        if (idx >= 0) genreVec[idx] = 1;
-      });
-    }
-    features.push(...genreVec);
-
-    // One-hot encode tags (top 20 most common)
-    const tagVec = new Array(topTags.length).fill(0);
-    if (game.tags && Array.isArray(game.tags)) {
-      game.tags.forEach(t => {
-        const tagName = t.name || t;
-        const idx = topTags.indexOf(tagName);
-        if (idx >= 0) tagVec[idx] = 1;
-      });
-    }
-    features.push(...tagVec);
-
-    // Normalize ratings (0-1 scale)
-    const rating = game.rating ? game.rating / 5.0 : 0.5;
-    features.push(rating);
-
-    // Normalize metacritic (0-1 scale)
-    const metacritic = game.metacritic ? game.metacritic / 100.0 : 0.5;
-    features.push(metacritic);
-
-    // Normalize playtime (log scale, capped at 100 hours)
-    const playtime = game.playtime 
-      ? Math.min(Math.log10(game.playtime + 1) / Math.log10(101), 1.0)
-      : 0.5;
-    features.push(playtime);
-
-    // Release year (normalized, recent games get higher score)
-    let releaseYear = 0.5;
-    if (game.released) {
-      const year = new Date(game.released).getFullYear();
-      const currentYear = new Date().getFullYear();
-      releaseYear = Math.min((year - 1990) / (currentYear - 1990), 1.0);
-    }
-    features.push(releaseYear);
-
-    return {
-      gameId: game.id,
-      features: features
-    };
-  });
+  const gameFeatures = games.map(game => ({
+    gameId: game.slug,
+    features: extractFeatures(game, schema)
+  }));
 
   return {
     gameFeatures,
-    genreList,
-    tagList: topTags,
-    platformList
+    schema
   };
 }
 
 /**
  * Prepare training data
  */
-function prepareTrainingData(games, interactions, users, gameFeatures) {
+function prepareTrainingData(games, interactions, ratings, users, gameFeatures) {
   console.log('Preparing training data...\n');
 
-  // Create mappings
-  const gameIdToIndex = new Map();  // Maps database UUID -> index
-  const gameSlugToIndex = new Map(); // Maps slug -> index
+  // Create mappings, keyed by the canonical game id (the slug). Rows that
+  // still hold a UUID or RAWG id are resolved to it.
+  const gameIdentity = createGameIdentityIndex(games);
+  const gameIdToIndex = new Map();
   const userIdToIndex = new Map();
 
-  games.forEach((game, idx) => {
-    gameIdToIndex.set(game.id, idx);      // Map by database UUID
-    if (game.slug) {
-      gameSlugToIndex.set(game.slug, idx); // Map by slug
-    }
-  });
+  games.forEach((game, idx) => gameIdToIndex.set(game.slug, idx));
   users.forEach((userId, idx) => userIdToIndex.set(userId, idx));
 
   // Create game feature lookup
@@ -313,26 +262,15 @@ function prepareTrainingData(games, interactions, users, gameFeatures) {
     gameFeatureMap.set(gameId, features);
   });
 
-  // Build positive examples (user interacted with game)
-  const positiveExamples = [];
+  // Build positive examples (user interacted with or rated game)
+  // Examples are keyed by user and game so a rating can grade the pair
+  const examplesByPair = new Map();
   let skippedInteractions = 0;
-  
+
   interactions.forEach(interaction => {
     const userIdx = userIdToIndex.get(interaction.user_id);
-    
-    // Try to find game by database ID first, then by slug
-    let gameIdx = gameIdToIndex.get(interaction.game_id);
-    let gameId = interaction.game_id;
-    
-    if (gameIdx === undefined) {
-      // Try looking up by slug
-      gameIdx = gameSlugToIndex.get(interaction.game_id);
-      if (gameIdx !== undefined) {
-        // Found by slug, get the actual database ID
-        gameId = games[gameIdx].id;
-      }
-    }
-    
+    const gameId = gameIdentity.canonicalId(interaction.game_id);
+    const gameIdx = gameIdToIndex.get(gameId);
     const features = gameFeatureMap.get(gameId) || [];
 
     if (userIdx === undefined) {
@@ -340,7 +278,7 @@ function prepareTrainingData(games, interactions, users, gameFeatures) {
       console.warn(`  ⚠️  User ${interaction.user_id} not found in user index`);
     } else if (gameIdx === undefined) {
       skippedInteractions++;
-      console.warn(`  ⚠️  Game ${interaction.game_id} not found in game index (tried both ID and slug)`);
+      console.warn(`  ⚠️  Game ${interaction.game_id} not found in game index`);
     } else if (features.length === 0) {
       skippedInteractions++;
       console.warn(`  ⚠️  Game ${gameId} has no features`);
@@ -351,39 +289,65 @@ function prepareTrainingData(games, interactions, users, gameFeatures) {
       else if (interaction.action === 'played') weight = 1.2;
       else if (interaction.action === 'like') weight = 1.0;
 
-      positiveExamples.push({
-        userIdx,
-        gameIdx,
-        features,
-        label: 1.0,
-        weight
-      });
+      // Dropping a game is a weak signal against it
+      const label = interaction.action === 'dropped' ? INTERACTION_LABELS.dropped : 1.0;
+
+      const key = `${userIdx}:${gameIdx}`;
+      const existing = examplesByPair.get(key);
+      if (!existing) {
+        examplesByPair.set(key, { userIdx, gameIdx, features, label, weight, rated: false });
+      } else {
+        existing.weight = Math.max(existing.weight, weight);
+        existing.label = Math.min(existing.label, label);
+      }
+    }
+  });
+
+  // Ratings replace the interaction label with a graded one
+  let ratedExamples = 0;
+  ratings.forEach(rating => {
+    const userIdx = userIdToIndex.get(rating.user_id);
+    const gameId = gameIdentity.canonicalId(rating.game_id);
+    const gameIdx = gameIdToIndex.get(gameId);
+
+    if (userIdx === undefined || gameIdx === undefined) {
+      skippedInteractions++;
+      return;
     }
+
+    const features = gameFeatureMap.get(gameId) || [];
+    if (features.length === 0) {
+      skippedInteractions++;
+      return;
+    }
+
+    const key = `${userIdx}:${gameIdx}`;
+    const existing = examplesByPair.get(key);
+    const label = RATING_SCORES[rating.rating];
+    if (existing) {
+      existing.label = label;
+      existing.rated = true;
+    } else {
+      examplesByPair.set(key, { userIdx, gameIdx, features, label, weight: 1.0, rated: true });
+    }
+    ratedExamples++;
   });
 
+  const positiveExamples = [...examplesByPair.values()];
+
   if (skippedInteractions > 0) {
     console.log(`  ⚠️  Skipped ${skippedInteractions} interactions (user/game not found or missing features)`);
   }
-  console.log(`✓ Created ${positiveExamples.length} positive examples (before weighting)`);
+  console.log(`✓ Created ${positiveExamples.length} positive examples (before weighting, ${ratedExamples} graded by ratings)`);
 
   // Build negative examples (random games user hasn't interacted with)
-  const userInteractedGames = new Map(); // Maps user_id -> Set of game IDs/slugs
-  interactions.forEach(interaction => {
-    if (!userInteractedGames.has(interaction.user_id)) {
-      userInteractedGames.set(interaction.user_id, new Set());
-    }
-    // Add both the interaction game_id (could be slug or UUID) and the actual game.id
-    userInteractedGames.get(interaction.user_id).add(interaction.game_id);
-    // Also add the slug if we found the game
-    const gameIdx = gameIdToIndex.get(interaction.game_id) !== undefined 
-      ? gameIdToIndex.get(interaction.game_id)
-      : gameSlugToIndex.get(interaction.game_id);
-    if (gameIdx !== undefined) {
-      userInteractedGames.get(interaction.user_id).add(games[gameIdx].id);
-      if (games[gameIdx].slug) {
-        userInteractedGames.get(interaction.user_id).add(games[gameIdx].slug);
-      }
+  // Rated games are labelled already, so they aren't sampled as negatives
+  const userInteractedGames = new Map(); // Maps user_id -> Set of canonical game ids
+  [...interactions, ...ratings].forEach(row => {
+    if (!userInteractedGames.has(row.user_id)) {
+      userInteractedGames.set(row.user_id, new Set());
     }
+    userInteractedGames.get(row.user_id).add(gameIdentity.canonicalId(row.game_id));
   });
 
   const negativeExamples = [];
@@ -394,14 +358,10 @@ function prepareTrainingData(games, interactions, users, gameFeatures) {
     const randomGame = games[Math.floor(Math.random() * games.length)];
     const userInteracted = userInteractedGames.get(randomUser) || new Set();
 
-    // Check if user has interacted with this game (by ID or slug)
-    const hasInteracted = userInteracted.has(randomGame.id) || 
-                         (randomGame.slug && userInteracted.has(randomGame.slug));
-
-    if (!hasInteracted) {
+    if (!userInteracted.has(randomGame.slug)) {
       const userIdx = userIdToIndex.get(randomUser);
-      const gameIdx = gameIdToIndex.get(randomGame.id);
-      const features = gameFeatureMap.get(randomGame.id) || [];
+      const gameIdx = gameIdToIndex.get(randomGame.slug);
+      const features = gameFeatureMap.get(randomGame.slug) || [];
 
       if (userIdx !== undefined && gameIdx !== undefined && features.length > 0) {
         negativeExamples.push({
@@ -453,8 +413,8 @@ function prepareTrainingData(games, interactions, users, gameFeatures) {
   });
 
   console.log(`✓ Created ${weightedExamples.length} weighted training examples (after duplication)`);
-  console.log(`  - Positive examples: ${positiveExamples.length} → ${weightedExamples.filter(e => e.label === 1.0).length} (weighted)`);
-  console.log(`  - Negative examples: ${negativeExamples.length} → ${weightedExamples.filter(e => e.label === 0.0).length} (weighted)\n`);
+  console.log(`  - Positive examples: ${positiveExamples.length} → ${weightedExamples.filter(e => e.label > 0.5).length} labelled above 0.5 (weighted)`);
+  console.log(`  - Negative examples: ${negativeExamples.length} → ${weightedExamples.filter(e => e.label <= 0.5).length} labelled 0.5 or below (weighted)\n`);
 
   // Shuffle
   const allExamples = weightedExamples;
@@ -701,14 +661,14 @@ async function main() {
     console.log();
 
     // Load data
-    const { games, interactions, users } = await loadData();
+    const { games, interactions, ratings, users } = await loadData();
 
     // Extract features
     const gameFeatures = extractGameFeatures(games);
     console.log(`✓ Feature vector size: ${gameFeatures.gameFeatures[0]?.features.length || 0}\n`);
 
     // Prepare training data
-    const trainingData = prepareTrainingData(games, interactions, users, gameFeatures);
+    const trainingData = prepareTrainingData(games, interactions, ratings, users, gameFeatures);
 
     // Build model
     const model = buildModel(
@@ -735,6 +695,7 @@ async function main() {
 
     // Save model
     const metadata = {
+      gameIdentity: 'slug',
       gameIdToIndex: Object.fromEntries(trainingData.gameIdToIndex),
       userIdToIndex: Object.fromEntries(trainingData.userIdToIndex),
       indexToGameId: Object.fromEntries(
@@ -746,9 +707,10 @@ async function main() {
       featureSize: trainingData.featureSize,
       numUsers: trainingData.numUsers,
       numGames: trainingData.numGames,
-      genreList: gameFeatures.genreList,
-      tagList: gameFeatures.tagList,
-      platformList: gameFeatures.platformList,
+      genreList: gameFeatures.schema.genres,
+      tagList: gameFeatures.schema.tags,
+      platformList: gameFeatures.schema.platforms,
+      featureSchema: describeFeatureSchema(gameFeatures.schema),
       config: CONFIG,
       trainedAt: new Date().toISOString()
     };
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { apiError, withAuth } from '@/lib/api-handler'
+import { collectAccountData, toCsv } from '@/lib/account'
+import { createZip } from '@/lib/zip'
+
+/**
+ * Download everything stored about the signed-in user
+ * `format=json` (default) is a single file; `format=csv` is a zip with one
+ * CSV per table plus account.csv.
+ */
+export const GET = withAuth(async ({ request, supabase, user }) => {
+  const { searchParams } = new URL(request.url)
+  const format = searchParams.get('format') || 'json'
+
+  if (format !== 'json' && format !== 'csv') {
+    return apiError('Invalid format. Must be one of: json, csv', 400)
+  }
+
+  const archive = await collectAccountData(supabase, user)
+  const filename = `playpickr-export-${archive.exported_at.slice(0, 10)}`
+  const headers = {
+    'Cache-Control': 'no-store',
+  }
+
+  if (format === 'json') {
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.json"`,
+      },
+    })
+  }
+
+  const zip = createZip([
+    { name: 'account.csv', content: toCsv([{ ...archive.account, exported_at: archive.exported_at }]) },
+    ...Object.entries(archive.data).map(([table, rows]) => ({ name: `${table}.csv`, content: toCsv(rows) })),
+  ])
+
+  return new NextResponse(zip, {
+    headers: {
+      ...headers,
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${filename}.zip"`,
+    },
+  })
+})
@@ -0,0 +1,37 @@
+import { apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import { deleteAccountData } from '@/lib/account'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+
+/** What the client must send, so a stray request can't close an account */
+const CONFIRMATION = 'DELETE'
+
+/**
+ * Close the signed-in user's account
+ * Private data is deleted, public contributions are anonymised (see
+ * deleteAccountData) and then the auth user is removed.
+ */
+export const DELETE = withAuth(async ({ request, supabase, user }) => {
+  const body = await readJson(request).catch(() => null)
+
+  if (body?.confirmation !== CONFIRMATION) {
+    return apiError(`Send { "confirmation": "${CONFIRMATION}" } to delete your account`, 400)
+  }
+
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return apiError('Account deletion is not configured', 503)
+  }
+
+  const admin = createServiceRoleClient()
+  await deleteAccountData(admin, user.id)
+
+  const { error } = await admin.auth.admin.deleteUser(user.id)
+  if (error) {
+    console.error('Error deleting auth user:', error)
+    return apiError('Your data was removed, but the account could not be closed. Please try again.', 500)
+  }
+
+  // Clear the session cookies; the refresh token is already gone
+  await supabase.auth.signOut().catch(() => undefined)
+
+  return apiSuccess({ deleted: true })
+})
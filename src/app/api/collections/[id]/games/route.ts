@@ -0,0 +1,134 @@
+import { ApiError, apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import { getCollection } from '@/lib/collections'
+import type { TypedSupabaseClient } from '@/lib/supabase'
+
+async function getOwnCollection(supabase: TypedSupabaseClient, userId: string, id: string) {
+  const collection = await getCollection(supabase, id)
+
+  if (!collection) {
+    throw new ApiError(404, 'Collection not found')
+  }
+
+  if (collection.user_id !== userId) {
+    throw new ApiError(403, 'You can only change your own collections')
+  }
+
+  return collection
+}
+
+async function touchCollection(supabase: TypedSupabaseClient, id: string) {
+  await supabase
+    .from('collections')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', id)
+}
+
+// Append a game to the end of the list (adding it twice is a no-op)
+export const POST = withAuth<{ id: string }>(async ({ request, supabase, user, params }) => {
+  const collection = await getOwnCollection(supabase, user.id, params.id)
+  const body = await readJson(request)
+  const gameId = body?.gameId
+
+  if (!gameId || typeof gameId !== 'string') {
+    return apiError('Missing gameId', 400)
+  }
+
+  const { data: last, error: lastError } = await supabase
+    .from('collection_games')
+    .select('position')
+    .eq('collection_id', collection.id)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (lastError) {
+    return apiError('Failed to add game', 500)
+  }
+
+  const { error } = await supabase
+    .from('collection_games')
+    .upsert(
+      { collection_id: collection.id, game_id: gameId, position: (last?.position ?? -1) + 1 },
+      { onConflict: 'collection_id,game_id', ignoreDuplicates: true }
+    )
+
+  if (error) {
+    console.error('Error adding game to collection:', error)
+    return apiError('Failed to add game', 500)
+  }
+
+  await touchCollection(supabase, collection.id)
+  return apiSuccess({ collectionId: collection.id, gameId })
+})
+
+// Put the games in a new order; games left out of gameIds keep their
+// relative order after the listed ones
+export const PUT = withAuth<{ id: string }>(async ({ request, supabase, user, params }) => {
+  const collection = await getOwnCollection(supabase, user.id, params.id)
+  const body = await readJson(request)
+  const gameIds: unknown = body?.gameIds
+
+  if (!Array.isArray(gameIds) || !gameIds.every(id => typeof id === 'string')) {
+    return apiError('gameIds must be an array of game ids', 400)
+  }
+
+  const { data: entries, error: entriesError } = await supabase
+    .from('collection_games')
+    .select('game_id')
+    .eq('collection_id', collection.id)
+    .order('position', { ascending: true })
+
+  if (entriesError) {
+    return apiError('Failed to reorder games', 500)
+  }
+
+  const current = entries.map(entry => entry.game_id)
+  if (new Set(gameIds).size !== gameIds.length || !gameIds.every(id => current.includes(id))) {
+    return apiError('gameIds must be games in the collection, each listed once', 400)
+  }
+
+  const listed = new Set<string>(gameIds)
+  const order = [...gameIds, ...current.filter(id => !listed.has(id))]
+
+  // One statement (db/migrations/017_reorder_collection_games.sql), so
+  // positions never end up half updated
+  const { error } = await supabase.rpc('reorder_collection_games', {
+    target_collection_id: collection.id,
+    ordered_game_ids: order,
+  })
+
+  if (error) {
+    // games were added or removed since we read the collection
+    if (error.code === '23514') {
+      return apiError('The collection changed while reordering; reload and try again', 409)
+    }
+    console.error('Error reordering collection:', error)
+    return apiError('Failed to reorder games', 500)
+  }
+
+  await touchCollection(supabase, collection.id)
+  return apiSuccess({ collectionId: collection.id, gameIds: order })
+})
+
+export const DELETE = withAuth<{ id: string }>(async ({ request, supabase, user, params }) => {
+  const collection = await getOwnCollection(supabase, user.id, params.id)
+  const { searchParams } = new URL(request.url)
+  const gameId = searchParams.get('gameId')
+
+  if (!gameId) {
+    return apiError('Missing gameId', 400)
+  }
+
+  const { error } = await supabase
+    .from('collection_games')
+    .delete()
+    .eq('collection_id', collection.id)
+    .eq('game_id', gameId)
+
+  if (error) {
+    return apiError('Failed to remove game', 500)
+  }
+
+  await touchCollection(supabase, collection.id)
+  return apiSuccess({ collectionId: collection.id, gameId })
+})
@@ -0,0 +1,103 @@
+import { ApiError, apiError, apiSuccess, readJson, withAuth, withOptionalAuth } from '@/lib/api-handler'
+import { getCatalogProvider } from '@/lib/catalog'
+import {
+  getCollection,
+  parseCollectionInput,
+  summarizeCollections,
+  type CollectionDetail,
+} from '@/lib/collections'
+import { rawgGameToSummary } from '@/lib/game-normalization'
+import { getGamesBySlugs } from '@/lib/game-sync'
+import type { TypedSupabaseClient } from '@/lib/supabase'
+
+async function getOwnCollection(supabase: TypedSupabaseClient, userId: string, id: string) {
+  const collection = await getCollection(supabase, id)
+
+  if (!collection) {
+    throw new ApiError(404, 'Collection not found')
+  }
+
+  if (collection.user_id !== userId) {
+    throw new ApiError(403, 'You can only change your own collections')
+  }
+
+  return collection
+}
+
+// A public collection, or one of the caller's own, with its games in order
+export const GET = withOptionalAuth<{ id: string }>(async ({ supabase, user, params }) => {
+  if (!supabase) {
+    return apiError('Collections are not available offline', 503)
+  }
+
+  const collection = await getCollection(supabase, params.id)
+  if (!collection) {
+    return apiError('Collection not found', 404)
+  }
+
+  const { data: entries, error } = await supabase
+    .from('collection_games')
+    .select('game_id')
+    .eq('collection_id', collection.id)
+    .order('position', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching collection games:', error)
+    return apiError('Failed to fetch collection', 500)
+  }
+
+  const slugs = entries.map(entry => entry.game_id)
+  const games = await getGamesBySlugs(supabase, getCatalogProvider(), slugs)
+  const [summary] = await summarizeCollections(supabase, [collection], user?.id ?? null)
+
+  const detail: CollectionDetail = {
+    ...summary,
+    created_at: collection.created_at,
+    games: slugs.flatMap(slug => {
+      const game = games.get(slug)
+      return game ? [rawgGameToSummary(game)] : []
+    }),
+  }
+
+  return apiSuccess(detail)
+})
+
+// Rename, re-describe or change visibility
+export const PATCH = withAuth<{ id: string }>(async ({ request, supabase, user, params }) => {
+  const collection = await getOwnCollection(supabase, user.id, params.id)
+  const parsed = parseCollectionInput(await readJson(request), true)
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  const { data: updated, error } = await supabase
+    .from('collections')
+    .update({ ...parsed.data, updated_at: new Date().toISOString() })
+    .eq('id', collection.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating collection:', error)
+    return apiError(`Failed to update collection: ${error.message}`, 500)
+  }
+
+  const [summary] = await summarizeCollections(supabase, [updated], user.id)
+  return apiSuccess(summary)
+})
+
+export const DELETE = withAuth<{ id: string }>(async ({ supabase, user, params }) => {
+  const collection = await getOwnCollection(supabase, user.id, params.id)
+
+  const { error } = await supabase
+    .from('collections')
+    .delete()
+    .eq('id', collection.id)
+
+  if (error) {
+    return apiError('Failed to delete collection', 500)
+  }
+
+  return apiSuccess(null)
+})
@@ -0,0 +1,44 @@
+import { apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import { parseCollectionInput, summarizeCollections } from '@/lib/collections'
+import { getDisplayName } from '@/lib/users'
+
+// The caller's collections; with ?gameId= each says whether it has that game
+export const GET = withAuth(async ({ request, supabase, user }) => {
+  const { searchParams } = new URL(request.url)
+  const gameId = searchParams.get('gameId') ?? undefined
+
+  const { data: collections, error } = await supabase
+    .from('collections')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('updated_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching collections:', error)
+    return apiError('Failed to fetch collections', 500)
+  }
+
+  return apiSuccess(await summarizeCollections(supabase, collections, user.id, gameId))
+})
+
+export const POST = withAuth(async ({ request, supabase, user }) => {
+  const parsed = parseCollectionInput(await readJson(request))
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  const { data: collection, error } = await supabase
+    .from('collections')
+    .insert({ ...parsed.data, user_id: user.id, owner_name: getDisplayName(user) })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating collection:', error)
+    return apiError(`Failed to create collection: ${error.message}`, 500)
+  }
+
+  const [summary] = await summarizeCollections(supabase, [collection], user.id)
+  return apiSuccess(summary, { status: 201 })
+})
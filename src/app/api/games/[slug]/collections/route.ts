@@ -0,0 +1,38 @@
+import { apiError, apiSuccess, withOptionalAuth } from '@/lib/api-handler'
+import { summarizeCollections } from '@/lib/collections'
+
+const DEFAULT_LIMIT = 5
+const MAX_LIMIT = 20
+
+// Public collections that contain the game, most recently updated first
+export const GET = withOptionalAuth<{ slug: string }>(async ({ request, supabase, user, params }) => {
+  const { searchParams } = new URL(request.url)
+  const limit = Math.min(
+    MAX_LIMIT,
+    Math.max(1, parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`) || DEFAULT_LIMIT)
+  )
+
+  if (!supabase) {
+    return apiSuccess({ results: [], count: 0 })
+  }
+
+  // inner join: only collections that have this game
+  const { data: collections, error, count } = await supabase
+    .from('collections')
+    .select('*, collection_games!inner(game_id)', { count: 'exact' })
+    .eq('collection_games.game_id', params.slug)
+    .eq('is_public', true)
+    .order('updated_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching collections for game:', error)
+    return apiError('Failed to fetch collections', 500)
+  }
+
+  const rows = collections.map(({ collection_games: _games, ...collection }) => collection)
+  return apiSuccess({
+    results: await summarizeCollections(supabase, rows, user?.id ?? null),
+    count: count ?? rows.length,
+  })
+})
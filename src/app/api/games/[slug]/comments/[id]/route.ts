@@ -0,0 +1,77 @@
+import { ApiError, apiError, apiSuccess, readJson, withAuth, type AuthContext } from '@/lib/api-handler'
+import { isCommentId, parseCommentBody, toComment } from '@/lib/comments'
+
+type CommentParams = { slug: string; id: string }
+
+/**
+ * The comment, if the signed-in user wrote it and it isn't deleted
+ */
+async function getOwnComment({ supabase, user, params }: AuthContext<CommentParams>) {
+  if (!isCommentId(params.id)) {
+    throw new ApiError(404, 'Comment not found')
+  }
+
+  const { data: comment, error } = await supabase
+    .from('game_comments')
+    .select('*')
+    .eq('id', params.id)
+    .eq('game_id', params.slug)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load comment ${params.id}: ${error.message}`)
+  }
+
+  if (!comment || comment.deleted_at) {
+    throw new ApiError(404, 'Comment not found')
+  }
+
+  if (comment.user_id !== user.id) {
+    throw new ApiError(403, 'You can only change your own comments')
+  }
+
+  return comment
+}
+
+export const PATCH = withAuth<CommentParams>(async (context) => {
+  const comment = await getOwnComment(context)
+  const body = await readJson(context.request)
+  const parsed = parseCommentBody(body?.body)
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  const { data: updated, error } = await context.supabase
+    .from('game_comments')
+    .update({ body: parsed.body, edited_at: new Date().toISOString() })
+    .eq('id', comment.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating comment:', error)
+    return apiError('Failed to update comment', 500)
+  }
+
+  return apiSuccess(toComment(updated, context.user.id))
+})
+
+// Soft delete: the text goes, the row stays so replies keep their thread
+export const DELETE = withAuth<CommentParams>(async (context) => {
+  const comment = await getOwnComment(context)
+
+  const { data: deleted, error } = await context.supabase
+    .from('game_comments')
+    .update({ body: '', deleted_at: new Date().toISOString() })
+    .eq('id', comment.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error deleting comment:', error)
+    return apiError('Failed to delete comment', 500)
+  }
+
+  return apiSuccess(toComment(deleted, context.user.id))
+})
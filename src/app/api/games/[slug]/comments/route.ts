@@ -0,0 +1,170 @@
+import { apiError, apiSuccess, readJson, withAuth, withOptionalAuth } from '@/lib/api-handler'
+import {
+  buildThreads,
+  COMMENTS_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+  isCommentId,
+  MAX_COMMENT_DEPTH,
+  parseCommentBody,
+  toComment,
+} from '@/lib/comments'
+import { getReview, isReviewId } from '@/lib/reviews'
+import { getDisplayName } from '@/lib/users'
+
+const MAX_LIMIT = 50
+
+/**
+ * Top-level comments newest first, each with its whole reply thread
+ * Pass `reviewId` for the thread under a review; without it only
+ * game-level comments are returned. `nextCursor` fetches the next page.
+ */
+export const GET = withOptionalAuth<{ slug: string }>(async ({ request, supabase, user, params }) => {
+  const { searchParams } = new URL(request.url)
+  const reviewId = searchParams.get('reviewId')
+  const cursorParam = searchParams.get('cursor')
+  const limit = Math.min(
+    MAX_LIMIT,
+    Math.max(1, parseInt(searchParams.get('limit') || `${COMMENTS_PAGE_SIZE}`) || COMMENTS_PAGE_SIZE)
+  )
+
+  if (reviewId && !isReviewId(reviewId)) {
+    return apiError('Invalid reviewId', 400)
+  }
+
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null
+  if (cursorParam && !cursor) {
+    return apiError('Invalid cursor', 400)
+  }
+
+  if (!supabase) {
+    return apiSuccess({ results: [], nextCursor: null })
+  }
+
+  let query = supabase
+    .from('game_comments')
+    .select('*')
+    .eq('game_id', params.slug)
+    .is('parent_id', null)
+
+  query = reviewId ? query.eq('review_id', reviewId) : query.is('review_id', null)
+
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+    )
+  }
+
+  // one extra row tells us whether there's another page
+  const { data: rows, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (error) {
+    console.error('Error fetching comments:', error)
+    return apiError('Failed to fetch comments', 500)
+  }
+
+  const roots = rows.slice(0, limit)
+  const hasMore = rows.length > limit
+
+  let replies: typeof rows = []
+  if (roots.length > 0) {
+    const { data, error: repliesError } = await supabase
+      .from('game_comments')
+      .select('*')
+      .in('root_id', roots.map(root => root.id))
+
+    if (repliesError) {
+      console.error('Error fetching replies:', repliesError)
+      return apiError('Failed to fetch comments', 500)
+    }
+    replies = data
+  }
+
+  return apiSuccess({
+    results: buildThreads(roots, replies, user?.id ?? null),
+    nextCursor: hasMore ? encodeCursor(roots[roots.length - 1]) : null,
+  })
+})
+
+// Post a comment, or a reply when parentId is given
+export const POST = withAuth<{ slug: string }>(async ({ request, supabase, user, params }) => {
+  const body = await readJson(request)
+  const parsed = parseCommentBody(body?.body)
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  const parentId: unknown = body?.parentId || null
+  const reviewId: unknown = body?.reviewId || null
+
+  if (parentId !== null && !isCommentId(parentId)) {
+    return apiError('Invalid parentId', 400)
+  }
+
+  if (reviewId !== null && !isReviewId(reviewId)) {
+    return apiError('Invalid reviewId', 400)
+  }
+
+  // The thread (review_id, root_id, depth) is derived from the parent by a
+  // trigger (db/migrations/016_game_comment_threading.sql); these checks
+  // only give friendlier errors
+  if (parentId) {
+    const { data: parent, error } = await supabase
+      .from('game_comments')
+      .select('*')
+      .eq('id', parentId)
+      .maybeSingle()
+
+    if (error) {
+      return apiError('Failed to load parent comment', 500)
+    }
+
+    if (!parent || parent.game_id !== params.slug) {
+      return apiError('Parent comment not found', 404)
+    }
+
+    if (parent.deleted_at) {
+      return apiError('You cannot reply to a deleted comment', 400)
+    }
+
+    if (parent.depth >= MAX_COMMENT_DEPTH) {
+      return apiError('This thread is nested too deeply to reply to', 400)
+    }
+  } else if (reviewId) {
+    const review = await getReview(supabase, reviewId)
+    if (!review || review.game_id !== params.slug || review.status !== 'published') {
+      return apiError('Review not found', 404)
+    }
+  }
+
+  const { data: comment, error } = await supabase
+    .from('game_comments')
+    .insert({
+      game_id: params.slug,
+      review_id: reviewId,
+      parent_id: parentId,
+      user_id: user.id,
+      author_name: getDisplayName(user),
+      body: parsed.body,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // raised by the threading trigger when the parent or review went away
+    if (error.code === '23503') {
+      return apiError(error.message, 404)
+    }
+    if (error.code === '23514') {
+      return apiError(error.message, 400)
+    }
+    console.error('Error creating comment:', error)
+    return apiError(`Failed to post comment: ${error.message}`, 500)
+  }
+
+  return apiSuccess(toComment(comment, user.id), { status: 201 })
+})
@@ -0,0 +1,118 @@
+import { apiError, apiSuccess, readJson, withAuth, withOptionalAuth } from '@/lib/api-handler'
+import {
+  isReviewSort,
+  parseReviewInput,
+  REVIEWS_PAGE_SIZE,
+  toReview,
+  type Review,
+} from '@/lib/reviews'
+import { getDisplayName } from '@/lib/users'
+
+const MAX_PAGE_SIZE = 50
+
+// Published reviews for a game, most helpful or most recent first
+export const GET = withOptionalAuth<{ slug: string }>(async ({ request, supabase, user, params }) => {
+  const { searchParams } = new URL(request.url)
+  const sort = searchParams.get('sort') || 'helpful'
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+  const pageSize = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, parseInt(searchParams.get('pageSize') || `${REVIEWS_PAGE_SIZE}`) || REVIEWS_PAGE_SIZE)
+  )
+
+  if (!isReviewSort(sort)) {
+    return apiError('Invalid sort. Must be helpful or recent', 400)
+  }
+
+  if (!supabase) {
+    return apiSuccess({ results: [], count: 0, page, pageSize, hasMore: false, viewerReview: null })
+  }
+
+  let query = supabase
+    .from('reviews')
+    .select('*', { count: 'exact' })
+    .eq('game_id', params.slug)
+    .eq('status', 'published')
+
+  query = sort === 'helpful'
+    ? query.order('helpful_count', { ascending: false }).order('created_at', { ascending: false })
+    : query.order('created_at', { ascending: false })
+
+  const from = (page - 1) * pageSize
+  const { data: rows, error, count } = await query.range(from, from + pageSize - 1)
+
+  if (error) {
+    console.error('Error fetching reviews:', error)
+    return apiError('Failed to fetch reviews', 500)
+  }
+
+  let votedIds = new Set<string>()
+  let viewerReview: Review | null = null
+
+  if (user) {
+    const reviewIds = rows.map(row => row.id)
+    const [votes, own] = await Promise.all([
+      reviewIds.length > 0
+        ? supabase
+            .from('review_votes')
+            .select('review_id')
+            .eq('user_id', user.id)
+            .in('review_id', reviewIds)
+        : Promise.resolve({ data: [], error: null }),
+      supabase
+        .from('reviews')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('game_id', params.slug)
+        .maybeSingle(),
+    ])
+
+    if (votes.error || own.error) {
+      return apiError('Failed to fetch reviews', 500)
+    }
+
+    votedIds = new Set((votes.data || []).map(vote => vote.review_id))
+    viewerReview = own.data ? toReview(own.data, user.id) : null
+  }
+
+  const total = count ?? 0
+  return apiSuccess({
+    results: rows.map(row => toReview(row, user?.id ?? null, votedIds)),
+    count: total,
+    page,
+    pageSize,
+    hasMore: from + rows.length < total,
+    viewerReview,
+  })
+})
+
+// Write a review; one per user and game
+export const POST = withAuth<{ slug: string }>(async ({ request, supabase, user, params }) => {
+  const parsed = parseReviewInput(await readJson(request))
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  const { data: review, error } = await supabase
+    .from('reviews')
+    .insert({
+      ...parsed.data,
+      user_id: user.id,
+      game_id: params.slug,
+      author_name: getDisplayName(user),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // unique (user_id, game_id)
+    if (error.code === '23505') {
+      return apiError('You have already reviewed this game', 409)
+    }
+    console.error('Error creating review:', error)
+    return apiError(`Failed to create review: ${error.message}`, 500)
+  }
+
+  return apiSuccess(toReview(review, user.id), { status: 201 })
+})
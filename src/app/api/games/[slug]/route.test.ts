@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { describe, expect, it } from 'vitest'
+import { GET } from './route'
+
+function getGame(slug: string) {
+  return GET(new NextRequest(`http://localhost/api/games/${slug}`), {
+    params: Promise.resolve({ slug }),
+  })
+}
+
+describe('GET /api/games/[slug] offline', () => {
+  it('serves fixture games without a database cache', async () => {
+    const response = await getGame('hades')
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body).toMatchObject({ success: true, cached: false })
+    expect(body.data).toMatchObject({ rawg_id: 274755, slug: 'hades', name: 'Hades' })
+  })
+
+  it('answers 404 for games not in the catalog', async () => {
+    const response = await getGame('no-such-game')
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ success: false, error: 'Game not found' })
+  })
+})
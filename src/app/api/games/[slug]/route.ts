@@ -1,15 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase-server'
-import { fetchGameBySlug, transformRAWGGame } from '@/lib/rawg'
+import { after, NextResponse } from 'next/server'
+import { apiError, withOptionalAuth } from '@/lib/api-handler'
+import { rawgGameToRow } from '@/lib/game-normalization'
+import { GameNotFoundError, getCatalogErrorStatus, getCatalogProvider } from '@/lib/catalog'
+import { isGameStale, refreshStaleGame } from '@/lib/game-sync'
+import { createServiceRoleClient } from '@/lib/supabase-server'
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ slug: string }> }
-) {
-  try {
-    const { slug } = await params
-    const supabase = await createClient()
+export const GET = withOptionalAuth<{ slug: string }>(async ({ supabase, params }) => {
+  const { slug } = params
 
+  if (supabase) {
     // check if game already in database
     const { data: existingGame, error: dbError } = await supabase
       .from('games')
@@ -18,64 +17,74 @@ export async function GET(
       .single()
 
     if (existingGame && !dbError) {
-      // return cached data
+      // stale-while-revalidate: answer from the cache, re-sync after responding
+      // through the service role client, not the visitor's session
+      const stale = isGameStale(existingGame)
+      if (stale && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        after(async () => {
+          try {
+            await refreshStaleGame(createServiceRoleClient(), getCatalogProvider(), existingGame)
+          } catch (error) {
+            console.error(`Error refreshing stale game ${slug}:`, error)
+          }
+        })
+      }
+
       return NextResponse.json({
         success: true,
         data: existingGame,
-        cached: true
+        cached: true,
+        stale
       })
     }
+  }
 
-    // fetch from RAWG API if not in database
-    let rawgGame
-    try {
-      rawgGame = await fetchGameBySlug(slug)
-    } catch (error) {
-      if (error instanceof Error && error.message === 'Game not found') {
-        return NextResponse.json(
-          { success: false, error: 'Game not found' },
-          { status: 404 }
-        )
-      }
-      
-      return NextResponse.json(
-        { success: false, error: 'Failed to fetch game data from RAWG API' },
-        { status: 500 }
-      )
+  // fetch from the catalog if not in database
+  let rawgGame
+  try {
+    rawgGame = await getCatalogProvider().getGameBySlug(slug)
+  } catch (error) {
+    if (error instanceof GameNotFoundError) {
+      return apiError('Game not found', 404)
     }
 
-    // transform RAWG data to match database schema
-    const gameData = transformRAWGGame(rawgGame)
-
-    // cache the game data in database
-    const { data: newGame, error: insertError } = await supabase
-      .from('games')
-      .insert(gameData)
-      .select()
-      .single()
+    console.error('Error fetching game from catalog:', error)
+    return apiError('Failed to fetch game data', getCatalogErrorStatus(error))
+  }
 
-    if (insertError) {
-      console.error('Error caching game data:', insertError)
-      // still return the data even if caching fails
-      return NextResponse.json({
-        success: true,
-        data: gameData,
-        cached: false,
-        warning: 'Failed to cache game data'
-      })
-    }
+  // transform RAWG data to match database schema
+  const gameData = rawgGameToRow(rawgGame)
 
+  // offline mode: no database cache
+  if (!supabase) {
     return NextResponse.json({
       success: true,
-      data: newGame,
-      cached: true
+      data: gameData,
+      cached: false
     })
+  }
 
-  } catch (error) {
-    console.error('Error in games API route:', error)
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    )
+  // cache the game data in database
+  const { data: newGame, error: insertError } = await supabase
+    .from('games')
+    .insert(gameData)
+    .select()
+    .single()
+
+  if (insertError) {
+    console.error('Error caching game data:', insertError)
+    // still return the data even if caching fails
+    return NextResponse.json({
+      success: true,
+      data: gameData,
+      cached: false,
+      warning: 'Failed to cache game data'
+    })
   }
-}
+
+  return NextResponse.json({
+    success: true,
+    data: newGame,
+    cached: true
+  })
+})
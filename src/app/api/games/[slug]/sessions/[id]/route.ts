@@ -0,0 +1,66 @@
+import { ApiError, apiError, apiSuccess, readJson, withAuth, type AuthContext } from '@/lib/api-handler'
+import { parsePlaySessionInput, toPlaySession } from '@/lib/play-sessions'
+
+type SessionParams = { slug: string; id: string }
+
+/**
+ * The session, if the signed-in user logged it for this game
+ */
+async function getOwnSession({ supabase, user, params }: AuthContext<SessionParams>) {
+  const { data: session, error } = await supabase
+    .from('play_sessions')
+    .select('*')
+    .eq('id', params.id)
+    .eq('game_id', params.slug)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load play session ${params.id}: ${error.message}`)
+  }
+
+  // RLS hides other users' sessions, so this is a 404 rather than a 403
+  if (!session || session.user_id !== user.id) {
+    throw new ApiError(404, 'Play session not found')
+  }
+
+  return session
+}
+
+export const PATCH = withAuth<SessionParams>(async (context) => {
+  const session = await getOwnSession(context)
+  const parsed = parsePlaySessionInput(await readJson(context.request), true)
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  const { data: updated, error } = await context.supabase
+    .from('play_sessions')
+    .update({ ...parsed.data, updated_at: new Date().toISOString() })
+    .eq('id', session.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating play session:', error)
+    return apiError('Failed to update play session', 500)
+  }
+
+  return apiSuccess(toPlaySession(updated))
+})
+
+export const DELETE = withAuth<SessionParams>(async (context) => {
+  const session = await getOwnSession(context)
+
+  const { error } = await context.supabase
+    .from('play_sessions')
+    .delete()
+    .eq('id', session.id)
+
+  if (error) {
+    console.error('Error deleting play session:', error)
+    return apiError('Failed to delete play session', 500)
+  }
+
+  return apiSuccess({ id: session.id })
+})
@@ -0,0 +1,45 @@
+import { apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import { parsePlaySessionInput, toPlaySession, totalMinutes } from '@/lib/play-sessions'
+
+/**
+ * The caller's sessions for a game, newest first, with the total time
+ */
+export const GET = withAuth<{ slug: string }>(async ({ supabase, user, params }) => {
+  const { data: rows, error } = await supabase
+    .from('play_sessions')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('game_id', params.slug)
+    .order('played_on', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching play sessions:', error)
+    return apiError('Failed to fetch play sessions', 500)
+  }
+
+  const sessions = rows.map(toPlaySession)
+  return apiSuccess({ sessions, totalMinutes: totalMinutes(sessions) })
+})
+
+// Log a session
+export const POST = withAuth<{ slug: string }>(async ({ request, supabase, user, params }) => {
+  const parsed = parsePlaySessionInput(await readJson(request))
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  const { data: session, error } = await supabase
+    .from('play_sessions')
+    .insert({ ...parsed.data, user_id: user.id, game_id: params.slug })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error logging play session:', error)
+    return apiError('Failed to log play session', 500)
+  }
+
+  return apiSuccess(toPlaySession(session))
+})
@@ -0,0 +1,37 @@
+import { apiError, apiSuccess, withOptionalAuth } from '@/lib/api-handler'
+import { gameRowToSummary } from '@/lib/game-normalization'
+import { SIMILAR_GAMES_K, type SimilarGame } from '@/lib/game-similarity'
+
+const MAX_LIMIT = 24
+
+// Games most like this one, from the neighbours stored by
+// scripts/compute-similar-games.js
+export const GET = withOptionalAuth<{ slug: string }>(async ({ request, supabase, params }) => {
+  const { searchParams } = new URL(request.url)
+  const limit = Math.min(
+    MAX_LIMIT,
+    Math.max(1, parseInt(searchParams.get('limit') || `${SIMILAR_GAMES_K}`) || SIMILAR_GAMES_K)
+  )
+
+  if (!supabase) {
+    return apiSuccess({ results: [] })
+  }
+
+  const { data, error } = await supabase
+    .from('similar_games')
+    .select('similarity_score, games!similar_games_similar_game_id_fkey(*)')
+    .eq('game_id', params.slug)
+    .order('similarity_score', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching similar games:', error)
+    return apiError('Failed to fetch similar games', 500)
+  }
+
+  const results: SimilarGame[] = data.flatMap(({ similarity_score, games }) =>
+    games ? [{ game: gameRowToSummary(games), similarity: similarity_score }] : []
+  )
+
+  return apiSuccess({ results })
+})
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { apiError, withOptionalAuth } from "@/lib/api-handler";
+import { getCatalogErrorStatus, getCatalogProvider } from "@/lib/catalog";
+import { autocompleteGames } from "@/lib/game-search";
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_LIMIT = 20;
+
+export const GET = withOptionalAuth(async ({ request, supabase }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get("query") || "").trim();
+    const limit = Math.min(
+      MAX_LIMIT,
+      Math.max(1, parseInt(searchParams.get("limit") || "8") || 8)
+    );
+
+    // Too short to be useful; answer without touching RAWG
+    if (query.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json({ results: [] });
+    }
+
+    const results = await autocompleteGames(
+      supabase,
+      getCatalogProvider(),
+      query,
+      limit
+    );
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error fetching autocomplete suggestions:", error);
+    return apiError("Failed to fetch suggestions", getCatalogErrorStatus(error));
+  }
+});
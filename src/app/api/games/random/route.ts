@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getRandomGames } from "@/lib/rawg";
+import { apiError } from "@/lib/api-handler";
+import { getCatalogErrorStatus, getCatalogProvider } from "@/lib/catalog";
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,14 +10,11 @@ export async function GET(request: NextRequest) {
       : undefined; // Let the function use random page if not provided
     const pageSize = parseInt(searchParams.get("pageSize") || "20");
 
-    const games = await getRandomGames(page, pageSize);
+    const games = await getCatalogProvider().getRandomGames(page, pageSize);
 
     return NextResponse.json(games);
   } catch (error) {
     console.error("Error fetching random games:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch random games" },
-      { status: 500 }
-    );
+    return apiError("Failed to fetch random games", getCatalogErrorStatus(error));
   }
 }
@@ -0,0 +1,45 @@
+import type { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/api-handler'
+import { getCatalogProvider } from '@/lib/catalog'
+import { refreshStaleGames } from '@/lib/game-sync'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+
+const MAX_LIMIT = 200
+
+/**
+ * Batch re-sync of the least recently synced games
+ * Meant for a scheduler (e.g. Vercel Cron, which sends GET with
+ * `Authorization: Bearer $CRON_SECRET`).
+ */
+async function handleRefresh(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return apiError('Game refresh is not configured', 503)
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return apiError('Unauthorized', 401)
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(
+      MAX_LIMIT,
+      Math.max(1, parseInt(searchParams.get('limit') || '50') || 50)
+    )
+
+    const summary = await refreshStaleGames(
+      createServiceRoleClient(),
+      getCatalogProvider(),
+      limit
+    )
+
+    return apiSuccess(summary)
+  } catch (error) {
+    console.error('Error refreshing games:', error)
+    return apiError('Failed to refresh games', 500)
+  }
+}
+
+export const GET = handleRefresh
+export const POST = handleRefresh
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { fetchGameScreenshots } from "@/lib/rawg";
+import { apiError } from "@/lib/api-handler";
+import { getCatalogErrorStatus, getCatalogProvider } from "@/lib/catalog";
 
 export async function GET(request: NextRequest) {
   try {
@@ -7,21 +8,15 @@ export async function GET(request: NextRequest) {
     const gameId = searchParams.get("gameId");
     
     if (!gameId) {
-      return NextResponse.json(
-        { error: "Game ID is required" },
-        { status: 400 }
-      );
+      return apiError("Game ID is required", 400);
     }
 
-    const screenshots = await fetchGameScreenshots(parseInt(gameId));
+    const screenshots = await getCatalogProvider().getScreenshots(parseInt(gameId));
 
     return NextResponse.json(screenshots);
   } catch (error) {
     console.error("Error fetching game screenshots:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch game screenshots" },
-      { status: 500 }
-    );
+    return apiError("Failed to fetch game screenshots", getCatalogErrorStatus(error));
   }
 }
 
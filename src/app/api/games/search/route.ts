@@ -1,39 +1,35 @@
-import { NextRequest, NextResponse } from "next/server";
-import { searchGames } from "@/lib/rawg";
+import { NextResponse } from "next/server";
+import { apiError, withOptionalAuth } from "@/lib/api-handler";
+import { getCatalogErrorStatus, getCatalogProvider } from "@/lib/catalog";
+import { parseGameFilters } from "@/lib/game-filters";
+import { searchCatalogGames, searchGamesHybrid } from "@/lib/game-search";
 
-export async function GET(request: NextRequest) {
+export const GET = withOptionalAuth(async ({ request, supabase }) => {
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get("query");
     const page = parseInt(searchParams.get("page") || "1");
     const pageSize = parseInt(searchParams.get("pageSize") || "20");
     const ordering = searchParams.get("ordering") || "-relevance";
+    // "hybrid" also searches our own games table; "catalog" queries RAWG only
+    const mode = searchParams.get("mode") || "catalog";
+    const filters = parseGameFilters(searchParams);
 
     if (!query || query.trim() === "") {
-      return NextResponse.json(
-        { error: "Search query is required" },
-        { status: 400 }
-      );
+      return apiError("Search query is required", 400);
     }
 
-    const games = await searchGames(query.trim(), page, pageSize);
+    const provider = getCatalogProvider();
+    const options = { page, pageSize, ordering, filters };
 
-    // Apply ordering if specified (RAWG API handles relevance by default for search)
-    // If a custom ordering is needed, we can sort the results
-    if (ordering !== "-relevance") {
-      // For now, RAWG search API handles relevance automatically
-      // If we need custom sorting, we'd need to fetch ordered results differently
-      // This is a simplified version - RAWG search uses relevance by default
-    }
+    const games =
+      mode === "hybrid" && supabase
+        ? await searchGamesHybrid(supabase, provider, query.trim(), options)
+        : await searchCatalogGames(provider, query.trim(), options);
 
     return NextResponse.json(games);
   } catch (error) {
     console.error("Error searching games:", error);
-    return NextResponse.json(
-      { error: "Failed to search games" },
-      { status: 500 }
-    );
+    return apiError("Failed to search games", getCatalogErrorStatus(error));
   }
-}
-
-
+});
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { fetchGameTrailers } from "@/lib/rawg";
+import { apiError } from "@/lib/api-handler";
+import { GameNotFoundError, getCatalogErrorStatus, getCatalogProvider } from "@/lib/catalog";
 
 export async function GET(request: NextRequest) {
   try {
@@ -7,13 +8,10 @@ export async function GET(request: NextRequest) {
     const gameId = searchParams.get("gameId");
     
     if (!gameId) {
-      return NextResponse.json(
-        { error: "Game ID is required" },
-        { status: 400 }
-      );
+      return apiError("Game ID is required", 400);
     }
 
-    const trailers = await fetchGameTrailers(parseInt(gameId));
+    const trailers = await getCatalogProvider().getMovies(parseInt(gameId));
 
     // Ensure we always return a consistent structure
     if (!trailers || !trailers.results) {
@@ -29,8 +27,7 @@ export async function GET(request: NextRequest) {
   } catch (error: unknown) {
     // If game doesn't have trailers (404), return empty result instead of error
     // This is expected behavior, not an error
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('404') || errorMessage.includes('not found')) {
+    if (error instanceof GameNotFoundError) {
       return NextResponse.json({
         count: 0,
         next: null,
@@ -40,10 +37,7 @@ export async function GET(request: NextRequest) {
     }
     
     console.error("Error fetching game trailers:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch game trailers" },
-      { status: 500 }
-    );
+    return apiError("Failed to fetch game trailers", getCatalogErrorStatus(error));
   }
 }
 
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getTrendingGames } from "@/lib/rawg";
+import { apiError } from "@/lib/api-handler";
+import { getCatalogErrorStatus, getCatalogProvider } from "@/lib/catalog";
+import { parseGameFilters } from "@/lib/game-filters";
 
 export async function GET(request: NextRequest) {
   try {
@@ -7,15 +9,13 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get("page") || "1");
     const pageSize = parseInt(searchParams.get("pageSize") || "20");
     const ordering = searchParams.get("ordering") || "-added";
+    const filters = parseGameFilters(searchParams);
 
-    const games = await getTrendingGames(page, pageSize, ordering);
+    const games = await getCatalogProvider().listGames({ page, pageSize, ordering, filters });
 
     return NextResponse.json(games);
   } catch (error) {
     console.error("Error fetching trending games:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch trending games" },
-      { status: 500 }
-    );
+    return apiError("Failed to fetch trending games", getCatalogErrorStatus(error));
   }
 }
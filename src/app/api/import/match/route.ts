@@ -0,0 +1,21 @@
+import { apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import { getCatalogProvider } from '@/lib/catalog'
+import { matchImportRows, parseImportRows } from '@/lib/library-import'
+
+/**
+ * Match up to MATCH_CHUNK_SIZE parsed rows to games
+ * The client sends the rows from POST /api/import/preview in chunks, so a
+ * large file never runs all of its catalog lookups in one request.
+ */
+export const POST = withAuth(async ({ request, supabase }) => {
+  const body = await readJson(request)
+  const parsed = parseImportRows(body?.rows)
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  const matches = await matchImportRows(supabase, getCatalogProvider(), parsed.data)
+
+  return apiSuccess({ matches })
+})
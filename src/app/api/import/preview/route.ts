@@ -0,0 +1,42 @@
+import { apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import {
+  IMPORT_FORMATS,
+  MAX_IMPORT_LENGTH,
+  parseImport,
+  type ImportFormat,
+} from '@/lib/library-import'
+
+/**
+ * Parse an uploaded library export into rows
+ * Nothing is saved; the client matches the rows in chunks through
+ * POST /api/import/match, reviews the matches and then creates the
+ * interactions through POST /api/interactions/batch.
+ */
+export const POST = withAuth(async ({ request }) => {
+  const body = await readJson(request)
+  const format = body?.format as ImportFormat
+  const content = body?.content
+
+  if (!IMPORT_FORMATS.includes(format)) {
+    return apiError(`Invalid format. Must be one of: ${IMPORT_FORMATS.join(', ')}`, 400)
+  }
+
+  if (typeof content !== 'string' || !content.trim()) {
+    return apiError('Missing file content', 400)
+  }
+
+  if (content.length > MAX_IMPORT_LENGTH) {
+    return apiError('The file is too large to import in one go', 413)
+  }
+
+  const parsed = parseImport(format, content)
+  if (parsed.rows.length === 0) {
+    return apiError('No games found in the file', 422, parsed.errors.join('\n') || undefined)
+  }
+
+  return apiSuccess({
+    rows: parsed.rows,
+    errors: parsed.errors,
+    truncated: parsed.truncated
+  })
+})
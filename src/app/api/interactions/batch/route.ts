@@ -0,0 +1,70 @@
+import { apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import { resolveGameIds } from '@/lib/game-identity'
+import {
+  applyInteractionOperations,
+  MAX_BATCH_OPERATIONS,
+  parseInteractionOperation,
+  type InteractionOperation,
+  type InteractionOperationResult,
+} from '@/lib/interaction-history'
+
+/**
+ * Apply many add/remove operations in one request, in order
+ * Each operation gets its own result; invalid ones are skipped without
+ * failing the rest.
+ */
+export const POST = withAuth(async ({ request, supabase, user }) => {
+  const body = await readJson(request)
+  const operations: unknown = body?.operations
+
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return apiError('operations must be a non-empty array', 400)
+  }
+
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    return apiError(`At most ${MAX_BATCH_OPERATIONS} operations per batch`, 400)
+  }
+
+  const results: InteractionOperationResult[] = []
+  const valid: Array<{ index: number; operation: InteractionOperation }> = []
+
+  operations.forEach((input, index) => {
+    const parsed = parseInteractionOperation(input)
+    if (parsed.error !== undefined) {
+      const { gameId, action } = (input ?? {}) as Record<string, unknown>
+      results.push({
+        index,
+        gameId: typeof gameId === 'string' ? gameId : null,
+        action: typeof action === 'string' ? action : null,
+        status: 'invalid',
+        error: parsed.error
+      })
+    } else {
+      valid.push({ index, operation: parsed.data })
+    }
+  })
+
+  // Store every operation under the canonical id, whichever one was sent
+  const canonicalIds = await resolveGameIds(supabase, valid.map(({ operation }) => operation.gameId))
+  const resolved = valid.filter(({ index, operation }) => {
+    const gameId = canonicalIds.get(operation.gameId.trim())
+    if (gameId) {
+      operation.gameId = gameId
+      return true
+    }
+    results.push({ index, gameId: operation.gameId, action: operation.action, status: 'invalid', error: 'Game not found' })
+    return false
+  })
+
+  if (resolved.length > 0) {
+    results.push(...await applyInteractionOperations(supabase, user.id, resolved))
+  }
+  results.sort((a, b) => a.index - b.index)
+
+  const counts = { applied: 0, unchanged: 0, invalid: 0, failed: 0 }
+  for (const result of results) {
+    counts[result.status]++
+  }
+
+  return apiSuccess({ results, ...counts })
+})
@@ -0,0 +1,83 @@
+import { apiError, apiSuccess, withAuth } from '@/lib/api-handler'
+import { getCatalogProvider } from '@/lib/catalog'
+import { resolveGameId } from '@/lib/game-identity'
+import { getGamesBySlugs } from '@/lib/game-sync'
+import { HISTORY_PAGE_SIZE, type InteractionHistoryEntry } from '@/lib/interaction-history'
+
+const MAX_LIMIT = 100
+
+/**
+ * The caller's interaction events, newest first
+ * Pass the returned `nextCursor` as `cursor` for older events, and
+ * `gameId` (slug, games.id or RAWG id) to see one game's history.
+ */
+export const GET = withAuth(async ({ request, supabase, user }) => {
+  const { searchParams } = new URL(request.url)
+  const gameId = searchParams.get('gameId')
+  const cursorParam = searchParams.get('cursor')
+  const limit = Math.min(
+    MAX_LIMIT,
+    Math.max(1, parseInt(searchParams.get('limit') || `${HISTORY_PAGE_SIZE}`) || HISTORY_PAGE_SIZE)
+  )
+
+  // Event ids only grow, so the last id seen is the cursor
+  const cursor = cursorParam ? Number(cursorParam) : null
+  if (cursor !== null && (!Number.isInteger(cursor) || cursor <= 0)) {
+    return apiError('Invalid cursor', 400)
+  }
+
+  let query = supabase
+    .from('interaction_events')
+    .select('*')
+    .eq('user_id', user.id)
+
+  if (gameId) {
+    // events are stored under the slug whatever id the client sent
+    const canonicalId = await resolveGameId(supabase, gameId)
+    if (!canonicalId) {
+      return apiError('Game not found', 404)
+    }
+    query = query.eq('game_id', canonicalId)
+  }
+  if (cursor !== null) {
+    query = query.lt('id', cursor)
+  }
+
+  // one extra row tells us whether there's another page
+  const { data: rows, error } = await query
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (error) {
+    console.error('Error fetching interaction history:', error)
+    return apiError('Failed to fetch interaction history', 500)
+  }
+
+  const events = rows.slice(0, limit)
+  const gamesBySlug = await getGamesBySlugs(
+    supabase,
+    getCatalogProvider(),
+    [...new Set(events.map(event => event.game_id))]
+  )
+
+  const results: InteractionHistoryEntry[] = events.map(event => {
+    const game = gamesBySlug.get(event.game_id)
+    return {
+      id: event.id,
+      game_id: event.game_id,
+      action: event.action,
+      event: event.event,
+      created_at: event.created_at,
+      automatic: event.caused_by !== null,
+      is_undo: event.undo_of !== null,
+      game: game
+        ? { slug: game.slug, name: game.name, background_image: game.background_image || null }
+        : null
+    }
+  })
+
+  return apiSuccess({
+    results,
+    nextCursor: rows.length > limit ? `${events[events.length - 1].id}` : null
+  })
+})
@@ -1,244 +1,129 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createServerClient } from '@supabase/ssr'
-
-export async function POST(request: NextRequest) {
-  try {
-    // Create Supabase client with cookies from the request
-    // This ensures cookies are properly read from the incoming request
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-    
-    if (!supabaseUrl || !supabaseAnonKey) {
-      return NextResponse.json(
-        { success: false, error: 'Server configuration error' },
-        { status: 500 }
-      )
-    }
-
-    let responseToReturn: NextResponse | null = null
-    
-    const supabase = createServerClient(
-      supabaseUrl,
-      supabaseAnonKey,
-      {
-        cookies: {
-          getAll() {
-            return request.cookies.getAll()
-          },
-          setAll(cookiesToSet) {
-            if (!responseToReturn) {
-              responseToReturn = NextResponse.next()
-            }
-            cookiesToSet.forEach(({ name, value, options }) => {
-              request.cookies.set(name, value)
-              responseToReturn!.cookies.set(name, value, options)
-            })
-          },
-        },
-      }
-    )
-    
-    // Check if user is authenticated via cookies
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    if (authError || !user) {
-      const errorResponse = NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-      return responseToReturn || errorResponse
-    }
-
-    const body = await request.json()
-    const { gameId, action } = body
-
-    if (!gameId || !action) {
-      const errorResponse = NextResponse.json(
-        { success: false, error: 'Missing gameId or action' },
-        { status: 400 }
-      )
-      return responseToReturn || errorResponse
-    }
-
-    if (!['like', 'favorite', 'played'].includes(action)) {
-      const errorResponse = NextResponse.json(
-        { success: false, error: 'Invalid action' },
-        { status: 400 }
-      )
-      return responseToReturn || errorResponse
-    }
-
-    // check if interaction already exists
-    const { data: existingInteraction, error: queryError } = await supabase
-      .from('user_interactions')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('game_id', gameId)
-      .eq('action', action)
-      .maybeSingle()
-
-    if (queryError) {
-      console.error('Error querying interactions:', queryError)
-      const errorResponse = NextResponse.json(
-        { success: false, error: `Failed to check interaction: ${queryError.message}` },
-        { status: 500 }
-      )
-      return responseToReturn || errorResponse
-    }
-
-    if (existingInteraction) {
-      // remove the interaction (toggle off)
-      const { error: deleteError } = await supabase
-        .from('user_interactions')
-        .delete()
-        .eq('id', existingInteraction.id)
-
-      if (deleteError) {
-        const errorResponse = NextResponse.json(
-          { success: false, error: 'Failed to remove interaction' },
-          { status: 500 }
-        )
-        return responseToReturn || errorResponse
-      }
-
-      const successResponse = NextResponse.json({
-        success: true,
-        action: 'removed',
-        data: null
-      })
-      return responseToReturn || successResponse
-    } else {
-      // add the interaction
-      const { data: newInteraction, error: insertError } = await supabase
-        .from('user_interactions')
-        .insert({
-          user_id: user.id,
-          game_id: gameId,
-          action: action
-        })
-        .select()
-        .single()
-
-      if (insertError) {
-        console.error('Error inserting interaction:', insertError)
-        const errorResponse = NextResponse.json(
-          { success: false, error: `Failed to add interaction: ${insertError.message}` },
-          { status: 500 }
-        )
-        return responseToReturn || errorResponse
-      }
-
-      const successResponse = NextResponse.json({
-        success: true,
-        action: 'added',
-        data: newInteraction
-      })
-      return responseToReturn || successResponse
-    }
-
-  } catch (error) {
-    console.error('Error in interactions API:', error)
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    )
+import { NextResponse } from 'next/server'
+import { apiError, apiSuccess, readJson, withAuth, type AuthContext } from '@/lib/api-handler'
+import { resolveGameId } from '@/lib/game-identity'
+import {
+  getInteractionState,
+  parseInteractionOperation,
+  setInteraction,
+  type InteractionOperation,
+} from '@/lib/interaction-history'
+import { INTERACTION_ACTIONS, isInteractionAction } from '@/lib/supabase'
+
+// Toggle an interaction by logging an event. Retries flip the state back, so
+// clients should prefer PUT/DELETE; the database applies it to
+// user_interactions (and replaces any other play status)
+export const POST = withAuth(async ({ request, supabase, user }) => {
+  const body = await readJson(request)
+  const { action } = body
+
+  if (!body.gameId || !action) {
+    return apiError('Missing gameId or action', 400)
+  }
+
+  if (!isInteractionAction(action)) {
+    return apiError(`Invalid action. Must be one of: ${INTERACTION_ACTIONS.join(', ')}`, 400)
+  }
+
+  const gameId = await resolveGameId(supabase, body.gameId)
+  if (!gameId) {
+    return apiError('Game not found', 404)
+  }
+
+  // check if interaction already exists
+  const { data: existingInteraction, error: queryError } = await supabase
+    .from('user_interactions')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('game_id', gameId)
+    .eq('action', action)
+    .maybeSingle()
+
+  if (queryError) {
+    console.error('Error querying interactions:', queryError)
+    return apiError(`Failed to check interaction: ${queryError.message}`, 500)
   }
-}
 
-export async function GET(request: NextRequest) {
-  try {
-    // Create Supabase client with cookies from the request
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-    
-    if (!supabaseUrl || !supabaseAnonKey) {
-      return NextResponse.json(
-        { success: false, error: 'Server configuration error' },
-        { status: 500 }
-      )
-    }
-
-    let responseToReturn: NextResponse | null = null
-    
-    const supabase = createServerClient(
-      supabaseUrl,
-      supabaseAnonKey,
-      {
-        cookies: {
-          getAll() {
-            return request.cookies.getAll()
-          },
-          setAll(cookiesToSet) {
-            if (!responseToReturn) {
-              responseToReturn = NextResponse.next()
-            }
-            cookiesToSet.forEach(({ name, value, options }) => {
-              request.cookies.set(name, value)
-              responseToReturn!.cookies.set(name, value, options)
-            })
-          },
-        },
-      }
-    )
-    
-    // check if user is authenticated
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    if (authError || !user) {
-      const errorResponse = NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-      return responseToReturn || errorResponse
-    }
-
-    const { searchParams } = new URL(request.url)
-    const gameId = searchParams.get('gameId')
-
-    if (!gameId) {
-      const errorResponse = NextResponse.json(
-        { success: false, error: 'Missing gameId' },
-        { status: 400 }
-      )
-      return responseToReturn || errorResponse
-    }
-
-    // get all interactions for this game
-    const { data: interactions, error } = await supabase
-      .from('user_interactions')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('game_id', gameId)
-
-    if (error) {
-      const errorResponse = NextResponse.json(
-        { success: false, error: 'Failed to fetch interactions' },
-        { status: 500 }
-      )
-      return responseToReturn || errorResponse
-    }
-
-    // transform to object for easier access
-    const interactionMap = interactions.reduce((acc, interaction) => {
-      acc[interaction.action] = true
-      return acc
-    }, {} as Record<string, boolean>)
-
-    const successResponse = NextResponse.json({
-      success: true,
-      data: {
-        liked: interactionMap.like || false,
-        favorited: interactionMap.favorite || false,
-        played: interactionMap.played || false
-      }
+  const { data: event, error: eventError } = await supabase
+    .from('interaction_events')
+    .insert({
+      user_id: user.id,
+      game_id: gameId,
+      action,
+      event: existingInteraction ? 'removed' : 'added'
     })
-    return responseToReturn || successResponse
-
-  } catch (error) {
-    console.error('Error in interactions API:', error)
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    )
+    .select()
+    .single()
+
+  if (eventError) {
+    console.error('Error recording interaction:', eventError)
+    return apiError(`Failed to update interaction: ${eventError.message}`, 500)
+  }
+
+  return NextResponse.json({
+    success: true,
+    action: event.event,
+    eventId: event.id,
+    data: await getInteractionState(supabase, user.id, gameId)
+  })
+})
+
+export const GET = withAuth(async ({ request, supabase, user }) => {
+  const { searchParams } = new URL(request.url)
+  const ref = searchParams.get('gameId')
+
+  if (!ref) {
+    return apiError('Missing gameId', 400)
+  }
+
+  const gameId = await resolveGameId(supabase, ref)
+  if (!gameId) {
+    return apiError('Game not found', 404)
+  }
+
+  return apiSuccess(await getInteractionState(supabase, user.id, gameId))
+})
+
+async function setAndRespond(
+  { supabase, user }: AuthContext,
+  operation: InteractionOperation
+) {
+  const gameId = await resolveGameId(supabase, operation.gameId)
+  if (!gameId) {
+    return apiError('Game not found', 404)
   }
+
+  const { changed, eventId } = await setInteraction(supabase, user.id, { ...operation, gameId })
+  return apiSuccess({
+    changed,
+    eventId,
+    state: await getInteractionState(supabase, user.id, gameId)
+  })
 }
+
+// Make sure an interaction is present; repeating it changes nothing
+export const PUT = withAuth(async (context) => {
+  const body = await readJson(context.request)
+  const parsed = parseInteractionOperation({ ...body, op: 'add' })
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  return setAndRespond(context, parsed.data)
+})
+
+// Make sure an interaction is absent; repeating it changes nothing
+export const DELETE = withAuth(async (context) => {
+  const { searchParams } = new URL(context.request.url)
+  const parsed = parseInteractionOperation({
+    gameId: searchParams.get('gameId'),
+    action: searchParams.get('action'),
+    op: 'remove'
+  })
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  return setAndRespond(context, parsed.data)
+})
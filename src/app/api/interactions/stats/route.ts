@@ -1,89 +1,49 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createServerClient } from '@supabase/ssr'
+import { apiError, apiSuccess, withAuth } from '@/lib/api-handler'
+import { minutesToHours } from '@/lib/play-sessions'
+import { INTERACTION_ACTIONS, type InteractionAction } from '@/lib/supabase'
 
-export async function GET(request: NextRequest) {
-  try {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-    
-    if (!supabaseUrl || !supabaseAnonKey) {
-      return NextResponse.json(
-        { success: false, error: 'Server configuration error' },
-        { status: 500 }
-      )
-    }
-
-    let responseToReturn: NextResponse | null = null
-    
-    const supabase = createServerClient(
-      supabaseUrl,
-      supabaseAnonKey,
-      {
-        cookies: {
-          getAll() {
-            return request.cookies.getAll()
-          },
-          setAll(cookiesToSet) {
-            if (!responseToReturn) {
-              responseToReturn = NextResponse.next()
-            }
-            cookiesToSet.forEach(({ name, value, options }) => {
-              request.cookies.set(name, value)
-              responseToReturn!.cookies.set(name, value, options)
-            })
-          },
-        },
-      }
-    )
-    
-    // Check if user is authenticated
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    if (authError || !user) {
-      const errorResponse = NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-      return responseToReturn || errorResponse
-    }
-
-    // Get counts for each interaction type
-    const [likedResult, favoriteResult, playedResult] = await Promise.all([
-      supabase
-        .from('user_interactions')
-        .select('id', { count: 'exact', head: true })
-        .eq('user_id', user.id)
-        .eq('action', 'like'),
-      supabase
-        .from('user_interactions')
-        .select('id', { count: 'exact', head: true })
-        .eq('user_id', user.id)
-        .eq('action', 'favorite'),
+export const GET = withAuth(async ({ supabase, user }) => {
+  // Get counts for each interaction type
+  const results = await Promise.all(
+    INTERACTION_ACTIONS.map(action =>
       supabase
         .from('user_interactions')
         .select('id', { count: 'exact', head: true })
         .eq('user_id', user.id)
-        .eq('action', 'played')
-    ])
+        .eq('action', action)
+    )
+  )
 
-    const stats = {
-      liked: likedResult.count || 0,
-      favorite: favoriteResult.count || 0,
-      played: playedResult.count || 0
-    }
+  const failed = results.find(result => result.error)
+  if (failed) {
+    console.error('Error fetching interaction stats:', failed.error)
+    return apiError('Failed to fetch interaction stats', 500)
+  }
 
-    const successResponse = NextResponse.json({
-      success: true,
-      data: stats
-    })
-    return responseToReturn || successResponse
+  const { data: totals, error: totalsError } = await supabase.rpc('play_session_totals')
 
-  } catch (error) {
-    console.error('Error in interactions stats API:', error)
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    )
+  if (totalsError) {
+    console.error('Error fetching play session totals:', totalsError)
+    return apiError('Failed to fetch interaction stats', 500)
   }
-}
 
+  const playtime = totals?.[0]
+
+  const counts = Object.fromEntries(
+    INTERACTION_ACTIONS.map((action, index) => [action, results[index].count || 0])
+  ) as Record<InteractionAction, number>
+
+  return apiSuccess({
+    liked: counts.like,
+    favorite: counts.favorite,
+    played: counts.played,
+    wishlist: counts.wishlist,
+    playing: counts.playing,
+    backlog: counts.backlog,
+    dropped: counts.dropped,
+    // Logged play sessions, across all games
+    hoursPlayed: minutesToHours(Number(playtime?.total_minutes) || 0),
+    sessions: Number(playtime?.session_count) || 0,
+    gamesWithSessions: Number(playtime?.game_count) || 0
+  })
+})
@@ -0,0 +1,70 @@
+import { apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import { getInteractionState, inverseEvent, UNDO_WINDOW_MS } from '@/lib/interaction-history'
+
+// A little slack on top of the client's window for the round trip
+const UNDO_DEADLINE_MS = UNDO_WINDOW_MS + 5_000
+
+/**
+ * Reverse a recent toggle by logging the opposite event(s)
+ * Only the latest change to a game can be undone, and only once.
+ */
+export const POST = withAuth(async ({ request, supabase, user }) => {
+  const body = await readJson(request)
+  const eventId = Number(body?.eventId)
+
+  if (!Number.isInteger(eventId) || eventId <= 0) {
+    return apiError('Missing eventId', 400)
+  }
+
+  const { data: event, error } = await supabase
+    .from('interaction_events')
+    .select('*')
+    .eq('id', eventId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading interaction event:', error)
+    return apiError('Failed to undo', 500)
+  }
+
+  if (!event || event.caused_by !== null) {
+    return apiError('Nothing to undo', 404)
+  }
+
+  if (Date.now() - new Date(event.created_at).getTime() > UNDO_DEADLINE_MS) {
+    return apiError('Too late to undo', 409)
+  }
+
+  // Everything logged for this game since, which should only be the
+  // status removals the event itself caused
+  const { data: later, error: laterError } = await supabase
+    .from('interaction_events')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('game_id', event.game_id)
+    .gt('id', event.id)
+
+  if (laterError) {
+    console.error('Error loading interaction events:', laterError)
+    return apiError('Failed to undo', 500)
+  }
+
+  if (later.some(other => other.caused_by !== event.id)) {
+    return apiError('This game has changed since; nothing to undo', 409)
+  }
+
+  // Reverse the event first so a restored play status has nothing to replace
+  for (const original of [event, ...later]) {
+    const { error: undoError } = await supabase
+      .from('interaction_events')
+      .insert(inverseEvent(original))
+
+    if (undoError) {
+      console.error('Error undoing interaction event:', undoError)
+      return apiError('Failed to undo', 500)
+    }
+  }
+
+  return apiSuccess(await getInteractionState(supabase, user.id, event.game_id))
+})
@@ -0,0 +1,56 @@
+import { ApiError, apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import { isModerator } from '@/lib/moderation'
+import { isReviewId } from '@/lib/reviews'
+
+type ModerationAction = 'dismiss' | 'remove'
+
+/**
+ * Resolve a queued review: `dismiss` keeps it up, `remove` hides it
+ * Either way its open reports are closed.
+ */
+export const POST = withAuth<{ id: string }>(async ({ request, supabase, user, params }) => {
+  if (!(await isModerator(supabase))) {
+    throw new ApiError(403, 'Moderator access required')
+  }
+
+  if (!isReviewId(params.id)) {
+    return apiError('Review not found', 404)
+  }
+
+  const body = await readJson(request)
+  const action: ModerationAction | undefined = body?.action
+
+  if (action !== 'dismiss' && action !== 'remove') {
+    return apiError('Invalid action. Must be dismiss or remove', 400)
+  }
+
+  if (action === 'remove') {
+    const { data, error } = await supabase
+      .from('reviews')
+      .update({ status: 'removed' })
+      .eq('id', params.id)
+      .select('id')
+
+    if (error) {
+      console.error('Error removing review:', error)
+      return apiError('Failed to remove review', 500)
+    }
+
+    if (data.length === 0) {
+      return apiError('Review not found', 404)
+    }
+  }
+
+  const { error: resolveError } = await supabase
+    .from('review_reports')
+    .update({ resolved_at: new Date().toISOString(), resolved_by: user.id })
+    .eq('review_id', params.id)
+    .is('resolved_at', null)
+
+  if (resolveError) {
+    console.error('Error resolving reports:', resolveError)
+    return apiError('Failed to resolve reports', 500)
+  }
+
+  return apiSuccess({ id: params.id, action })
+})
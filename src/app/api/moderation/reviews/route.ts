@@ -0,0 +1,41 @@
+import { ApiError, apiError, apiSuccess, withAuth } from '@/lib/api-handler'
+import { isModerator } from '@/lib/moderation'
+import { toReview, type Review } from '@/lib/reviews'
+
+interface QueueItem {
+  review: Review
+  reports: Array<{ id: string; reason: string; created_at: string }>
+}
+
+// Reviews with unresolved reports, most reported first
+export const GET = withAuth(async ({ supabase, user }) => {
+  if (!(await isModerator(supabase))) {
+    throw new ApiError(403, 'Moderator access required')
+  }
+
+  const { data: reports, error } = await supabase
+    .from('review_reports')
+    .select('id, reason, created_at, review_id, reviews(*)')
+    .is('resolved_at', null)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching moderation queue:', error)
+    return apiError('Failed to fetch moderation queue', 500)
+  }
+
+  const queue = new Map<string, QueueItem>()
+  for (const report of reports) {
+    if (!report.reviews) continue
+
+    let item = queue.get(report.review_id)
+    if (!item) {
+      item = { review: toReview(report.reviews, user.id), reports: [] }
+      queue.set(report.review_id, item)
+    }
+    item.reports.push({ id: report.id, reason: report.reason, created_at: report.created_at })
+  }
+
+  const items = [...queue.values()].sort((a, b) => b.reports.length - a.reports.length)
+  return apiSuccess(items)
+})
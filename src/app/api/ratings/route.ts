@@ -0,0 +1,141 @@
+import { apiError, apiSuccess, readJson, withAuth, withOptionalAuth } from '@/lib/api-handler'
+import { resolveGameId } from '@/lib/game-identity'
+import {
+  emptyDistribution,
+  GAME_RATINGS,
+  isGameRating,
+  toDistribution,
+  totalRatings,
+  type GameRating,
+} from '@/lib/ratings'
+import type { TypedSupabaseClient } from '@/lib/supabase'
+
+async function loadDistribution(supabase: TypedSupabaseClient, gameId: string) {
+  const { data, error } = await supabase.rpc('game_rating_distribution', {
+    target_game_id: gameId,
+  })
+
+  if (error) {
+    console.error('Error fetching rating distribution:', error)
+    return null
+  }
+
+  const distribution = toDistribution(data)
+  return { distribution, total: totalRatings(distribution) }
+}
+
+// Ratings are stored under the slug; gameId may also be a games.id or RAWG id
+
+// Distribution of our users' ratings for a game, plus the caller's own
+export const GET = withOptionalAuth(async ({ request, supabase, user }) => {
+  const { searchParams } = new URL(request.url)
+  const gameRef = searchParams.get('gameId')
+
+  if (!gameRef) {
+    return apiError('Missing gameId', 400)
+  }
+
+  if (!supabase) {
+    return apiSuccess({ rating: null, distribution: emptyDistribution(), total: 0 })
+  }
+
+  const gameId = await resolveGameId(supabase, gameRef)
+  if (!gameId) {
+    return apiError('Game not found', 404)
+  }
+
+  const summary = await loadDistribution(supabase, gameId)
+  if (!summary) {
+    return apiError('Failed to fetch ratings', 500)
+  }
+
+  let rating: GameRating | null = null
+  if (user) {
+    const { data, error } = await supabase
+      .from('game_ratings')
+      .select('rating')
+      .eq('user_id', user.id)
+      .eq('game_id', gameId)
+      .maybeSingle()
+
+    if (error) {
+      return apiError('Failed to fetch rating', 500)
+    }
+    rating = data?.rating ?? null
+  }
+
+  return apiSuccess({ rating, ...summary })
+})
+
+// Set (or change) the caller's rating for a game
+export const POST = withAuth(async ({ request, supabase, user }) => {
+  const body = await readJson(request)
+  const { gameId: gameRef, rating } = body
+
+  if (!gameRef || !rating) {
+    return apiError('Missing gameId or rating', 400)
+  }
+
+  if (!isGameRating(rating)) {
+    return apiError(`Invalid rating. Must be one of: ${GAME_RATINGS.join(', ')}`, 400)
+  }
+
+  const gameId = await resolveGameId(supabase, gameRef)
+  if (!gameId) {
+    return apiError('Game not found', 404)
+  }
+
+  const { error } = await supabase
+    .from('game_ratings')
+    .upsert(
+      {
+        user_id: user.id,
+        game_id: gameId,
+        rating,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'user_id,game_id' }
+    )
+
+  if (error) {
+    console.error('Error saving rating:', error)
+    return apiError(`Failed to save rating: ${error.message}`, 500)
+  }
+
+  const summary = await loadDistribution(supabase, gameId)
+  return apiSuccess({
+    rating,
+    ...(summary ?? { distribution: emptyDistribution(), total: 0 })
+  })
+})
+
+// Clear the caller's rating for a game
+export const DELETE = withAuth(async ({ request, supabase, user }) => {
+  const { searchParams } = new URL(request.url)
+  const gameRef = searchParams.get('gameId')
+
+  if (!gameRef) {
+    return apiError('Missing gameId', 400)
+  }
+
+  const gameId = await resolveGameId(supabase, gameRef)
+  if (!gameId) {
+    return apiError('Game not found', 404)
+  }
+
+  const { error } = await supabase
+    .from('game_ratings')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('game_id', gameId)
+
+  if (error) {
+    return apiError('Failed to remove rating', 500)
+  }
+
+  const summary = await loadDistribution(supabase, gameId)
+  return apiSuccess({
+    rating: null,
+    ...(summary ?? { distribution: emptyDistribution(), total: 0 })
+  })
+})
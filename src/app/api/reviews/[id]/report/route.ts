@@ -0,0 +1,40 @@
+import { apiError, apiSuccess, readJson, withAuth } from '@/lib/api-handler'
+import { getReview, REVIEW_LIMITS } from '@/lib/reviews'
+
+// Flag a review for the moderation queue
+export const POST = withAuth<{ id: string }>(async ({ request, supabase, user, params }) => {
+  const body = await readJson(request)
+  const reason = typeof body?.reason === 'string' ? body.reason.trim() : ''
+
+  if (!reason) {
+    return apiError('Missing reason', 400)
+  }
+
+  if (reason.length > REVIEW_LIMITS.reportReason) {
+    return apiError(`Reason must be at most ${REVIEW_LIMITS.reportReason} characters`, 400)
+  }
+
+  const review = await getReview(supabase, params.id)
+  if (!review || review.status !== 'published') {
+    return apiError('Review not found', 404)
+  }
+
+  if (review.user_id === user.id) {
+    return apiError('You cannot report your own review', 400)
+  }
+
+  const { error } = await supabase
+    .from('review_reports')
+    .insert({ review_id: review.id, user_id: user.id, reason })
+
+  if (error) {
+    // unique (review_id, user_id)
+    if (error.code === '23505') {
+      return apiError('You have already reported this review', 409)
+    }
+    console.error('Error reporting review:', error)
+    return apiError('Failed to report review', 500)
+  }
+
+  return apiSuccess(null, { status: 201 })
+})
@@ -0,0 +1,58 @@
+import { ApiError, apiError, apiSuccess, readJson, withAuth, type AuthContext } from '@/lib/api-handler'
+import { getReview, parseReviewInput, toReview } from '@/lib/reviews'
+
+/**
+ * The review, if the signed-in user wrote it
+ */
+async function getOwnReview({ supabase, user, params }: AuthContext<{ id: string }>) {
+  const review = await getReview(supabase, params.id)
+
+  if (!review) {
+    throw new ApiError(404, 'Review not found')
+  }
+
+  if (review.user_id !== user.id) {
+    throw new ApiError(403, 'You can only change your own reviews')
+  }
+
+  return review
+}
+
+export const PATCH = withAuth<{ id: string }>(async (context) => {
+  const { request, supabase, user } = context
+  const review = await getOwnReview(context)
+  const parsed = parseReviewInput(await readJson(request), true)
+
+  if (parsed.error !== undefined) {
+    return apiError(parsed.error, 400)
+  }
+
+  const { data: updated, error } = await supabase
+    .from('reviews')
+    .update({ ...parsed.data, updated_at: new Date().toISOString() })
+    .eq('id', review.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating review:', error)
+    return apiError(`Failed to update review: ${error.message}`, 500)
+  }
+
+  return apiSuccess(toReview(updated, user.id))
+})
+
+export const DELETE = withAuth<{ id: string }>(async (context) => {
+  const review = await getOwnReview(context)
+
+  const { error } = await context.supabase
+    .from('reviews')
+    .delete()
+    .eq('id', review.id)
+
+  if (error) {
+    return apiError('Failed to delete review', 500)
+  }
+
+  return apiSuccess(null)
+})
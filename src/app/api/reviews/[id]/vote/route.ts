@@ -0,0 +1,58 @@
+import { ApiError, apiError, apiSuccess, withAuth, type AuthContext } from '@/lib/api-handler'
+import { getReview } from '@/lib/reviews'
+
+async function getVotableReview({ supabase, user, params }: AuthContext<{ id: string }>) {
+  const review = await getReview(supabase, params.id)
+
+  if (!review || review.status !== 'published') {
+    throw new ApiError(404, 'Review not found')
+  }
+
+  if (review.user_id === user.id) {
+    throw new ApiError(400, 'You cannot vote on your own review')
+  }
+
+  return review
+}
+
+async function voteSummary({ supabase, params }: AuthContext<{ id: string }>, votedHelpful: boolean) {
+  // helpful_count is kept up to date by a trigger on review_votes
+  const review = await getReview(supabase, params.id)
+  return apiSuccess({ helpful_count: review?.helpful_count ?? 0, voted_helpful: votedHelpful })
+}
+
+// Mark a review as helpful (voting twice is a no-op)
+export const POST = withAuth<{ id: string }>(async (context) => {
+  const review = await getVotableReview(context)
+
+  const { error } = await context.supabase
+    .from('review_votes')
+    .upsert(
+      { review_id: review.id, user_id: context.user.id },
+      { onConflict: 'review_id,user_id', ignoreDuplicates: true }
+    )
+
+  if (error) {
+    console.error('Error voting on review:', error)
+    return apiError('Failed to vote on review', 500)
+  }
+
+  return voteSummary(context, true)
+})
+
+// Take back a helpful vote
+export const DELETE = withAuth<{ id: string }>(async (context) => {
+  const review = await getVotableReview(context)
+
+  const { error } = await context.supabase
+    .from('review_votes')
+    .delete()
+    .eq('review_id', review.id)
+    .eq('user_id', context.user.id)
+
+  if (error) {
+    return apiError('Failed to remove vote', 500)
+  }
+
+  return voteSummary(context, false)
+})
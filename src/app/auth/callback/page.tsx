@@ -2,7 +2,7 @@
 
 import { useEffect, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { supabase } from "@/lib/supabase";
+import { getSupabaseBrowserClient } from "@/lib/supabase";
 
 function AuthCallbackContent() {
   const router = useRouter();
@@ -22,7 +22,7 @@ function AuthCallbackContent() {
         // This handles cases where the session was set but the callback still shows an error
         const {
           data: { session: existingSession },
-        } = await supabase.auth.getSession();
+        } = await getSupabaseBrowserClient().auth.getSession();
         if (existingSession?.user) {
           // User is already authenticated, just redirect
           console.log("User already authenticated, redirecting...");
@@ -39,7 +39,7 @@ function AuthCallbackContent() {
           const refreshToken = hashParams.get("refresh_token");
 
           if (accessToken && refreshToken) {
-            const { error } = await supabase.auth.setSession({
+            const { error } = await getSupabaseBrowserClient().auth.setSession({
               access_token: accessToken,
               refresh_token: refreshToken,
             });
@@ -66,7 +66,7 @@ function AuthCallbackContent() {
           // retrieves the code verifier from cookies. The code verifier should have been
           // stored when the OAuth flow was initiated.
           try {
-            const { data, error } = await supabase.auth.exchangeCodeForSession(
+            const { data, error } = await getSupabaseBrowserClient().auth.exchangeCodeForSession(
               code
             );
 
@@ -81,7 +81,7 @@ function AuthCallbackContent() {
               // Sometimes the session is set even if exchangeCodeForSession returns an error
               const {
                 data: { session: sessionAfterError },
-              } = await supabase.auth.getSession();
+              } = await getSupabaseBrowserClient().auth.getSession();
               if (sessionAfterError?.user) {
                 console.log("Session was set despite error, redirecting...");
                 router.push(next);
@@ -105,7 +105,7 @@ function AuthCallbackContent() {
               // Check if session exists even if not returned
               const {
                 data: { session: fallbackSession },
-              } = await supabase.auth.getSession();
+              } = await getSupabaseBrowserClient().auth.getSession();
               if (fallbackSession?.user) {
                 router.push(next);
                 return;
@@ -120,7 +120,7 @@ function AuthCallbackContent() {
             // Check if user got authenticated despite the error
             const {
               data: { session: sessionAfterException },
-            } = await supabase.auth.getSession();
+            } = await getSupabaseBrowserClient().auth.getSession();
             if (sessionAfterException?.user) {
               console.log("Session was set despite exception, redirecting...");
               router.push(next);
@@ -142,7 +142,7 @@ function AuthCallbackContent() {
         // But check one more time if user is authenticated (maybe from a previous attempt)
         const {
           data: { session: finalCheckSession },
-        } = await supabase.auth.getSession();
+        } = await getSupabaseBrowserClient().auth.getSession();
         if (finalCheckSession?.user) {
           router.push(next);
           return;
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { supabase } from "@/lib/supabase";
+import { getSupabaseBrowserClient } from "@/lib/supabase";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import {
@@ -22,7 +22,7 @@ export default function SignInPage() {
   const handleOAuthSignIn = async (provider: "google" | "github") => {
     setLoading(true);
     try {
-      const { error } = await supabase.auth.signInWithOAuth({
+      const { error } = await getSupabaseBrowserClient().auth.signInWithOAuth({
         provider,
         options: {
           redirectTo: `${window.location.origin}/auth/callback?next=/dashboard`,
@@ -46,7 +46,7 @@ export default function SignInPage() {
     setMessage("");
 
     try {
-      const { error } = await supabase.auth.signInWithOtp({
+      const { error } = await getSupabaseBrowserClient().auth.signInWithOtp({
         email,
         options: {
           emailRedirectTo: `${window.location.origin}/auth/callback?next=/dashboard`,
@@ -0,0 +1,325 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/useAuth";
+import { COLLECTION_LIMITS, type CollectionDetail } from "@/lib/collections";
+
+export default function CollectionPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const router = useRouter();
+  const [collection, setCollection] = useState<CollectionDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCollection = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/collections/${id}`, {
+        credentials: "include",
+      });
+      if (response.status === 404) {
+        setNotFound(true);
+        return;
+      }
+      const result = await response.json();
+      if (result.success) {
+        setCollection(result.data);
+        setNotFound(false);
+      }
+    } catch (error) {
+      console.error("Error fetching collection:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchCollection();
+  }, [fetchCollection, user]);
+
+  const startEditing = () => {
+    if (!collection) return;
+    setName(collection.name);
+    setDescription(collection.description ?? "");
+    setIsPublic(collection.is_public);
+    setEditing(true);
+  };
+
+  const saveDetails = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/collections/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name, description, is_public: isPublic }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setCollection((prev) => (prev ? { ...prev, ...result.data } : prev));
+        setEditing(false);
+      } else {
+        alert(result.error || "Failed to save collection");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteCollection = async () => {
+    if (!confirm("Delete this collection? The games themselves stay put.")) {
+      return;
+    }
+    const response = await fetch(`/api/collections/${id}`, {
+      method: "DELETE",
+      credentials: "include",
+    });
+    const result = await response.json();
+    if (result.success) {
+      router.push("/collections");
+    } else {
+      alert(result.error || "Failed to delete collection");
+    }
+  };
+
+  const moveGame = async (index: number, offset: number) => {
+    if (!collection) return;
+    const games = [...collection.games];
+    const target = index + offset;
+    if (target < 0 || target >= games.length) return;
+    [games[index], games[target]] = [games[target], games[index]];
+
+    const previous = collection;
+    setCollection({ ...collection, games });
+    const response = await fetch(`/api/collections/${id}/games`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ gameIds: games.map((game) => game.slug) }),
+    });
+    const result = await response.json();
+    if (!result.success) {
+      setCollection(previous);
+      alert(result.error || "Failed to reorder games");
+      fetchCollection();
+    }
+  };
+
+  const removeGame = async (slug: string) => {
+    if (!collection) return;
+    const response = await fetch(
+      `/api/collections/${id}/games?gameId=${encodeURIComponent(slug)}`,
+      { method: "DELETE", credentials: "include" }
+    );
+    const result = await response.json();
+    if (result.success) {
+      setCollection({
+        ...collection,
+        game_count: collection.game_count - 1,
+        games: collection.games.filter((game) => game.slug !== slug),
+      });
+    }
+  };
+
+  if (loading && !collection) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto text-center">
+          <div className="gaming-card p-8">
+            <h2 className="text-xl font-semibold mb-4">Loading...</h2>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (notFound || !collection) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto text-center gaming-card p-8">
+          <h2 className="text-xl font-semibold mb-2">Collection not found</h2>
+          <p className="text-gray-400">
+            It may be private or may have been deleted.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {editing ? (
+        <form onSubmit={saveDetails} className="gaming-card p-6 space-y-4 mb-8">
+          <div className="space-y-2">
+            <Label htmlFor="collection-name">Name</Label>
+            <Input
+              id="collection-name"
+              value={name}
+              maxLength={COLLECTION_LIMITS.name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="collection-description">Description</Label>
+            <textarea
+              id="collection-description"
+              value={description}
+              maxLength={COLLECTION_LIMITS.description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-md focus:outline-none focus:border-purple-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              onChange={(e) => setIsPublic(e.target.checked)}
+            />
+            Public (anyone with the link can see it, and it shows on game
+            pages)
+          </label>
+          <div className="flex gap-3">
+            <Button type="submit" className="gaming-button" disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+              onClick={() => setEditing(false)}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="mb-8">
+          <div className="flex flex-wrap items-center gap-3 mb-2">
+            <h1 className="text-4xl font-bold">{collection.name}</h1>
+            <span className="text-xs px-2 py-1 rounded bg-gray-700 text-gray-300">
+              {collection.is_public ? "Public" : "Private"}
+            </span>
+          </div>
+          <p className="text-sm text-gray-400 mb-4">
+            By {collection.owner_name} • {collection.game_count} games
+          </p>
+          {collection.description && (
+            <p className="text-gray-300 whitespace-pre-line mb-4">
+              {collection.description}
+            </p>
+          )}
+          {collection.is_own && (
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                onClick={startEditing}
+              >
+                Edit details
+              </Button>
+              <Button
+                variant="outline"
+                className="border-gray-600 text-red-400 hover:bg-gray-700"
+                onClick={deleteCollection}
+              >
+                Delete collection
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {collection.games.length === 0 ? (
+        <div className="gaming-card p-8 text-center text-gray-400">
+          No games yet. Use &quot;Save to Collection&quot; on any game to add
+          it here.
+        </div>
+      ) : (
+        <ol className="space-y-3">
+          {collection.games.map((game, index) => (
+            <li
+              key={game.slug}
+              className="gaming-card p-3 flex items-center gap-4"
+            >
+              <span className="w-6 text-right text-gray-400 font-semibold">
+                {index + 1}
+              </span>
+              <div className="relative w-24 h-14 rounded overflow-hidden bg-gray-700 flex-shrink-0">
+                {game.background_image && (
+                  <Image
+                    src={game.background_image}
+                    alt=""
+                    fill
+                    sizes="96px"
+                    className="object-cover"
+                  />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <Link
+                  href={`/games/${game.slug}`}
+                  className="font-semibold hover:text-purple-300 truncate block"
+                >
+                  {game.name}
+                </Link>
+                <p className="text-xs text-gray-400">
+                  {game.released ? game.released.slice(0, 4) : "TBA"}
+                  {game.genres.length > 0 &&
+                    ` • ${game.genres.map((genre) => genre.name).join(", ")}`}
+                </p>
+              </div>
+              {collection.is_own && (
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    aria-label="Move up"
+                    disabled={index === 0}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                    onClick={() => moveGame(index, -1)}
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    aria-label="Move down"
+                    disabled={index === collection.games.length - 1}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                    onClick={() => moveGame(index, 1)}
+                  >
+                    ↓
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    aria-label="Remove from collection"
+                    className="border-gray-600 text-red-400 hover:bg-gray-700"
+                    onClick={() => removeGame(game.slug)}
+                  >
+                    ✕
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/useAuth";
+import { COLLECTION_LIMITS, type CollectionSummary } from "@/lib/collections";
+
+export default function CollectionsPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [collectionsLoading, setCollectionsLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/auth/signin");
+    }
+  }, [user, loading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchCollections = async () => {
+      try {
+        setCollectionsLoading(true);
+        const response = await fetch("/api/collections", {
+          credentials: "include",
+        });
+        const result = await response.json();
+        if (result.success) {
+          setCollections(result.data);
+        }
+      } catch (error) {
+        console.error("Error fetching collections:", error);
+      } finally {
+        setCollectionsLoading(false);
+      }
+    };
+
+    fetchCollections();
+  }, [user]);
+
+  const createCollection = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setCreating(true);
+    try {
+      const response = await fetch("/api/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name, description, is_public: isPublic }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        router.push(`/collections/${result.data.id}`);
+      } else {
+        alert(result.error || "Failed to create collection");
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (loading || (user && collectionsLoading)) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto text-center">
+          <div className="gaming-card p-8">
+            <h2 className="text-xl font-semibold mb-4">Loading...</h2>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-4xl font-bold mb-2">My Collections</h1>
+      <p className="text-gray-400 mb-8">
+        Ordered lists of games you put together. Public collections show up
+        on the pages of the games in them.
+      </p>
+
+      <form
+        onSubmit={createCollection}
+        className="gaming-card p-6 space-y-4 mb-10 max-w-2xl"
+      >
+        <h2 className="text-xl font-semibold">New collection</h2>
+        <div className="space-y-2">
+          <Label htmlFor="new-collection-name">Name</Label>
+          <Input
+            id="new-collection-name"
+            value={name}
+            maxLength={COLLECTION_LIMITS.name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Cozy games for rainy days"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="new-collection-description">Description</Label>
+          <textarea
+            id="new-collection-description"
+            value={description}
+            maxLength={COLLECTION_LIMITS.description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-md focus:outline-none focus:border-purple-500"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={isPublic}
+            onChange={(e) => setIsPublic(e.target.checked)}
+          />
+          Public
+        </label>
+        <Button
+          type="submit"
+          className="gaming-button"
+          disabled={creating || !name.trim()}
+        >
+          {creating ? "Creating..." : "Create collection"}
+        </Button>
+      </form>
+
+      {collections.length === 0 ? (
+        <div className="gaming-card p-8 text-center text-gray-400">
+          You haven&apos;t made any collections yet.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {collections.map((collection) => (
+            <Link
+              key={collection.id}
+              href={`/collections/${collection.id}`}
+              className="gaming-card overflow-hidden group"
+            >
+              <div className="relative h-32 bg-gradient-to-br from-gray-600 to-gray-800">
+                {collection.cover_image && (
+                  <Image
+                    src={collection.cover_image}
+                    alt=""
+                    fill
+                    className="object-cover transition-transform duration-300 group-hover:scale-105"
+                  />
+                )}
+              </div>
+              <div className="p-4">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-semibold text-lg truncate group-hover:text-purple-300">
+                    {collection.name}
+                  </h3>
+                  <span className="text-xs px-2 py-1 rounded bg-gray-700 text-gray-300">
+                    {collection.is_public ? "Public" : "Private"}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-400">
+                  {collection.game_count} games
+                </p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
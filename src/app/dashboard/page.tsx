@@ -118,12 +118,16 @@ export default function Dashboard() {
             ) : games.length > 0 ? (
               <div className="gaming-card overflow-hidden">
                 <div className="relative h-64">
-                  <Image
-                    src={games[0].background_image}
-                    alt={games[0].name}
-                    fill
-                    className="object-cover"
-                  />
+                  {games[0].background_image ? (
+                    <Image
+                      src={games[0].background_image}
+                      alt={games[0].name}
+                      fill
+                      className="object-cover"
+                    />
+                  ) : (
+                    <div className="h-full w-full bg-gradient-to-br from-gray-600 to-gray-800"></div>
+                  )}
                   <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent"></div>
                   <div className="absolute bottom-4 left-4 right-4">
                     <h3 className="text-2xl font-bold text-white mb-2">
@@ -1,5 +1,6 @@
 import { notFound } from "next/navigation";
-import { fetchGameBySlug, RAWGGame } from "@/lib/rawg";
+import { RAWGGame } from "@/lib/rawg";
+import { GameNotFoundError, getCatalogProvider } from "@/lib/catalog";
 import { GameDetailPage } from "@/components/GameDetailPage";
 
 interface GamePageProps {
@@ -11,13 +12,17 @@ interface GamePageProps {
 export default async function GamePage({ params }: GamePageProps) {
   const { slug } = await params;
 
+  let game: RAWGGame;
   try {
-    // Fetch game data from RAWG API
-    const game: RAWGGame = await fetchGameBySlug(slug);
-
-    return <GameDetailPage game={game} />;
+    game = await getCatalogProvider().getGameBySlug(slug);
   } catch (error) {
+    if (error instanceof GameNotFoundError) {
+      notFound();
+    }
+    // Upstream failures surface through the error boundary instead of a false 404
     console.error("Error fetching game:", error);
-    notFound();
+    throw error;
   }
+
+  return <GameDetailPage game={game} />;
 }
@@ -1,20 +1,40 @@
 "use client";
 
 import { useAuth } from "@/hooks/useAuth";
-import { useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useMemo, useState } from "react";
 import { GameCard } from "@/components/GameCard";
 import { OrderByDropdown } from "@/components/OrderByDropdown";
+import { GameFilterSidebar } from "@/components/GameFilterSidebar";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { RAWGGame, RAWGSearchResult } from "@/lib/rawg";
+import {
+  GameFilters,
+  parseGameFilters,
+  serializeGameFilters,
+} from "@/lib/game-filters";
 
-export default function GamesPage() {
+function GamesPageContent() {
   const { user, loading } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const [games, setGames] = useState<RAWGGame[]>([]);
   const [gamesLoading, setGamesLoading] = useState(true);
-  const [currentOrder, setCurrentOrder] = useState("-added");
+  // Ordering and filters live in the URL so filtered views can be shared
+  const currentOrder = searchParams?.get("ordering") || "-added";
+  const filterQuery = useMemo(
+    () =>
+      serializeGameFilters(
+        parseGameFilters(new URLSearchParams(searchParams?.toString()))
+      ).toString(),
+    [searchParams]
+  );
+  const filters = useMemo(
+    () => parseGameFilters(new URLSearchParams(filterQuery)),
+    [filterQuery]
+  );
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
@@ -46,10 +66,27 @@ export default function GamesPage() {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
-  // Reset to page 1 when order changes
+  // Reset to page 1 when order or filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [currentOrder]);
+  }, [currentOrder, filterQuery]);
+
+  const updateUrlParams = (update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(searchParams?.toString());
+    update(params);
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  const handleOrderChange = (order: string) => {
+    updateUrlParams((params) => params.set("ordering", order));
+  };
+
+  const handleFiltersChange = (nextFilters: GameFilters) => {
+    updateUrlParams((params) => serializeGameFilters(nextFilters, params));
+  };
 
   useEffect(() => {
     const fetchGames = async () => {
@@ -58,9 +95,17 @@ export default function GamesPage() {
 
         if (debouncedSearchQuery.trim()) {
           // Use search API if there's a search query
-          const url = `/api/games/search?query=${encodeURIComponent(
-            debouncedSearchQuery.trim()
-          )}&page=${currentPage}&pageSize=${pageSize}`;
+          const params = new URLSearchParams(filterQuery);
+          params.set("query", debouncedSearchQuery.trim());
+          // "-added" is the browse default, labelled Relevance in the dropdown
+          params.set(
+            "ordering",
+            currentOrder === "-added" ? "-relevance" : currentOrder
+          );
+          params.set("mode", "hybrid");
+          params.set("page", currentPage.toString());
+          params.set("pageSize", pageSize.toString());
+          const url = `/api/games/search?${params.toString()}`;
 
           const response = await fetch(url);
           if (response.ok) {
@@ -75,11 +120,10 @@ export default function GamesPage() {
           }
         } else {
           // Normal browsing without search
-          const params = new URLSearchParams({
-            ordering: currentOrder,
-            page: currentPage.toString(),
-            pageSize: pageSize.toString(),
-          });
+          const params = new URLSearchParams(filterQuery);
+          params.set("ordering", currentOrder);
+          params.set("page", currentPage.toString());
+          params.set("pageSize", pageSize.toString());
           const url = `/api/games/trending?${params.toString()}`;
 
           const response = await fetch(url);
@@ -104,7 +148,14 @@ export default function GamesPage() {
     if (user) {
       fetchGames();
     }
-  }, [user, currentOrder, debouncedSearchQuery, currentPage, pageSize]);
+  }, [
+    user,
+    currentOrder,
+    filterQuery,
+    debouncedSearchQuery,
+    currentPage,
+    pageSize,
+  ]);
 
   if (loading) {
     return (
@@ -147,196 +198,227 @@ export default function GamesPage() {
           <div className="mt-4 md:mt-0">
             <OrderByDropdown
               currentOrder={currentOrder}
-              onOrderChange={setCurrentOrder}
+              onOrderChange={handleOrderChange}
             />
           </div>
         </div>
 
-        {/* Search Bar */}
-        <div className="mb-6">
-          <div className="max-w-md">
-            <Input
-              type="text"
-              placeholder="Search games by title or tags..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full gaming-input"
-            />
-          </div>
-        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-8">
+          {/* Filter Sidebar */}
+          <GameFilterSidebar
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+          />
 
-        {/* Games Grid */}
-        {gamesLoading ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {Array.from({ length: 12 }).map((_, index) => (
-              <div key={index} className="gaming-card animate-pulse">
-                <div className="h-48 bg-gray-600 rounded-t-lg"></div>
-                <div className="p-4">
-                  <div className="h-6 bg-gray-600 rounded mb-2"></div>
-                  <div className="h-4 bg-gray-600 rounded w-2/3"></div>
-                </div>
+          <div>
+            {/* Search Bar */}
+            <div className="mb-6">
+              <div className="max-w-md">
+                <Input
+                  type="text"
+                  placeholder="Search games by title or tags..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-full gaming-input"
+                />
               </div>
-            ))}
-          </div>
-        ) : (
-          <>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {games.map((game) => (
-                <GameCard key={game.id} game={game} />
-              ))}
             </div>
 
-            {/* Pagination Controls */}
-            {paginationData.count > 0 && (
-              <div className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-4">
-                <div className="text-sm text-gray-400">
-                  Showing {(currentPage - 1) * pageSize + 1} to{" "}
-                  {Math.min(currentPage * pageSize, paginationData.count)} of{" "}
-                  {paginationData.count.toLocaleString()} games
+            {/* Games Grid */}
+            {gamesLoading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                {Array.from({ length: 12 }).map((_, index) => (
+                  <div key={index} className="gaming-card animate-pulse">
+                    <div className="h-48 bg-gray-600 rounded-t-lg"></div>
+                    <div className="p-4">
+                      <div className="h-6 bg-gray-600 rounded mb-2"></div>
+                      <div className="h-4 bg-gray-600 rounded w-2/3"></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                  {games.map((game) => (
+                    <GameCard key={game.id} game={game} />
+                  ))}
                 </div>
 
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="outline"
-                    onClick={() =>
-                      setCurrentPage((prev) => Math.max(1, prev - 1))
-                    }
-                    disabled={
-                      !paginationData.previous ||
-                      gamesLoading ||
-                      currentPage === 1
-                    }
-                    className="gaming-button"
-                  >
-                    <svg
-                      className="w-4 h-4"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M15 19l-7-7 7-7"
-                      />
-                    </svg>
-                    Previous
-                  </Button>
-
-                  <div className="flex items-center gap-1">
-                    {/* Page number buttons */}
-                    {(() => {
-                      const totalPages = Math.ceil(
-                        paginationData.count / pageSize
-                      );
-                      const maxVisiblePages = 7;
-                      const pages: (number | string)[] = [];
-
-                      if (totalPages <= maxVisiblePages) {
-                        // Show all pages if total is less than max
-                        for (let i = 1; i <= totalPages; i++) {
-                          pages.push(i);
+                {/* Pagination Controls */}
+                {paginationData.count > 0 && (
+                  <div className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-4">
+                    <div className="text-sm text-gray-400">
+                      Showing {(currentPage - 1) * pageSize + 1} to{" "}
+                      {Math.min(currentPage * pageSize, paginationData.count)} of{" "}
+                      {paginationData.count.toLocaleString()} games
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() =>
+                          setCurrentPage((prev) => Math.max(1, prev - 1))
                         }
-                      } else {
-                        // Show first page
-                        pages.push(1);
-
-                        // Calculate start and end of middle pages
-                        let start = Math.max(2, currentPage - 1);
-                        let end = Math.min(totalPages - 1, currentPage + 1);
-
-                        // Adjust if we're near the start
-                        if (currentPage <= 3) {
-                          start = 2;
-                          end = 4;
+                        disabled={
+                          !paginationData.previous ||
+                          gamesLoading ||
+                          currentPage === 1
                         }
+                        className="gaming-button"
+                      >
+                        <svg
+                          className="w-4 h-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M15 19l-7-7 7-7"
+                          />
+                        </svg>
+                        Previous
+                      </Button>
 
-                        // Adjust if we're near the end
-                        if (currentPage >= totalPages - 2) {
-                          start = totalPages - 3;
-                          end = totalPages - 1;
-                        }
+                      <div className="flex items-center gap-1">
+                        {/* Page number buttons */}
+                        {(() => {
+                          const totalPages = Math.ceil(
+                            paginationData.count / pageSize
+                          );
+                          const maxVisiblePages = 7;
+                          const pages: (number | string)[] = [];
 
-                        // Add ellipsis and middle pages
-                        if (start > 2) {
-                          pages.push("...");
-                        }
+                          if (totalPages <= maxVisiblePages) {
+                            // Show all pages if total is less than max
+                            for (let i = 1; i <= totalPages; i++) {
+                              pages.push(i);
+                            }
+                          } else {
+                            // Show first page
+                            pages.push(1);
 
-                        for (let i = start; i <= end; i++) {
-                          pages.push(i);
-                        }
+                            // Calculate start and end of middle pages
+                            let start = Math.max(2, currentPage - 1);
+                            let end = Math.min(totalPages - 1, currentPage + 1);
 
-                        if (end < totalPages - 1) {
-                          pages.push("...");
-                        }
+                            // Adjust if we're near the start
+                            if (currentPage <= 3) {
+                              start = 2;
+                              end = 4;
+                            }
 
-                        // Show last page
-                        pages.push(totalPages);
-                      }
-
-                      return pages.map((page, index) => {
-                        if (page === "...") {
-                          return (
-                            <span
-                              key={`ellipsis-${index}`}
-                              className="px-3 py-2 text-gray-400"
-                            >
-                              ...
-                            </span>
-                          );
-                        }
+                            // Adjust if we're near the end
+                            if (currentPage >= totalPages - 2) {
+                              start = totalPages - 3;
+                              end = totalPages - 1;
+                            }
 
-                        const pageNum = page as number;
-                        return (
-                          <Button
-                            key={pageNum}
-                            variant={
-                              currentPage === pageNum ? "default" : "outline"
+                            // Add ellipsis and middle pages
+                            if (start > 2) {
+                              pages.push("...");
                             }
-                            onClick={() => setCurrentPage(pageNum)}
-                            disabled={gamesLoading}
-                            className={
-                              currentPage === pageNum
-                                ? "gaming-button"
-                                : "gaming-button"
+
+                            for (let i = start; i <= end; i++) {
+                              pages.push(i);
                             }
-                            size="sm"
-                          >
-                            {pageNum}
-                          </Button>
-                        );
-                      });
-                    })()}
-                  </div>
 
-                  <Button
-                    variant="outline"
-                    onClick={() => setCurrentPage((prev) => prev + 1)}
-                    disabled={!paginationData.next || gamesLoading}
-                    className="gaming-button"
-                  >
-                    Next
-                    <svg
-                      className="w-4 h-4"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M9 5l7 7-7 7"
-                      />
-                    </svg>
-                  </Button>
-                </div>
-              </div>
+                            if (end < totalPages - 1) {
+                              pages.push("...");
+                            }
+
+                            // Show last page
+                            pages.push(totalPages);
+                          }
+
+                          return pages.map((page, index) => {
+                            if (page === "...") {
+                              return (
+                                <span
+                                  key={`ellipsis-${index}`}
+                                  className="px-3 py-2 text-gray-400"
+                                >
+                                  ...
+                                </span>
+                              );
+                            }
+
+                            const pageNum = page as number;
+                            return (
+                              <Button
+                                key={pageNum}
+                                variant={
+                                  currentPage === pageNum ? "default" : "outline"
+                                }
+                                onClick={() => setCurrentPage(pageNum)}
+                                disabled={gamesLoading}
+                                className={
+                                  currentPage === pageNum
+                                    ? "gaming-button"
+                                    : "gaming-button"
+                                }
+                                size="sm"
+                              >
+                                {pageNum}
+                              </Button>
+                            );
+                          });
+                        })()}
+                      </div>
+
+                      <Button
+                        variant="outline"
+                        onClick={() => setCurrentPage((prev) => prev + 1)}
+                        disabled={!paginationData.next || gamesLoading}
+                        className="gaming-button"
+                      >
+                        Next
+                        <svg
+                          className="w-4 h-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M9 5l7 7-7 7"
+                          />
+                        </svg>
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
             )}
-          </>
-        )}
+          </div>
+        </div>
       </section>
     </div>
   );
 }
+
+export default function GamesPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-md mx-auto text-center">
+            <div className="gaming-card p-8">
+              <h2 className="text-xl font-semibold mb-4">Loading...</h2>
+              <p className="text-muted-foreground">
+                Please wait while we load the games.
+              </p>
+            </div>
+          </div>
+        </div>
+      }
+    >
+      <GamesPageContent />
+    </Suspense>
+  );
+}
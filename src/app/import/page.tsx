@@ -0,0 +1,509 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  MAX_BATCH_OPERATIONS,
+  type InteractionOperation,
+} from "@/lib/interaction-history";
+import {
+  MATCH_CHUNK_SIZE,
+  type ImportFormat,
+  type ImportMatch,
+  type ImportMatchStatus,
+  type ImportRow,
+} from "@/lib/library-import";
+import type { InteractionAction } from "@/lib/supabase";
+
+const formats: Array<{ value: ImportFormat; label: string; hint: string }> = [
+  {
+    value: "csv",
+    label: "CSV (Backloggd, HowLongToBeat or your own)",
+    hint: "Needs a Title or Name column. Status, Liked, Favorite and HowLongToBeat's Playing/Backlog/Completed/Retired columns are picked up when present.",
+  },
+  {
+    value: "steam",
+    label: "Steam owned games (JSON)",
+    hint: "The response of GetOwnedGames with include_appinfo=1. Games with playtime are marked played, the rest go to your backlog.",
+  },
+];
+
+const actionLabels: Record<InteractionAction, string> = {
+  like: "Liked",
+  favorite: "Favorite",
+  played: "Played",
+  wishlist: "Want to Play",
+  playing: "Playing",
+  backlog: "Backlog",
+  dropped: "Dropped",
+};
+
+const statusFilters: Array<{ value: ImportMatchStatus | "all"; label: string }> =
+  [
+    { value: "all", label: "All" },
+    { value: "ambiguous", label: "Needs review" },
+    { value: "unmatched", label: "No match" },
+    { value: "matched", label: "Matched" },
+  ];
+
+interface ImportSummary {
+  applied: number;
+  unchanged: number;
+  failed: number;
+  games: number;
+}
+
+export default function ImportPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [file, setFile] = useState<File | null>(null);
+  const [defaultAction, setDefaultAction] =
+    useState<InteractionAction>("played");
+  const [matches, setMatches] = useState<ImportMatch[] | null>(null);
+  const [picks, setPicks] = useState<Array<string | null>>([]);
+  // Rows still waiting for a match after a chunk failed
+  const [pending, setPending] = useState<ImportRow[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [filter, setFilter] = useState<ImportMatchStatus | "all">("all");
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/auth/signin");
+    }
+  }, [user, loading, router]);
+
+  const preview = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/import/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ format, content: await file.text() }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(
+          [result.error, result.details].filter(Boolean).join(": ") ||
+            "Failed to read the file"
+        );
+        setWorking(false);
+        return;
+      }
+      setWarnings(result.data.errors);
+      setTruncated(result.data.truncated);
+      setPicks([]);
+      await matchRows(result.data.rows, []);
+    } catch (err) {
+      console.error("Error previewing import:", err);
+      setError("Failed to read the file");
+      setWorking(false);
+    }
+  };
+
+  // Match in chunks so each request stays short; a failed chunk leaves the
+  // rest in `pending` for the user to retry
+  const matchRows = async (rows: ImportRow[], matched: ImportMatch[]) => {
+    const all = [...matched];
+    let remaining = rows;
+
+    setWorking(true);
+    setError(null);
+    try {
+      while (remaining.length > 0) {
+        setProgress(
+          `Matching games... ${all.length} of ${all.length + remaining.length}`
+        );
+        const response = await fetch("/api/import/match", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ rows: remaining.slice(0, MATCH_CHUNK_SIZE) }),
+        });
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        all.push(...result.data.matches);
+        remaining = remaining.slice(MATCH_CHUNK_SIZE);
+      }
+    } catch (err) {
+      console.error("Error matching import:", err);
+      setError("Matching stopped partway; continue to match the rest.");
+    } finally {
+      setMatches(all);
+      setPicks((prev) => [
+        ...prev.slice(0, matched.length),
+        ...all.slice(matched.length).map((match) => match.selected),
+      ]);
+      setPending(remaining);
+      if (matched.length === 0) {
+        setFilter(
+          all.some((match) => match.status === "ambiguous")
+            ? "ambiguous"
+            : "all"
+        );
+      }
+      setProgress(null);
+      setWorking(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!matches) return;
+
+    const operations: InteractionOperation[] = [];
+    const games = new Set<string>();
+    matches.forEach((match, index) => {
+      const slug = picks[index];
+      if (!slug) return;
+      games.add(slug);
+      const actions = match.row.actions.length
+        ? match.row.actions
+        : [defaultAction];
+      for (const action of actions) {
+        operations.push({ gameId: slug, action, op: "add" });
+      }
+    });
+
+    setWorking(true);
+    setError(null);
+    const totals: ImportSummary = {
+      applied: 0,
+      unchanged: 0,
+      failed: 0,
+      games: games.size,
+    };
+    try {
+      for (let i = 0; i < operations.length; i += MAX_BATCH_OPERATIONS) {
+        const response = await fetch("/api/interactions/batch", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({
+            operations: operations.slice(i, i + MAX_BATCH_OPERATIONS),
+          }),
+        });
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        totals.applied += result.data.applied;
+        totals.unchanged += result.data.unchanged;
+        totals.failed += result.data.failed + result.data.invalid;
+      }
+      setSummary(totals);
+    } catch (err) {
+      console.error("Error importing library:", err);
+      setError("The import stopped partway; running it again is safe.");
+      setSummary(totals);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto text-center">
+          <div className="gaming-card p-8">
+            <h2 className="text-xl font-semibold mb-4">Loading...</h2>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  const selectedFormat = formats.find((option) => option.value === format)!;
+  const counts = (matches || []).reduce(
+    (acc, match) => ({ ...acc, [match.status]: acc[match.status] + 1 }),
+    { matched: 0, ambiguous: 0, unmatched: 0 } as Record<
+      ImportMatchStatus,
+      number
+    >
+  );
+  const pickedCount = picks.filter(Boolean).length;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <h1 className="text-4xl font-bold mb-2">Import your library</h1>
+      <p className="text-gray-400 mb-8">
+        Bring over what you&apos;ve played, are playing and want to play from
+        other trackers. You can review every match before anything is saved.
+      </p>
+
+      {summary ? (
+        <div className="gaming-card p-8 space-y-4">
+          <h2 className="text-2xl font-semibold">Import finished</h2>
+          <p className="text-gray-300">
+            {summary.games} games imported: {summary.applied} changes made,{" "}
+            {summary.unchanged} already in your library
+            {summary.failed > 0 && `, ${summary.failed} failed`}.
+          </p>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-3">
+            <Button asChild className="gaming-button">
+              <Link href="/my-library">Go to My Library</Link>
+            </Button>
+            <Button
+              variant="outline"
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+              onClick={() => {
+                setSummary(null);
+                setMatches(null);
+                setPending([]);
+                setFile(null);
+                setError(null);
+              }}
+            >
+              Import another file
+            </Button>
+          </div>
+        </div>
+      ) : !matches ? (
+        <form onSubmit={preview} className="gaming-card p-6 space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="import-format">Source</Label>
+            <select
+              id="import-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ImportFormat)}
+              className="w-full h-9 px-3 text-sm bg-gray-700 border border-gray-600 text-white rounded-md"
+            >
+              {formats.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400">{selectedFormat.hint}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <input
+              id="import-file"
+              type="file"
+              accept={format === "steam" ? ".json,application/json" : ".csv,text/csv"}
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-gray-300"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="import-default">
+              For games without a status, mark them as
+            </Label>
+            <select
+              id="import-default"
+              value={defaultAction}
+              onChange={(e) =>
+                setDefaultAction(e.target.value as InteractionAction)
+              }
+              className="w-full h-9 px-3 text-sm bg-gray-700 border border-gray-600 text-white rounded-md"
+            >
+              {Object.entries(actionLabels).map(([action, label]) => (
+                <option key={action} value={action}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-400 whitespace-pre-line">{error}</p>
+          )}
+
+          <Button
+            type="submit"
+            className="gaming-button"
+            disabled={!file || working}
+          >
+            {working ? progress ?? "Reading file..." : "Preview import"}
+          </Button>
+        </form>
+      ) : (
+        <div className="space-y-6">
+          <div className="gaming-card p-6 flex flex-wrap items-center justify-between gap-4">
+            <div className="text-sm text-gray-300 space-y-1">
+              <p>
+                {counts.matched} matched • {counts.ambiguous} need review •{" "}
+                {counts.unmatched} without a match
+              </p>
+              <p className="text-gray-400">
+                {pickedCount} of {matches.length} games will be imported
+              </p>
+              {pending.length > 0 && (
+                <p className="text-orange-400">
+                  {pending.length} games haven&apos;t been matched yet.
+                </p>
+              )}
+              {truncated && (
+                <p className="text-orange-400">
+                  Only the first {matches.length + pending.length} games of the
+                  file are shown; import the rest as a second file.
+                </p>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                onClick={() => {
+                  setMatches(null);
+                  setPending([]);
+                }}
+                disabled={working}
+              >
+                Back
+              </Button>
+              {pending.length > 0 && (
+                <Button
+                  variant="outline"
+                  className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                  onClick={() => matchRows(pending, matches)}
+                  disabled={working}
+                >
+                  {working
+                    ? progress ?? "Matching games..."
+                    : `Continue matching (${pending.length} left)`}
+                </Button>
+              )}
+              <Button
+                className="gaming-button"
+                onClick={runImport}
+                disabled={working || pickedCount === 0}
+              >
+                {working && !progress
+                  ? "Importing..."
+                  : `Import ${pickedCount} games`}
+              </Button>
+            </div>
+          </div>
+
+          {warnings.length > 0 && (
+            <details className="text-sm text-gray-400">
+              <summary className="cursor-pointer">
+                {warnings.length} lines were skipped or adjusted
+              </summary>
+              <ul className="mt-2 space-y-1">
+                {warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            {statusFilters.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={filter === option.value ? "default" : "outline"}
+                className={
+                  filter === option.value
+                    ? "gaming-button"
+                    : "border-gray-600 text-gray-300 hover:bg-gray-700"
+                }
+                onClick={() => setFilter(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          <ul className="space-y-3">
+            {matches.map((match, index) => {
+              if (filter !== "all" && match.status !== filter) return null;
+              const pick = picks[index];
+              const picked = match.candidates.find(
+                (candidate) => candidate.slug === pick
+              );
+              const actions = match.row.actions.length
+                ? match.row.actions
+                : [defaultAction];
+
+              return (
+                <li
+                  key={index}
+                  className="gaming-card p-4 flex flex-wrap items-center gap-4"
+                >
+                  <div className="relative w-20 h-12 rounded overflow-hidden bg-gray-700 flex-shrink-0">
+                    {picked?.background_image && (
+                      <Image
+                        src={picked.background_image}
+                        alt=""
+                        fill
+                        sizes="80px"
+                        className="object-cover"
+                      />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-[12rem]">
+                    <p className="font-semibold text-white">
+                      {match.row.title}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {actions.map((action) => actionLabels[action]).join(", ")}
+                    </p>
+                  </div>
+                  <select
+                    aria-label={`Game for ${match.row.title}`}
+                    value={pick ?? ""}
+                    onChange={(e) =>
+                      setPicks((prev) =>
+                        prev.map((value, i) =>
+                          i === index ? e.target.value || null : value
+                        )
+                      )
+                    }
+                    className={`h-9 px-3 text-sm bg-gray-700 border text-white rounded-md max-w-xs ${
+                      match.status === "ambiguous" && !pick
+                        ? "border-orange-400"
+                        : "border-gray-600"
+                    }`}
+                  >
+                    <option value="">
+                      {match.candidates.length
+                        ? "Skip this game"
+                        : "No match found, skipped"}
+                    </option>
+                    {match.candidates.map((candidate) => (
+                      <option key={candidate.slug} value={candidate.slug}>
+                        {candidate.name}
+                        {candidate.year ? ` (${candidate.year})` : ""} –{" "}
+                        {Math.round(candidate.score * 100)}%
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { RATING_LABELS } from "@/lib/ratings";
+import type { Review } from "@/lib/reviews";
+
+interface QueueItem {
+  review: Review;
+  reports: Array<{ id: string; reason: string; created_at: string }>;
+}
+
+export default function ModerationPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [queueLoading, setQueueLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/auth/signin");
+    }
+  }, [user, loading, router]);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setQueueLoading(true);
+      const response = await fetch("/api/moderation/reviews", {
+        credentials: "include",
+      });
+      if (response.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      const result = await response.json();
+      if (result.success) {
+        setQueue(result.data);
+      }
+    } catch (error) {
+      console.error("Error fetching moderation queue:", error);
+    } finally {
+      setQueueLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) fetchQueue();
+  }, [user, fetchQueue]);
+
+  const resolve = async (reviewId: string, action: "dismiss" | "remove") => {
+    setBusyId(reviewId);
+    try {
+      const response = await fetch(`/api/moderation/reviews/${reviewId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ action }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setQueue((prev) => prev.filter((item) => item.review.id !== reviewId));
+      } else {
+        alert(result.error || "Failed to resolve review");
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading || (queueLoading && !forbidden)) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto text-center">
+          <div className="gaming-card p-8">
+            <h2 className="text-xl font-semibold mb-4">Loading...</h2>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  if (forbidden) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto text-center gaming-card p-8">
+          <h2 className="text-xl font-semibold mb-2">Moderators only</h2>
+          <p className="text-gray-400">
+            Your account doesn&apos;t have access to the moderation queue.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-4xl font-bold mb-2">Moderation queue</h1>
+      <p className="text-gray-400 mb-8">
+        Reported reviews, most reported first. Dismiss keeps the review up;
+        remove hides it from the game page.
+      </p>
+
+      {queue.length === 0 ? (
+        <div className="gaming-card p-8 text-center text-gray-400">
+          Nothing to review right now.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {queue.map(({ review, reports }) => (
+            <div key={review.id} className="gaming-card p-6 space-y-4">
+              <div>
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <h2 className="text-xl font-semibold">{review.title}</h2>
+                  <span className="text-sm text-gray-400">
+                    {RATING_LABELS[review.rating]}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  {review.author_name} on{" "}
+                  <Link
+                    href={`/games/${review.game_id}`}
+                    className="underline hover:text-white"
+                  >
+                    {review.game_id}
+                  </Link>
+                </p>
+                <p className="text-gray-300 whitespace-pre-line mt-3">
+                  {review.body}
+                </p>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-red-400 mb-2">
+                  {reports.length} report{reports.length === 1 ? "" : "s"}
+                </h3>
+                <ul className="space-y-1 text-sm text-gray-300">
+                  {reports.map((report) => (
+                    <li key={report.id}>“{report.reason}”</li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                  disabled={busyId === review.id}
+                  onClick={() => resolve(review.id, "dismiss")}
+                >
+                  Dismiss reports
+                </Button>
+                <Button
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                  disabled={busyId === review.id}
+                  onClick={() => resolve(review.id, "remove")}
+                >
+                  Remove review
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
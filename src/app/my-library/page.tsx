@@ -13,31 +13,119 @@ import {
 } from "@/components/ui/card";
 import { GameCard } from "@/components/GameCard";
 import { RAWGGame } from "@/lib/rawg";
+import type { InteractionAction } from "@/lib/supabase";
 
-interface InteractionStats {
-  liked: number;
-  favorite: number;
-  played: number;
+type StatKey =
+  | "liked"
+  | "favorite"
+  | "played"
+  | "wishlist"
+  | "playing"
+  | "backlog"
+  | "dropped";
+
+type InteractionStats = Record<StatKey, number> & {
+  hoursPlayed: number;
+  sessions: number;
+  gamesWithSessions: number;
+};
+
+interface Shelf {
+  action: InteractionAction;
+  statKey: StatKey;
+  title: string;
+  icon: string;
+  titleClass: string;
+  emptyText: string;
 }
 
+const shelves: Shelf[] = [
+  {
+    action: "like",
+    statKey: "liked",
+    title: "Liked Games",
+    icon: "❤️",
+    titleClass: "text-red-400",
+    emptyText:
+      "Start exploring games and like the ones you're interested in to build your collection",
+  },
+  {
+    action: "favorite",
+    statKey: "favorite",
+    title: "Favorites",
+    icon: "⭐",
+    titleClass: "text-yellow-400",
+    emptyText:
+      "Mark your all-time favorite games to keep track of the ones you love most",
+  },
+  {
+    action: "played",
+    statKey: "played",
+    title: "Played Games",
+    icon: "✅",
+    titleClass: "text-green-400",
+    emptyText:
+      "Track the games you've completed or played to build your gaming history",
+  },
+  {
+    action: "playing",
+    statKey: "playing",
+    title: "Currently Playing",
+    icon: "🎮",
+    titleClass: "text-purple-400",
+    emptyText: "Games you mark as playing show up here",
+  },
+  {
+    action: "wishlist",
+    statKey: "wishlist",
+    title: "Want to Play",
+    icon: "🎯",
+    titleClass: "text-blue-400",
+    emptyText: "Keep a list of the games you want to try next",
+  },
+  {
+    action: "backlog",
+    statKey: "backlog",
+    title: "Backlog",
+    icon: "📚",
+    titleClass: "text-orange-400",
+    emptyText: "Games you own but haven't started yet go here",
+  },
+  {
+    action: "dropped",
+    statKey: "dropped",
+    title: "Dropped",
+    icon: "🚫",
+    titleClass: "text-gray-400",
+    emptyText: "Games you gave up on end up here",
+  },
+];
+
+const emptyStats: InteractionStats = {
+  liked: 0,
+  favorite: 0,
+  played: 0,
+  wishlist: 0,
+  playing: 0,
+  backlog: 0,
+  dropped: 0,
+  hoursPlayed: 0,
+  sessions: 0,
+  gamesWithSessions: 0,
+};
+
 export default function MyLibraryPage() {
   const { user, loading } = useAuth();
   const router = useRouter();
-  const [stats, setStats] = useState<InteractionStats>({
-    liked: 0,
-    favorite: 0,
-    played: 0,
-  });
+  const [stats, setStats] = useState<InteractionStats>(emptyStats);
   const [statsLoading, setStatsLoading] = useState(true);
-  const [likedGames, setLikedGames] = useState<RAWGGame[]>([]);
-  const [favoriteGames, setFavoriteGames] = useState<RAWGGame[]>([]);
-  const [playedGames, setPlayedGames] = useState<RAWGGame[]>([]);
+  const [shelfGames, setShelfGames] = useState<
+    Partial<Record<InteractionAction, RAWGGame[]>>
+  >({});
   const [gamesLoading, setGamesLoading] = useState(true);
-  const [expandedSections, setExpandedSections] = useState({
-    liked: false,
-    favorite: false,
-    played: false,
-  });
+  const [expandedSections, setExpandedSections] = useState<
+    Partial<Record<InteractionAction, boolean>>
+  >({});
 
   const MAX_GAMES_INITIAL = 8;
 
@@ -59,7 +147,7 @@ export default function MyLibraryPage() {
         if (response.ok) {
           const result = await response.json();
           if (result.success) {
-            setStats(result.data);
+            setStats({ ...emptyStats, ...result.data });
           }
         }
       } catch (error) {
@@ -78,39 +166,18 @@ export default function MyLibraryPage() {
     const fetchAllGames = async () => {
       try {
         setGamesLoading(true);
-        const [likedResponse, favoriteResponse, playedResponse] =
-          await Promise.all([
-            fetch("/api/interactions/games?action=like", {
-              credentials: "include",
-            }),
-            fetch("/api/interactions/games?action=favorite", {
-              credentials: "include",
-            }),
-            fetch("/api/interactions/games?action=played", {
-              credentials: "include",
-            }),
-          ]);
-
-        if (likedResponse.ok) {
-          const result = await likedResponse.json();
-          if (result.success) {
-            setLikedGames(result.data);
-          }
-        }
-
-        if (favoriteResponse.ok) {
-          const result = await favoriteResponse.json();
-          if (result.success) {
-            setFavoriteGames(result.data);
-          }
-        }
-
-        if (playedResponse.ok) {
-          const result = await playedResponse.json();
-          if (result.success) {
-            setPlayedGames(result.data);
-          }
-        }
+        const entries = await Promise.all(
+          shelves.map(async (shelf) => {
+            const response = await fetch(
+              `/api/interactions/games?action=${shelf.action}`,
+              { credentials: "include" }
+            );
+            if (!response.ok) return [shelf.action, []] as const;
+            const result = await response.json();
+            return [shelf.action, result.success ? result.data : []] as const;
+          })
+        );
+        setShelfGames(Object.fromEntries(entries));
       } catch (error) {
         console.error("Error fetching games:", error);
       } finally {
@@ -140,10 +207,13 @@ export default function MyLibraryPage() {
     return null; // Will redirect in useEffect
   }
 
-  const totalInteractions = stats.liked + stats.favorite + stats.played;
+  const totalInteractions = shelves.reduce(
+    (sum, shelf) => sum + stats[shelf.statKey],
+    0
+  );
   const showGettingStarted = totalInteractions === 0;
 
-  const toggleSection = (section: "liked" | "favorite" | "played") => {
+  const toggleSection = (section: InteractionAction) => {
     setExpandedSections((prev) => ({
       ...prev,
       [section]: !prev[section],
@@ -152,7 +222,7 @@ export default function MyLibraryPage() {
 
   const getDisplayedGames = (
     games: RAWGGame[],
-    section: "liked" | "favorite" | "played"
+    section: InteractionAction
   ) => {
     if (expandedSections[section] || games.length <= MAX_GAMES_INITIAL) {
       return games;
@@ -167,124 +237,67 @@ export default function MyLibraryPage() {
         <h1 className="text-4xl md:text-5xl font-bold mb-4 gaming-gradient">
           My Library
         </h1>
-        <p className="text-xl text-muted-foreground">
-          Your personal game collection and preferences
-        </p>
-      </section>
-
-      {/* Liked Games Section */}
-      <section className="mb-12">
-        <div className="flex items-center gap-3 mb-6">
-          <h2 className="text-3xl font-bold text-red-400 flex items-center gap-2">
-            <span>❤️</span> Liked Games
-          </h2>
-          <span className="text-xl text-gray-400">
-            ({statsLoading ? "..." : stats.liked})
-          </span>
-        </div>
-        {likedGames.length > 0 ? (
-          <>
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-              {getDisplayedGames(likedGames, "liked").map((game) => (
-                <GameCard key={game.id} game={game} />
-              ))}
-            </div>
-            {likedGames.length > MAX_GAMES_INITIAL && (
-              <div className="mt-6 text-center">
-                <Button
-                  className="gaming-button px-6 py-2"
-                  onClick={() => toggleSection("liked")}
-                >
-                  {expandedSections.liked ? "Show Less" : "Show More"}
-                </Button>
-              </div>
-            )}
-          </>
-        ) : (
-          <div className="gaming-card p-8 text-center">
-            <p className="text-gray-400 text-lg">
-              Start exploring games and like the ones you&apos;re interested in
-              to build your collection
-            </p>
-          </div>
-        )}
-      </section>
-
-      {/* Favorites Section */}
-      <section className="mb-12">
-        <div className="flex items-center gap-3 mb-6">
-          <h2 className="text-3xl font-bold text-yellow-400 flex items-center gap-2">
-            <span>⭐</span> Favorites
-          </h2>
-          <span className="text-xl text-gray-400">
-            ({statsLoading ? "..." : stats.favorite})
-          </span>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-xl text-muted-foreground">
+            Your personal game collection and preferences
+          </p>
+          <Button
+            variant="outline"
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            onClick={() => router.push("/import")}
+          >
+            Import library
+          </Button>
         </div>
-        {favoriteGames.length > 0 ? (
-          <>
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-              {getDisplayedGames(favoriteGames, "favorite").map((game) => (
-                <GameCard key={game.id} game={game} />
-              ))}
-            </div>
-            {favoriteGames.length > MAX_GAMES_INITIAL && (
-              <div className="mt-6 text-center">
-                <Button
-                  className="gaming-button px-6 py-2"
-                  onClick={() => toggleSection("favorite")}
-                >
-                  {expandedSections.favorite ? "Show Less" : "Show More"}
-                </Button>
-              </div>
-            )}
-          </>
-        ) : (
-          <div className="gaming-card p-8 text-center">
-            <p className="text-gray-400 text-lg">
-              Mark your all-time favorite games to keep track of the ones you
-              love most
-            </p>
-          </div>
+        {stats.sessions > 0 && (
+          <p className="mt-2 text-gray-400">
+            {stats.hoursPlayed} hours logged across {stats.sessions} session
+            {stats.sessions === 1 ? "" : "s"} of {stats.gamesWithSessions} game
+            {stats.gamesWithSessions === 1 ? "" : "s"}
+          </p>
         )}
       </section>
 
-      {/* Played Games Section */}
-      <section className="mb-12">
-        <div className="flex items-center gap-3 mb-6">
-          <h2 className="text-3xl font-bold text-green-400 flex items-center gap-2">
-            <span>✅</span> Played Games
-          </h2>
-          <span className="text-xl text-gray-400">
-            ({statsLoading ? "..." : stats.played})
-          </span>
-        </div>
-        {playedGames.length > 0 ? (
-          <>
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-              {getDisplayedGames(playedGames, "played").map((game) => (
-                <GameCard key={game.id} game={game} />
-              ))}
+      {shelves.map((shelf) => {
+        const games = shelfGames[shelf.action] || [];
+        return (
+          <section key={shelf.action} className="mb-12">
+            <div className="flex items-center gap-3 mb-6">
+              <h2
+                className={`text-3xl font-bold flex items-center gap-2 ${shelf.titleClass}`}
+              >
+                <span>{shelf.icon}</span> {shelf.title}
+              </h2>
+              <span className="text-xl text-gray-400">
+                ({statsLoading ? "..." : stats[shelf.statKey]})
+              </span>
             </div>
-            {playedGames.length > MAX_GAMES_INITIAL && (
-              <div className="mt-6 text-center">
-                <Button
-                  className="gaming-button px-6 py-2"
-                  onClick={() => toggleSection("played")}
-                >
-                  {expandedSections.played ? "Show Less" : "Show More"}
-                </Button>
+            {games.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                  {getDisplayedGames(games, shelf.action).map((game) => (
+                    <GameCard key={game.id} game={game} />
+                  ))}
+                </div>
+                {games.length > MAX_GAMES_INITIAL && (
+                  <div className="mt-6 text-center">
+                    <Button
+                      className="gaming-button px-6 py-2"
+                      onClick={() => toggleSection(shelf.action)}
+                    >
+                      {expandedSections[shelf.action] ? "Show Less" : "Show More"}
+                    </Button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="gaming-card p-8 text-center">
+                <p className="text-gray-400 text-lg">{shelf.emptyText}</p>
               </div>
             )}
-          </>
-        ) : (
-          <div className="gaming-card p-8 text-center">
-            <p className="text-gray-400 text-lg">
-              Track the games you&apos;ve completed or played to build your
-              gaming history
-            </p>
-          </div>
-        )}
-      </section>
+          </section>
+        );
+      })}
 
       {/* Getting Started Section - Only show if user has no interactions */}
       {showGettingStarted && (
@@ -314,6 +327,13 @@ export default function MyLibraryPage() {
                 >
                   Get Recommendations
                 </Button>
+                <Button
+                  variant="outline"
+                  className="px-8 py-3 border-gray-600 text-gray-300 hover:bg-gray-700"
+                  onClick={() => router.push("/import")}
+                >
+                  Import from Steam or a CSV
+                </Button>
               </div>
             </CardContent>
           </Card>
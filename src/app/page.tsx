@@ -1,7 +1,12 @@
 import { createClient } from "@/lib/supabase-server";
+import { isSupabaseConfigured } from "@/lib/supabase";
 import { redirect } from "next/navigation";
 
 export default async function RootPage() {
+  if (!isSupabaseConfigured()) {
+    redirect("/home");
+  }
+
   const supabase = await createClient();
   const {
     data: { user },
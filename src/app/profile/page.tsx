@@ -2,7 +2,7 @@
 
 import { useAuth } from "@/hooks/useAuth";
 import { useRouter } from "next/navigation";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -11,11 +11,14 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { supabase } from "@/lib/supabase";
+import { ActivityTimeline } from "@/components/ActivityTimeline";
+import { getSupabaseBrowserClient } from "@/lib/supabase";
 
 export default function ProfilePage() {
   const { user, loading } = useAuth();
   const router = useRouter();
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -25,13 +28,47 @@ export default function ProfilePage() {
 
   const handleSignOut = async () => {
     try {
-      const { error } = await supabase.auth.signOut();
+      const { error } = await getSupabaseBrowserClient().auth.signOut();
       if (error) throw error;
     } catch (error) {
       console.error("Error signing out:", error);
     }
   };
 
+  const handleDeleteAccount = async () => {
+    const confirmed = window.confirm(
+      "Delete your account? Your library, ratings, play sessions and recommendations will be removed permanently. Reviews, comments and public collections stay up as \"Deleted user\"."
+    );
+    if (!confirmed) return;
+
+    const typed = window.prompt("Type DELETE to confirm.");
+    if (typed !== "DELETE") return;
+
+    try {
+      setDeleting(true);
+      setDeleteError(null);
+      const response = await fetch("/api/account", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ confirmation: typed }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to delete account");
+      }
+
+      await getSupabaseBrowserClient().auth.signOut();
+      router.push("/");
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      setDeleteError(
+        error instanceof Error ? error.message : "Failed to delete account"
+      );
+      setDeleting(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -101,6 +138,22 @@ export default function ProfilePage() {
           </CardContent>
         </Card>
 
+        {/* Activity */}
+        <Card className="gaming-card mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-purple-400">
+              🕒 Activity
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CardDescription className="mb-6">
+              Everything you&apos;ve liked, favorited or shelved, newest
+              first.
+            </CardDescription>
+            <ActivityTimeline />
+          </CardContent>
+        </Card>
+
         {/* Preferences */}
         <Card className="gaming-card mb-8">
           <CardHeader>
@@ -166,13 +219,38 @@ export default function ProfilePage() {
                 Sign Out
               </Button>
 
+              <div className="grid grid-cols-2 gap-4">
+                <Button
+                  asChild
+                  variant="outline"
+                  className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                >
+                  <a href="/api/account/export?format=json" download>
+                    Download my data (JSON)
+                  </a>
+                </Button>
+                <Button
+                  asChild
+                  variant="outline"
+                  className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                >
+                  <a href="/api/account/export?format=csv" download>
+                    Download my data (CSV)
+                  </a>
+                </Button>
+              </div>
+
               <Button
+                onClick={handleDeleteAccount}
                 variant="outline"
-                className="w-full border-gray-600 text-gray-400 hover:bg-gray-600/10"
-                disabled
+                className="w-full border-red-700 text-red-500 hover:bg-red-700/10"
+                disabled={deleting}
               >
-                Delete Account (Coming Soon)
+                {deleting ? "Deleting account..." : "Delete Account"}
               </Button>
+              {deleteError && (
+                <p className="text-sm text-red-400">{deleteError}</p>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -12,32 +12,14 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { GameCard } from "@/components/GameCard";
-import { RAWGGame } from "@/lib/rawg";
-
-interface DatabaseGame {
-  id: string;
-  rawg_id?: number;
-  name: string;
-  slug: string;
-  description?: string | null;
-  released?: string | null;
-  background_image?: string | null;
-  website?: string | null;
-  rating?: number | null;
-  rating_top?: number | null;
-  metacritic?: number | null;
-  playtime?: number | null;
-  genres?: Array<{ id: number; name: string; slug: string }> | string[] | null;
-  tags?: Array<{ id: number; name: string; slug: string }> | string[] | null;
-  platforms?: Array<{ id: number; name: string; slug: string }> | null;
-}
+import { gameRowToSummary, type GameRow } from "@/lib/game-normalization";
 
 interface Recommendation {
   id: string;
   gameId: string;
   score: number;
   reason: string;
-  game: DatabaseGame;
+  game: GameRow;
 }
 
 export default function RecommendationsPage() {
@@ -126,52 +108,6 @@ export default function RecommendationsPage() {
     return null; // Will redirect in useEffect
   }
 
-  // Convert database game format to RAWGGame format for GameCard
-  const convertToRAWGGame = (game: DatabaseGame): RAWGGame => {
-    return {
-      id: game.rawg_id || parseInt(game.id) || 0,
-      name: game.name,
-      slug: game.slug,
-      description: game.description || "",
-      description_raw: game.description || "",
-      released: game.released || "",
-      background_image: game.background_image || "",
-      background_image_additional: "",
-      website: game.website || "",
-      rating: game.rating || 0,
-      rating_top: game.rating_top || 5,
-      metacritic: game.metacritic ?? 0,
-      playtime: game.playtime || 0,
-      platforms: Array.isArray(game.platforms)
-        ? game.platforms.map((p) => {
-            const platform = typeof p === 'string' 
-              ? { id: 0, name: p, slug: "" }
-              : { id: p.id || 0, name: p.name || "", slug: p.slug || "" };
-            return {
-              platform,
-            };
-          })
-        : [],
-      genres: Array.isArray(game.genres)
-        ? game.genres.map((g) => {
-            return typeof g === 'string'
-              ? { id: 0, name: g, slug: "" }
-              : { id: g.id || 0, name: g.name || "", slug: g.slug || "" };
-          })
-        : [],
-      tags: Array.isArray(game.tags)
-        ? game.tags.map((t) => {
-            return typeof t === 'string'
-              ? { id: 0, name: t, slug: "" }
-              : { id: t.id || 0, name: t.name || "", slug: t.slug || "" };
-          })
-        : [],
-      developers: [],
-      publishers: [],
-      stores: [],
-    };
-  };
-
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Header Section */}
@@ -240,7 +176,7 @@ export default function RecommendationsPage() {
             {recommendations.map((rec) => {
               if (!rec.game) return null;
 
-              const game = convertToRAWGGame(rec.game);
+              const game = gameRowToSummary(rec.game);
               return (
                 <div key={rec.id} className="relative">
                   <GameCard game={game} />
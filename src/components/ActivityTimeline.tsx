@@ -0,0 +1,111 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  INTERACTION_EVENT_LABELS,
+  type InteractionHistoryEntry,
+} from "@/lib/interaction-history";
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export function ActivityTimeline() {
+  const [entries, setEntries] = useState<InteractionHistoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (cursor) params.set("cursor", cursor);
+      const response = await fetch(`/api/interactions/history?${params}`, {
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (result.success) {
+        setEntries((prev) =>
+          cursor ? [...prev, ...result.data.results] : result.data.results
+        );
+        setNextCursor(result.data.nextCursor);
+      }
+    } catch (error) {
+      console.error("Error fetching activity:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPage(null);
+  }, [fetchPage]);
+
+  if (!loading && entries.length === 0) {
+    return (
+      <p className="text-gray-400">
+        Nothing yet. Likes, favorites and play statuses you set show up here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="space-y-3">
+        {entries.map((entry) => (
+          <li key={entry.id} className="flex items-center gap-3">
+            <div className="relative w-12 h-8 bg-gray-600 rounded overflow-hidden flex-shrink-0">
+              {entry.game?.background_image && (
+                <Image
+                  src={entry.game.background_image}
+                  alt=""
+                  fill
+                  sizes="48px"
+                  className="object-cover"
+                />
+              )}
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-white truncate">
+                {INTERACTION_EVENT_LABELS[entry.action][entry.event]}{" "}
+                <Link
+                  href={`/games/${entry.game_id}`}
+                  className="font-semibold hover:text-purple-300"
+                >
+                  {entry.game?.name ?? entry.game_id}
+                </Link>
+              </p>
+              <p className="text-xs text-gray-400">
+                {formatTime(entry.created_at)}
+                {entry.is_undo && " • via undo"}
+                {entry.automatic && " • replaced by a new status"}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : (
+        nextCursor && (
+          <Button
+            variant="outline"
+            className="w-full border-gray-600 text-gray-300 hover:bg-gray-700"
+            onClick={() => fetchPage(nextCursor)}
+          >
+            Show older activity
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
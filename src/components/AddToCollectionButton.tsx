@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { COLLECTION_LIMITS, type CollectionSummary } from "@/lib/collections";
+
+interface AddToCollectionButtonProps {
+  gameSlug: string;
+  /** "icon" is the compact overlay used on game cards */
+  variant?: "icon" | "button";
+}
+
+export function AddToCollectionButton({
+  gameSlug,
+  variant = "button",
+}: AddToCollectionButtonProps) {
+  const { user } = useAuth();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    const fetchCollections = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(
+          `/api/collections?gameId=${encodeURIComponent(gameSlug)}`,
+          { credentials: "include" }
+        );
+        const result = await response.json();
+        if (result.success) {
+          setCollections(result.data);
+        }
+      } catch (error) {
+        console.error("Error fetching collections:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCollections();
+  }, [isOpen, user, gameSlug]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  if (!user && variant === "icon") {
+    return null;
+  }
+
+  const toggleOpen = (event: React.MouseEvent) => {
+    // Cards wrap their content in a link; don't navigate
+    event.preventDefault();
+    event.stopPropagation();
+    if (!user) {
+      alert("Please sign in to save games to collections");
+      return;
+    }
+    setIsOpen((open) => !open);
+  };
+
+  const toggleGame = async (collection: CollectionSummary) => {
+    setPendingId(collection.id);
+    try {
+      const response = collection.contains_game
+        ? await fetch(
+            `/api/collections/${collection.id}/games?gameId=${encodeURIComponent(gameSlug)}`,
+            { method: "DELETE", credentials: "include" }
+          )
+        : await fetch(`/api/collections/${collection.id}/games`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify({ gameId: gameSlug }),
+          });
+      const result = await response.json();
+      if (result.success) {
+        setCollections((prev) =>
+          prev.map((c) =>
+            c.id === collection.id
+              ? {
+                  ...c,
+                  contains_game: !c.contains_game,
+                  game_count: c.game_count + (c.contains_game ? -1 : 1),
+                }
+              : c
+          )
+        );
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const createCollection = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setPendingId("new");
+    try {
+      const response = await fetch("/api/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setNewName("");
+        const created: CollectionSummary = {
+          ...result.data,
+          contains_game: false,
+        };
+        setCollections((prev) => [created, ...prev]);
+        await toggleGame(created);
+      } else {
+        alert(result.error || "Failed to create collection");
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      {variant === "icon" ? (
+        <button
+          type="button"
+          onClick={toggleOpen}
+          aria-label="Save to collection"
+          aria-expanded={isOpen}
+          className="bg-black/70 hover:bg-purple-600 rounded-full w-8 h-8 flex items-center justify-center text-white text-lg leading-none transition-colors"
+        >
+          +
+        </button>
+      ) : (
+        <Button
+          variant="outline"
+          onClick={toggleOpen}
+          aria-expanded={isOpen}
+          className="border-gray-600 text-gray-300 hover:bg-gray-700"
+        >
+          <svg
+            className="w-4 h-4 mr-2"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2H5a2 2 0 00-2-2z"
+            />
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M8 5a2 2 0 012-2h4a2 2 0 012 2v2H8V5z"
+            />
+          </svg>
+          Save to Collection
+        </Button>
+      )}
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-64 bg-gray-800 border border-gray-600 rounded-lg shadow-lg z-50 p-3 space-y-3 text-left"
+          onClick={(event) => event.stopPropagation()}
+        >
+          <p className="text-sm font-semibold text-white">Save to collection</p>
+
+          {loading ? (
+            <p className="text-sm text-gray-400">Loading...</p>
+          ) : collections.length === 0 ? (
+            <p className="text-sm text-gray-400">No collections yet.</p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto space-y-1">
+              {collections.map((collection) => (
+                <li key={collection.id}>
+                  <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer px-1 py-1 rounded hover:bg-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!!collection.contains_game}
+                      disabled={pendingId !== null}
+                      onChange={() => toggleGame(collection)}
+                    />
+                    <span className="truncate flex-1">{collection.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {collection.is_public ? "Public" : "Private"}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={createCollection} className="flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              maxLength={COLLECTION_LIMITS.name}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New collection"
+              className="flex-1 min-w-0 px-2 py-1 text-sm bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded focus:outline-none focus:border-purple-500"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              className="gaming-button"
+              disabled={pendingId !== null || !newName.trim()}
+            >
+              Add
+            </Button>
+          </form>
+
+          <Link
+            href="/collections"
+            className="block text-xs text-gray-400 hover:text-white underline"
+          >
+            Manage collections
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import type { CollectionSummary } from "@/lib/collections";
+
+interface GameCollectionsPanelProps {
+  gameSlug: string;
+  gameName: string;
+}
+
+export function GameCollectionsPanel({
+  gameSlug,
+  gameName,
+}: GameCollectionsPanelProps) {
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [count, setCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCollections = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/games/${gameSlug}/collections`);
+        const result = await response.json();
+        if (result.success) {
+          setCollections(result.data.results);
+          setCount(result.data.count);
+        }
+      } catch (error) {
+        console.error("Error fetching collections:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCollections();
+  }, [gameSlug]);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold">Collections with {gameName}</h3>
+        <span className="text-sm text-gray-400">
+          {count} collection{count === 1 ? "" : "s"}
+        </span>
+      </div>
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : collections.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Not in any public collections yet.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {collections.map((collection) => (
+            <Link
+              key={collection.id}
+              href={`/collections/${collection.id}`}
+              className="flex items-center gap-3 group"
+            >
+              <div className="relative w-12 h-8 bg-gray-600 rounded overflow-hidden flex-shrink-0">
+                {collection.cover_image && (
+                  <Image
+                    src={collection.cover_image}
+                    alt=""
+                    fill
+                    sizes="48px"
+                    className="object-cover"
+                  />
+                )}
+              </div>
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate group-hover:text-purple-300">
+                  {collection.name}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {collection.game_count} GAMES •{" "}
+                  {collection.owner_name.toUpperCase()}
+                </p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,415 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  COMMENT_MAX_LENGTH,
+  MAX_COMMENT_DEPTH,
+  type Comment,
+} from "@/lib/comments";
+
+/** Links to `#write-comment` focus the game-level comment box */
+export const WRITE_COMMENT_HASH = "#write-comment";
+
+const bodyClasses =
+  "text-gray-300 text-sm [&_p]:mb-2 [&_p:last-child]:mb-0 [&_a]:text-purple-400 [&_a]:underline [&_code]:bg-gray-700 [&_code]:px-1 [&_code]:rounded [&_blockquote]:border-l-2 [&_blockquote]:border-gray-600 [&_blockquote]:pl-3 [&_blockquote]:text-gray-400 [&_blockquote]:mb-2";
+
+/**
+ * Apply fn to the comment with the given id, wherever it sits in the tree
+ * fn returning null removes the comment.
+ */
+function updateTree(
+  comments: Comment[],
+  id: string,
+  fn: (comment: Comment) => Comment | null
+): Comment[] {
+  return comments.flatMap((comment) => {
+    if (comment.id === id) {
+      const next = fn(comment);
+      return next ? [next] : [];
+    }
+    return [{ ...comment, replies: updateTree(comment.replies, id, fn) }];
+  });
+}
+
+interface CommentBoxProps {
+  initial?: string;
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  textareaRef?: React.RefObject<HTMLTextAreaElement | null>;
+  onSubmit: (body: string) => Promise<string | null>;
+  onCancel?: () => void;
+}
+
+function CommentBox({
+  initial = "",
+  placeholder,
+  submitLabel,
+  autoFocus,
+  textareaRef,
+  onSubmit,
+  onCancel,
+}: CommentBoxProps) {
+  const [body, setBody] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    const submitError = await onSubmit(body);
+    setSubmitting(false);
+    if (submitError) {
+      setError(submitError);
+    } else {
+      setBody("");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        ref={textareaRef}
+        value={body}
+        autoFocus={autoFocus}
+        maxLength={COMMENT_MAX_LENGTH}
+        onChange={(e) => setBody(e.target.value)}
+        rows={3}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-md focus:outline-none focus:border-purple-500"
+      />
+      <div className="flex items-center gap-3">
+        <Button
+          type="submit"
+          size="sm"
+          className="gaming-button"
+          disabled={submitting || !body.trim()}
+        >
+          {submitting ? "Saving..." : submitLabel}
+        </Button>
+        {onCancel && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+        )}
+        <span className="text-xs text-gray-500">
+          **bold**, *italic*, `code`, [links](https://…) and &gt; quotes
+        </span>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </form>
+  );
+}
+
+interface CommentItemProps {
+  comment: Comment;
+  canReply: boolean;
+  onReply: (parent: Comment, body: string) => Promise<string | null>;
+  onEdit: (comment: Comment, body: string) => Promise<string | null>;
+  onDelete: (comment: Comment) => void;
+}
+
+function CommentItem({
+  comment,
+  canReply,
+  onReply,
+  onEdit,
+  onDelete,
+}: CommentItemProps) {
+  const [mode, setMode] = useState<"view" | "reply" | "edit">("view");
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+  return (
+    <li className="space-y-2">
+      {comment.deleted ? (
+        <p className="text-sm italic text-gray-500">[deleted]</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400">
+            <span className="font-semibold text-gray-200">
+              {comment.author_name}
+            </span>{" "}
+            • {formatDate(comment.created_at)}
+            {comment.edited_at && " • edited"}
+          </p>
+          {mode === "edit" ? (
+            <CommentBox
+              initial={comment.body ?? ""}
+              placeholder="Edit your comment"
+              submitLabel="Save"
+              autoFocus
+              onSubmit={async (body) => {
+                const error = await onEdit(comment, body);
+                if (!error) setMode("view");
+                return error;
+              }}
+              onCancel={() => setMode("view")}
+            />
+          ) : (
+            <div
+              className={bodyClasses}
+              // body_html is escaped and rendered server-side (src/lib/markdown-lite.ts)
+              dangerouslySetInnerHTML={{ __html: comment.body_html ?? "" }}
+            />
+          )}
+          {mode === "view" && (
+            <div className="flex gap-3 text-xs text-gray-400">
+              {canReply && comment.depth < MAX_COMMENT_DEPTH && (
+                <button
+                  type="button"
+                  className="hover:text-white"
+                  onClick={() => setMode("reply")}
+                >
+                  Reply
+                </button>
+              )}
+              {comment.is_own && (
+                <>
+                  <button
+                    type="button"
+                    className="hover:text-white"
+                    onClick={() => setMode("edit")}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className="hover:text-red-400"
+                    onClick={() => onDelete(comment)}
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+          {mode === "reply" && (
+            <CommentBox
+              placeholder={`Reply to ${comment.author_name}`}
+              submitLabel="Reply"
+              autoFocus
+              onSubmit={async (body) => {
+                const error = await onReply(comment, body);
+                if (!error) setMode("view");
+                return error;
+              }}
+              onCancel={() => setMode("view")}
+            />
+          )}
+        </>
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul className="space-y-4 pl-4 border-l border-gray-700">
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              canReply={canReply}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+interface GameCommentsProps {
+  gameSlug: string;
+  /** Show the thread under a review instead of the game's own comments */
+  reviewId?: string;
+}
+
+export function GameComments({ gameSlug, reviewId }: GameCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const fetchComments = useCallback(
+    async (cursor: string | null) => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams();
+        if (reviewId) params.set("reviewId", reviewId);
+        if (cursor) params.set("cursor", cursor);
+        const response = await fetch(
+          `/api/games/${gameSlug}/comments?${params}`,
+          { credentials: "include" }
+        );
+        const result = await response.json();
+        if (result.success) {
+          setComments((prev) =>
+            cursor ? [...prev, ...result.data.results] : result.data.results
+          );
+          setNextCursor(result.data.nextCursor);
+        }
+      } catch (error) {
+        console.error("Error fetching comments:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [gameSlug, reviewId]
+  );
+
+  useEffect(() => {
+    fetchComments(null);
+  }, [fetchComments, user]);
+
+  // Focus the comment box when something links to #write-comment
+  useEffect(() => {
+    if (reviewId) return;
+    const focusFromHash = () => {
+      if (window.location.hash === WRITE_COMMENT_HASH) {
+        textareaRef.current?.focus();
+      }
+    };
+    focusFromHash();
+    window.addEventListener("hashchange", focusFromHash);
+    return () => window.removeEventListener("hashchange", focusFromHash);
+  }, [reviewId]);
+
+  const postComment = async (
+    body: string,
+    parentId: string | null
+  ): Promise<Comment | string> => {
+    const response = await fetch(`/api/games/${gameSlug}/comments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ body, parentId, reviewId }),
+    });
+    const result = await response.json();
+    return result.success ? result.data : result.error || "Failed to post";
+  };
+
+  const addComment = async (body: string) => {
+    const result = await postComment(body, null);
+    if (typeof result === "string") return result;
+    setComments((prev) => [result, ...prev]);
+    return null;
+  };
+
+  const addReply = async (parent: Comment, body: string) => {
+    const result = await postComment(body, parent.id);
+    if (typeof result === "string") return result;
+    setComments((prev) =>
+      updateTree(prev, parent.id, (comment) => ({
+        ...comment,
+        replies: [...comment.replies, result],
+      }))
+    );
+    return null;
+  };
+
+  const editComment = async (target: Comment, body: string) => {
+    const response = await fetch(
+      `/api/games/${gameSlug}/comments/${target.id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ body }),
+      }
+    );
+    const result = await response.json();
+    if (!result.success) return result.error || "Failed to save";
+    setComments((prev) =>
+      updateTree(prev, target.id, (comment) => ({
+        ...result.data,
+        replies: comment.replies,
+      }))
+    );
+    return null;
+  };
+
+  const deleteComment = async (target: Comment) => {
+    if (!confirm("Delete this comment?")) return;
+    const response = await fetch(
+      `/api/games/${gameSlug}/comments/${target.id}`,
+      { method: "DELETE", credentials: "include" }
+    );
+    const result = await response.json();
+    if (!result.success) {
+      alert(result.error || "Failed to delete comment");
+      return;
+    }
+    // Keep a tombstone only where replies hang off the comment
+    setComments((prev) =>
+      updateTree(prev, target.id, (comment) =>
+        comment.replies.length > 0
+          ? { ...result.data, replies: comment.replies }
+          : null
+      )
+    );
+  };
+
+  return (
+    <div id={reviewId ? undefined : "comments"} className="space-y-4">
+      {!reviewId && <h2 className="text-2xl font-bold">Comments</h2>}
+
+      {user ? (
+        <CommentBox
+          textareaRef={textareaRef}
+          placeholder={reviewId ? "Reply to this review" : "Write a comment"}
+          submitLabel="Post"
+          onSubmit={addComment}
+        />
+      ) : (
+        <p className="text-sm text-gray-400">Sign in to join the discussion.</p>
+      )}
+
+      {comments.length === 0 && !loading && (
+        <p className="text-sm text-gray-400">No comments yet.</p>
+      )}
+
+      <ul className="space-y-6">
+        {comments.map((comment) => (
+          <CommentItem
+            key={comment.id}
+            comment={comment}
+            canReply={!!user}
+            onReply={addReply}
+            onEdit={editComment}
+            onDelete={deleteComment}
+          />
+        ))}
+      </ul>
+
+      {nextCursor && (
+        <div className="text-center">
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            disabled={loading}
+            onClick={() => fetchComments(nextCursor)}
+          >
+            {loading ? "Loading..." : "Older comments"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
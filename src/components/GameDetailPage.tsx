@@ -2,9 +2,23 @@
 
 import Image from "next/image";
 import Link from "next/link";
+import { useState } from "react";
 import { RAWGGame } from "@/lib/rawg";
 import { GameInteractions } from "@/components/GameInteractions";
 import { GameImageCarousel } from "@/components/GameImageCarousel";
+import { GameRatingBar } from "@/components/GameRatingBar";
+import { GameReviews, WRITE_REVIEW_HASH } from "@/components/GameReviews";
+import { GameComments, WRITE_COMMENT_HASH } from "@/components/GameComments";
+import { AddToCollectionButton } from "@/components/AddToCollectionButton";
+import { GameCollectionsPanel } from "@/components/GameCollectionsPanel";
+import { SimilarGamesRail } from "@/components/SimilarGamesRail";
+import { PlaySessionDialog } from "@/components/PlaySessionDialog";
+import { PlaySessionHistory } from "@/components/PlaySessionHistory";
+import { useAuth } from "@/hooks/useAuth";
+import { useGameRating } from "@/hooks/useGameRating";
+import { usePlaySessions } from "@/hooks/usePlaySessions";
+import { minutesToHours } from "@/lib/play-sessions";
+import { RATING_LABELS, ratingForScore } from "@/lib/ratings";
 import { Button } from "@/components/ui/button";
 
 interface GameDetailPageProps {
@@ -12,7 +26,23 @@ interface GameDetailPageProps {
 }
 
 export function GameDetailPage({ game }: GameDetailPageProps) {
-  const formatDate = (dateString: string) => {
+  const { user } = useAuth();
+  const ratings = useGameRating(game.slug);
+  const playSessions = usePlaySessions(game.slug);
+  const [reviewCount, setReviewCount] = useState(0);
+  const [loggingSession, setLoggingSession] = useState(false);
+  const platformNames =
+    game.platforms?.map((platform) => platform.platform.name) || [];
+
+  const openLogSession = () => {
+    if (!user) {
+      alert("Please sign in to log play sessions");
+      return;
+    }
+    setLoggingSession(true);
+  };
+
+  const formatDate = (dateString: string | null) => {
     if (!dateString) return "TBA";
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -28,12 +58,8 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
     return "text-red-400";
   };
 
-  const getRatingLabel = (rating: number) => {
-    if (rating >= 4.5) return "Exceptional";
-    if (rating >= 4.0) return "Recommended";
-    if (rating >= 3.0) return "Meh";
-    return "Skip";
-  };
+  const getRatingLabel = (rating: number) =>
+    RATING_LABELS[ratingForScore(rating)];
 
   return (
     <div className="min-h-screen bg-gray-900 text-white">
@@ -54,10 +80,7 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
       )}
 
       {/* PLACEHOLDER: Top Contributors - will implement after mvp completion*/}
-      {/* PLACEHOLDER: Collections - will implement after mvp completion*/}
       {/* PLACEHOLDER: Edit Game Info - will implement after mvp completion*/}
-      {/* PLACEHOLDER: Write a review - will implement after mvp completion*/}
-      {/* PLACEHOLDER: Write a comment - will implement after mvp completion*/}
 
       {/* Content */}
       <div className="relative z-10">
@@ -99,6 +122,13 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                   {game.playtime && (
                     <span>AVERAGE PLAYTIME: {game.playtime} HOURS</span>
                   )}
+
+                  {playSessions.totalMinutes > 0 && (
+                    <span className="text-purple-300">
+                      YOUR PLAYTIME:{" "}
+                      {minutesToHours(playSessions.totalMinutes)} HOURS
+                    </span>
+                  )}
                 </div>
 
                 {/* Game Title */}
@@ -126,9 +156,11 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                     </svg>
                     Add to Wishlist
                   </Button>
+                  <AddToCollectionButton gameSlug={game.slug} />
                   <Button
                     variant="outline"
                     className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                    onClick={openLogSession}
                   >
                     <svg
                       className="w-4 h-4 mr-2"
@@ -140,23 +172,17 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                         strokeLinecap="round"
                         strokeLinejoin="round"
                         strokeWidth={2}
-                        d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2H5a2 2 0 00-2-2z"
-                      />
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M8 5a2 2 0 012-2h4a2 2 0 012 2v2H8V5z"
+                        d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
                       />
                     </svg>
-                    Save to Collection
+                    Log Session
                   </Button>
                 </div>
 
                 {/* Game Image Carousel */}
                 <GameImageCarousel
                   gameId={game.id}
-                  mainImage={game.background_image}
+                  mainImage={game.background_image ?? undefined}
                 />
 
                 {/* Rating and Rankings */}
@@ -181,7 +207,9 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                           clipRule="evenodd"
                         />
                       </svg>
-                      <span className="text-gray-400">114 RATINGS</span>
+                      <span className="text-gray-400">
+                        {ratings.total} RATINGS
+                      </span>
                     </div>
                   </div>
 
@@ -196,44 +224,31 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                 </div>
 
                 {/* User Rating Bar */}
-                <div className="space-y-3">
-                  <p className="text-sm text-gray-400">Click to rate</p>
-                  <div className="w-full bg-gray-700 rounded-full h-3 overflow-hidden">
-                    <div className="h-full bg-gradient-to-r from-green-500 via-blue-500 via-orange-500 to-red-500 rounded-full"></div>
-                  </div>
-                  <div className="flex justify-between text-xs">
-                    <div className="flex items-center gap-1">
-                      <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                      <span>Exceptional 63</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                      <span>Recommended 28</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <div className="w-2 h-2 bg-orange-500 rounded-full"></div>
-                      <span>Meh 9</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                      <span>Skip 14</span>
-                    </div>
-                  </div>
-                </div>
+                <GameRatingBar
+                  rating={ratings.rating}
+                  distribution={ratings.distribution}
+                  total={ratings.total}
+                  loading={ratings.loading}
+                  onRate={ratings.rate}
+                />
 
                 {/* Review Buttons */}
                 <div className="flex gap-4">
                   <Button
+                    asChild
                     variant="outline"
                     className="border-gray-600 text-gray-300 hover:bg-gray-700"
                   >
-                    + Write a review 114
+                    <a href={WRITE_REVIEW_HASH}>
+                      + Write a review {reviewCount}
+                    </a>
                   </Button>
                   <Button
+                    asChild
                     variant="outline"
                     className="border-gray-600 text-gray-300 hover:bg-gray-700"
                   >
-                    Write a comment
+                    <a href={WRITE_COMMENT_HASH}>Write a comment</a>
                   </Button>
                 </div>
               </div>
@@ -259,7 +274,7 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                         {game.platforms?.map((platform, index) => (
                           <Link
                             key={index}
-                            href={`/games?platform=${platform.platform.slug}`}
+                            href={`/games?platforms=${platform.platform.id}`}
                             className="text-white hover:text-purple-400 transition-colors underline"
                           >
                             {platform.platform.name}
@@ -283,7 +298,7 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                         {game.publishers?.map((publisher, index) => (
                           <Link
                             key={index}
-                            href={`/games?publisher=${publisher.slug}`}
+                            href={`/games?publishers=${publisher.slug}`}
                             className="text-white hover:text-purple-400 transition-colors underline"
                           >
                             {publisher.name}
@@ -298,7 +313,7 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                         {game.tags?.slice(0, 10).map((tag, index) => (
                           <Link
                             key={index}
-                            href={`/games?tag=${tag.slug}`}
+                            href={`/games?tags=${tag.slug}`}
                             className="text-white hover:text-purple-400 transition-colors underline"
                           >
                             {tag.name}
@@ -329,7 +344,7 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                         {game.genres?.map((genre, index) => (
                           <Link
                             key={index}
-                            href={`/games?genre=${genre.slug}`}
+                            href={`/games?genres=${genre.slug}`}
                             className="text-white hover:text-purple-400 transition-colors underline"
                           >
                             {genre.name}
@@ -344,7 +359,7 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                         {game.developers?.map((developer, index) => (
                           <Link
                             key={index}
-                            href={`/games?developer=${developer.slug}`}
+                            href={`/games?developers=${developer.slug}`}
                             className="text-white hover:text-purple-400 transition-colors underline"
                           >
                             {developer.name}
@@ -360,6 +375,33 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
                   </div>
                 </div>
               </div>
+
+              {/* More Like This */}
+              <SimilarGamesRail gameSlug={game.slug} />
+
+              {/* Play Sessions */}
+              {user && (
+                <PlaySessionHistory
+                  sessions={playSessions.sessions}
+                  totalMinutes={playSessions.totalMinutes}
+                  loading={playSessions.loading}
+                  averagePlaytime={game.playtime || null}
+                  platforms={platformNames}
+                  onLog={openLogSession}
+                  onUpdate={playSessions.updateSession}
+                  onDelete={playSessions.deleteSession}
+                />
+              )}
+
+              {/* Reviews */}
+              <GameReviews
+                gameSlug={game.slug}
+                platforms={platformNames}
+                onCountChange={setReviewCount}
+              />
+
+              {/* Comments */}
+              <GameComments gameSlug={game.slug} />
             </div>
 
             {/* Right Column - Sidebar */}
@@ -479,43 +521,7 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
               </div>
 
               {/* Collections */}
-              <div className="bg-gray-800 rounded-lg p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-bold">
-                    Collections with {game.name}
-                  </h3>
-                  <Link
-                    href="#"
-                    className="text-sm text-gray-400 hover:text-white underline"
-                  >
-                    2 collections
-                  </Link>
-                </div>
-                <div className="space-y-3">
-                  <div className="flex items-center gap-3">
-                    <div className="w-12 h-8 bg-gray-600 rounded flex items-center justify-center">
-                      <span className="text-xs">IMG</span>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium">Switch Games</p>
-                      <p className="text-xs text-gray-400">
-                        1075 GAMES • 33 CAKES
-                      </p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <div className="w-12 h-8 bg-gray-600 rounded flex items-center justify-center">
-                      <span className="text-xs">IMG</span>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium">Indie Collection</p>
-                      <p className="text-xs text-gray-400">
-                        234 GAMES • 12 CAKES
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              </div>
+              <GameCollectionsPanel gameSlug={game.slug} gameName={game.name} />
 
               {/* Edit Game Info */}
               <div className="bg-gray-800 rounded-lg p-6">
@@ -546,6 +552,14 @@ export function GameDetailPage({ game }: GameDetailPageProps) {
           </div>
         </div>
       </div>
+
+      <PlaySessionDialog
+        open={loggingSession}
+        title={`Log a ${game.name} session`}
+        platforms={platformNames}
+        onSubmit={playSessions.logSession}
+        onClose={() => setLoggingSession(false)}
+      />
     </div>
   );
 }
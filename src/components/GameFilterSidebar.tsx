@@ -0,0 +1,241 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  GameFilterListKey,
+  GameFilters,
+  hasActiveFilters,
+} from "@/lib/game-filters";
+
+interface GameFilterSidebarProps {
+  filters: GameFilters;
+  onFiltersChange: (filters: GameFilters) => void;
+}
+
+const genreOptions = [
+  { value: "action", label: "Action" },
+  { value: "adventure", label: "Adventure" },
+  { value: "role-playing-games-rpg", label: "RPG" },
+  { value: "shooter", label: "Shooter" },
+  { value: "strategy", label: "Strategy" },
+  { value: "puzzle", label: "Puzzle" },
+  { value: "platformer", label: "Platformer" },
+  { value: "racing", label: "Racing" },
+  { value: "sports", label: "Sports" },
+  { value: "simulation", label: "Simulation" },
+  { value: "fighting", label: "Fighting" },
+  { value: "indie", label: "Indie" },
+];
+
+// RAWG filters platforms and stores by numeric id
+const platformOptions = [
+  { value: "4", label: "PC" },
+  { value: "187", label: "PlayStation 5" },
+  { value: "18", label: "PlayStation 4" },
+  { value: "186", label: "Xbox Series S/X" },
+  { value: "1", label: "Xbox One" },
+  { value: "7", label: "Nintendo Switch" },
+  { value: "5", label: "macOS" },
+  { value: "6", label: "Linux" },
+  { value: "3", label: "iOS" },
+  { value: "21", label: "Android" },
+];
+
+const storeOptions = [
+  { value: "1", label: "Steam" },
+  { value: "3", label: "PlayStation Store" },
+  { value: "2", label: "Xbox Store" },
+  { value: "6", label: "Nintendo Store" },
+  { value: "11", label: "Epic Games" },
+  { value: "5", label: "GOG" },
+  { value: "4", label: "App Store" },
+  { value: "8", label: "Google Play" },
+];
+
+const textListFields: Array<{
+  key: Extract<GameFilterListKey, "tags" | "developers" | "publishers">;
+  label: string;
+  placeholder: string;
+}> = [
+  { key: "tags", label: "Tags", placeholder: "e.g. co-op, open-world" },
+  { key: "developers", label: "Developers", placeholder: "e.g. valve-software" },
+  { key: "publishers", label: "Publishers", placeholder: "e.g. nintendo" },
+];
+
+function toSlugList(value: string): string[] | undefined {
+  const items = value
+    .split(",")
+    .map((item) => item.trim().toLowerCase().replace(/\s+/g, "-"))
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+export function GameFilterSidebar({
+  filters,
+  onFiltersChange,
+}: GameFilterSidebarProps) {
+  // Free-text fields are edited locally and applied on blur / Enter
+  const [textValues, setTextValues] = useState({
+    tags: "",
+    developers: "",
+    publishers: "",
+  });
+
+  useEffect(() => {
+    setTextValues({
+      tags: filters.tags?.join(", ") || "",
+      developers: filters.developers?.join(", ") || "",
+      publishers: filters.publishers?.join(", ") || "",
+    });
+  }, [filters.tags, filters.developers, filters.publishers]);
+
+  const toggleListValue = (
+    key: "genres" | "platforms" | "stores",
+    value: string
+  ) => {
+    const current = filters[key] || [];
+    const next = current.includes(value)
+      ? current.filter((item) => item !== value)
+      : [...current, value];
+    onFiltersChange({ ...filters, [key]: next.length > 0 ? next : undefined });
+  };
+
+  const commitTextField = (key: "tags" | "developers" | "publishers") => {
+    onFiltersChange({ ...filters, [key]: toSlugList(textValues[key]) });
+  };
+
+  const updateScalar = (
+    key: "releasedFrom" | "releasedTo" | "metacriticMin" | "metacriticMax",
+    value: string
+  ) => {
+    if (key === "metacriticMin" || key === "metacriticMax") {
+      const score = parseInt(value);
+      onFiltersChange({
+        ...filters,
+        [key]: Number.isNaN(score) ? undefined : Math.min(100, Math.max(0, score)),
+      });
+      return;
+    }
+    onFiltersChange({ ...filters, [key]: value || undefined });
+  };
+
+  const renderCheckboxGroup = (
+    title: string,
+    key: "genres" | "platforms" | "stores",
+    options: Array<{ value: string; label: string }>
+  ) => (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-300 mb-2">{title}</h3>
+      <div className="space-y-1">
+        {options.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-center gap-2 text-sm text-gray-400 hover:text-white cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              checked={filters[key]?.includes(option.value) || false}
+              onChange={() => toggleListValue(key, option.value)}
+              className="accent-purple-600"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <aside className="gaming-card p-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white">Filters</h2>
+        {hasActiveFilters(filters) && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onFiltersChange({})}
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+          >
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      {renderCheckboxGroup("Genres", "genres", genreOptions)}
+      {renderCheckboxGroup("Platforms", "platforms", platformOptions)}
+      {renderCheckboxGroup("Stores", "stores", storeOptions)}
+
+      {textListFields.map((field) => (
+        <div key={field.key}>
+          <h3 className="text-sm font-semibold text-gray-300 mb-2">
+            {field.label}
+          </h3>
+          <Input
+            type="text"
+            placeholder={field.placeholder}
+            value={textValues[field.key]}
+            onChange={(e) =>
+              setTextValues((prev) => ({ ...prev, [field.key]: e.target.value }))
+            }
+            onBlur={() => commitTextField(field.key)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitTextField(field.key);
+            }}
+            className="gaming-input"
+          />
+        </div>
+      ))}
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300 mb-2">
+          Release date
+        </h3>
+        <div className="space-y-2">
+          <Input
+            type="date"
+            aria-label="Released from"
+            value={filters.releasedFrom || ""}
+            onChange={(e) => updateScalar("releasedFrom", e.target.value)}
+            className="gaming-input"
+          />
+          <Input
+            type="date"
+            aria-label="Released to"
+            value={filters.releasedTo || ""}
+            onChange={(e) => updateScalar("releasedTo", e.target.value)}
+            className="gaming-input"
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300 mb-2">Metacritic</h3>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            placeholder="Min"
+            aria-label="Minimum metacritic score"
+            value={filters.metacriticMin ?? ""}
+            onChange={(e) => updateScalar("metacriticMin", e.target.value)}
+            className="gaming-input"
+          />
+          <span className="text-gray-500">–</span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            placeholder="Max"
+            aria-label="Maximum metacritic score"
+            value={filters.metacriticMax ?? ""}
+            onChange={(e) => updateScalar("metacriticMax", e.target.value)}
+            className="gaming-input"
+          />
+        </div>
+      </div>
+    </aside>
+  );
+}
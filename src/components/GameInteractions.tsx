@@ -2,6 +2,9 @@
 
 import { useInteractions } from "@/hooks/useInteractions";
 import { InteractionButton } from "./InteractionButton";
+import { Button } from "@/components/ui/button";
+import { INTERACTION_EVENT_LABELS } from "@/lib/interaction-history";
+import { PLAY_STATUSES } from "@/lib/supabase";
 
 interface GameInteractionsProps {
   gameId: string;
@@ -12,32 +15,75 @@ export function GameInteractions({ gameId }: GameInteractionsProps) {
     liked,
     favorited,
     played,
+    status,
     loading,
     toggleLike,
     toggleFavorite,
     togglePlayed,
+    toggleStatus,
+    lastChange,
+    undo,
   } = useInteractions(gameId);
 
   return (
-    <div className="flex flex-wrap gap-4">
-      <InteractionButton
-        action="like"
-        isActive={liked}
-        onClick={toggleLike}
-        loading={loading}
-      />
-      <InteractionButton
-        action="favorite"
-        isActive={favorited}
-        onClick={toggleFavorite}
-        loading={loading}
-      />
-      <InteractionButton
-        action="played"
-        isActive={played}
-        onClick={togglePlayed}
-        loading={loading}
-      />
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4">
+        <InteractionButton
+          action="like"
+          isActive={liked}
+          onClick={toggleLike}
+          loading={loading}
+        />
+        <InteractionButton
+          action="favorite"
+          isActive={favorited}
+          onClick={toggleFavorite}
+          loading={loading}
+        />
+        <InteractionButton
+          action="played"
+          isActive={played}
+          onClick={togglePlayed}
+          loading={loading}
+        />
+      </div>
+
+      {/* Play status: one at a time */}
+      <div className="flex flex-wrap gap-4">
+        {PLAY_STATUSES.map((playStatus) => (
+          <InteractionButton
+            key={playStatus}
+            action={playStatus}
+            isActive={status === playStatus}
+            onClick={() => toggleStatus(playStatus)}
+            loading={loading}
+          />
+        ))}
+      </div>
+
+      {lastChange && (
+        <div
+          role="status"
+          className="flex items-center gap-3 text-sm text-gray-300"
+        >
+          <span>
+            {
+              INTERACTION_EVENT_LABELS[lastChange.action][
+                lastChange.added ? "added" : "removed"
+              ]
+            }
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            onClick={undo}
+            disabled={loading}
+          >
+            Undo
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
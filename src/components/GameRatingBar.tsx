@@ -0,0 +1,74 @@
+"use client";
+
+import {
+  GAME_RATINGS,
+  RATING_LABELS,
+  type GameRating,
+  type RatingDistribution,
+} from "@/lib/ratings";
+
+const ratingColors: Record<GameRating, string> = {
+  exceptional: "bg-green-500",
+  recommended: "bg-blue-500",
+  meh: "bg-orange-500",
+  skip: "bg-red-500",
+};
+
+interface GameRatingBarProps {
+  rating: GameRating | null;
+  distribution: RatingDistribution;
+  total: number;
+  loading?: boolean;
+  onRate: (rating: GameRating) => void;
+}
+
+export function GameRatingBar({
+  rating,
+  distribution,
+  total,
+  loading = false,
+  onRate,
+}: GameRatingBarProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-400">
+        {rating
+          ? `You rated this ${RATING_LABELS[rating]} (click again to clear)`
+          : "Click to rate"}
+      </p>
+      <div className="flex w-full bg-gray-700 rounded-full h-3 overflow-hidden">
+        {total > 0 &&
+          GAME_RATINGS.map((key) =>
+            distribution[key] > 0 ? (
+              <div
+                key={key}
+                className={`h-full ${ratingColors[key]}`}
+                style={{ width: `${(distribution[key] / total) * 100}%` }}
+              />
+            ) : null
+          )}
+      </div>
+      <div className="flex justify-between text-xs">
+        {GAME_RATINGS.map((key) => (
+          <button
+            key={key}
+            type="button"
+            disabled={loading}
+            aria-pressed={rating === key}
+            onClick={() => onRate(key)}
+            className={`flex items-center gap-1 px-2 py-1 rounded transition-colors disabled:opacity-50 ${
+              rating === key
+                ? "bg-gray-700 text-white font-semibold"
+                : "text-gray-300 hover:bg-gray-800"
+            }`}
+          >
+            <div className={`w-2 h-2 ${ratingColors[key]} rounded-full`}></div>
+            <span>
+              {RATING_LABELS[key]} {distribution[key]}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
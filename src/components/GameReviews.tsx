@@ -0,0 +1,345 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ReviewForm } from "@/components/ReviewForm";
+import { GameComments } from "@/components/GameComments";
+import { useAuth } from "@/hooks/useAuth";
+import { RATING_LABELS, type GameRating } from "@/lib/ratings";
+import type { Review, ReviewInput, ReviewSort } from "@/lib/reviews";
+
+/** Links to `#write-review` open the review form */
+export const WRITE_REVIEW_HASH = "#write-review";
+
+const ratingColors: Record<GameRating, string> = {
+  exceptional: "text-green-400",
+  recommended: "text-blue-400",
+  meh: "text-orange-400",
+  skip: "text-red-400",
+};
+
+interface GameReviewsProps {
+  gameSlug: string;
+  platforms: string[];
+  onCountChange?: (count: number) => void;
+}
+
+export function GameReviews({
+  gameSlug,
+  platforms,
+  onCountChange,
+}: GameReviewsProps) {
+  const { user } = useAuth();
+  const [sort, setSort] = useState<ReviewSort>("helpful");
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [viewerReview, setViewerReview] = useState<Review | null>(null);
+  const [count, setCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [openThreads, setOpenThreads] = useState<Set<string>>(new Set());
+
+  const fetchPage = useCallback(
+    async (pageToLoad: number) => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({
+          sort,
+          page: pageToLoad.toString(),
+        });
+        const response = await fetch(
+          `/api/games/${gameSlug}/reviews?${params}`,
+          { credentials: "include" }
+        );
+        const result = await response.json();
+        if (result.success) {
+          setReviews((prev) =>
+            pageToLoad === 1
+              ? result.data.results
+              : [...prev, ...result.data.results]
+          );
+          setViewerReview(result.data.viewerReview);
+          setCount(result.data.count);
+          setHasMore(result.data.hasMore);
+          setPage(pageToLoad);
+        }
+      } catch (error) {
+        console.error("Error fetching reviews:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [gameSlug, sort]
+  );
+
+  useEffect(() => {
+    fetchPage(1);
+  }, [fetchPage, user]);
+
+  useEffect(() => {
+    onCountChange?.(count);
+  }, [count, onCountChange]);
+
+  // Open the form when something links to #write-review
+  useEffect(() => {
+    const openFromHash = () => {
+      if (window.location.hash === WRITE_REVIEW_HASH) {
+        setEditing(true);
+      }
+    };
+    openFromHash();
+    window.addEventListener("hashchange", openFromHash);
+    return () => window.removeEventListener("hashchange", openFromHash);
+  }, []);
+
+  const closeForm = () => {
+    setEditing(false);
+    if (window.location.hash === WRITE_REVIEW_HASH) {
+      history.replaceState(null, "", window.location.pathname);
+    }
+  };
+
+  const saveReview = async (input: ReviewInput): Promise<string | null> => {
+    const response = viewerReview
+      ? await fetch(`/api/reviews/${viewerReview.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(input),
+        })
+      : await fetch(`/api/games/${gameSlug}/reviews`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(input),
+        });
+    const result = await response.json();
+    if (!result.success) {
+      return result.error || "Failed to save review";
+    }
+    closeForm();
+    await fetchPage(1);
+    return null;
+  };
+
+  const deleteReview = async (review: Review) => {
+    if (!confirm("Delete your review? This can't be undone.")) return;
+    const response = await fetch(`/api/reviews/${review.id}`, {
+      method: "DELETE",
+      credentials: "include",
+    });
+    const result = await response.json();
+    if (result.success) {
+      await fetchPage(1);
+    } else {
+      alert(result.error || "Failed to delete review");
+    }
+  };
+
+  const toggleHelpful = async (review: Review) => {
+    if (!user) {
+      alert("Please sign in to vote on reviews");
+      return;
+    }
+    const response = await fetch(`/api/reviews/${review.id}/vote`, {
+      method: review.voted_helpful ? "DELETE" : "POST",
+      credentials: "include",
+    });
+    const result = await response.json();
+    if (result.success) {
+      setReviews((prev) =>
+        prev.map((r) => (r.id === review.id ? { ...r, ...result.data } : r))
+      );
+    }
+  };
+
+  const reportReview = async (review: Review) => {
+    if (!user) {
+      alert("Please sign in to report reviews");
+      return;
+    }
+    const reason = prompt("Why should a moderator look at this review?");
+    if (!reason?.trim()) return;
+    const response = await fetch(`/api/reviews/${review.id}/report`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ reason }),
+    });
+    const result = await response.json();
+    alert(
+      result.success
+        ? "Thanks, a moderator will take a look."
+        : result.error || "Failed to report review"
+    );
+  };
+
+  const toggleThread = (reviewId: string) => {
+    setOpenThreads((prev) => {
+      const next = new Set(prev);
+      if (next.has(reviewId)) {
+        next.delete(reviewId);
+      } else {
+        next.add(reviewId);
+      }
+      return next;
+    });
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+  return (
+    <div id="reviews" className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold">
+          Reviews <span className="text-gray-400">({count})</span>
+        </h2>
+        <div className="flex gap-2">
+          {(["helpful", "recent"] as ReviewSort[]).map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant="outline"
+              onClick={() => setSort(option)}
+              className={
+                sort === option
+                  ? "border-purple-500 text-white bg-gray-700"
+                  : "border-gray-600 text-gray-300 hover:bg-gray-700"
+              }
+            >
+              {option === "helpful" ? "Most helpful" : "Newest"}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {editing ? (
+        user ? (
+          <ReviewForm
+            initial={viewerReview ?? undefined}
+            platforms={platforms}
+            submitLabel={viewerReview ? "Update review" : "Post review"}
+            onSubmit={saveReview}
+            onCancel={closeForm}
+          />
+        ) : (
+          <div className="bg-gray-800 rounded-lg p-6 text-gray-300">
+            Sign in to write a review.
+          </div>
+        )
+      ) : (
+        user && (
+          <Button
+            variant="outline"
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            onClick={() => setEditing(true)}
+          >
+            {viewerReview ? "Edit your review" : "+ Write a review"}
+          </Button>
+        )
+      )}
+
+      {reviews.length === 0 && !loading && (
+        <p className="text-gray-400">No reviews yet. Be the first!</p>
+      )}
+
+      <div className="space-y-4">
+        {reviews.map((review) => (
+          <article key={review.id} className="bg-gray-800 rounded-lg p-6">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+              <h3 className="text-lg font-semibold">{review.title}</h3>
+              <span
+                className={`text-sm font-semibold ${ratingColors[review.rating]}`}
+              >
+                {RATING_LABELS[review.rating]}
+              </span>
+            </div>
+            <p className="text-xs text-gray-400 mb-3">
+              {review.author_name} • {formatDate(review.created_at)}
+              {review.platform && ` • Played on ${review.platform}`}
+            </p>
+            <p className="text-gray-300 whitespace-pre-line">{review.body}</p>
+            <div className="flex flex-wrap items-center gap-3 mt-4 text-sm">
+              {review.is_own ? (
+                <>
+                  <span className="text-gray-400">
+                    {review.helpful_count} found this helpful
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                    onClick={() => setEditing(true)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 text-red-400 hover:bg-gray-700"
+                    onClick={() => deleteReview(review)}
+                  >
+                    Delete
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    aria-pressed={review.voted_helpful}
+                    className={
+                      review.voted_helpful
+                        ? "border-green-500 text-green-400 hover:bg-gray-700"
+                        : "border-gray-600 text-gray-300 hover:bg-gray-700"
+                    }
+                    onClick={() => toggleHelpful(review)}
+                  >
+                    👍 Helpful ({review.helpful_count})
+                  </Button>
+                  <button
+                    type="button"
+                    className="text-xs text-gray-400 hover:text-white underline"
+                    onClick={() => reportReview(review)}
+                  >
+                    Report
+                  </button>
+                </>
+              )}
+              <button
+                type="button"
+                className="text-xs text-gray-400 hover:text-white underline"
+                onClick={() => toggleThread(review.id)}
+              >
+                {openThreads.has(review.id) ? "Hide comments" : "Comments"}
+              </button>
+            </div>
+            {openThreads.has(review.id) && (
+              <div className="mt-4 pt-4 border-t border-gray-700">
+                <GameComments gameSlug={gameSlug} reviewId={review.id} />
+              </div>
+            )}
+          </article>
+        ))}
+      </div>
+
+      {hasMore && (
+        <div className="text-center">
+          <Button
+            className="gaming-button px-6 py-2"
+            disabled={loading}
+            onClick={() => fetchPage(page + 1)}
+          >
+            {loading ? "Loading..." : "Load more reviews"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useId, useRef, useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import type { GameSuggestion } from "@/lib/game-search";
+
+const MIN_QUERY_LENGTH = 2;
+const SUGGESTION_LIMIT = 8;
+
+export function GameSearchCombobox() {
+  const router = useRouter();
+  const listboxId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<GameSuggestion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  // Debounced fetch; stale requests are aborted when the query changes, and
+  // the previous query's suggestions are cleared so Enter or the arrow keys
+  // can't pick one of them during the debounce
+  useEffect(() => {
+    setSuggestions([]);
+    setActiveIndex(-1);
+
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        setIsLoading(true);
+        const params = new URLSearchParams({
+          query: trimmed,
+          limit: SUGGESTION_LIMIT.toString(),
+        });
+        const response = await fetch(`/api/games/autocomplete?${params}`, {
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          const data: { results: GameSuggestion[] } = await response.json();
+          setSuggestions(data.results);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        if ((error as Error).name !== "AbortError") {
+          console.error("Error fetching suggestions:", error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, 200);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  const selectSuggestion = (suggestion: GameSuggestion) => {
+    setIsOpen(false);
+    setQuery("");
+    setSuggestions([]);
+    router.push(`/games/${suggestion.slug}`);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) =>
+          suggestions.length === 0 ? -1 : (index + 1) % suggestions.length
+        );
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setActiveIndex((index) =>
+          suggestions.length === 0
+            ? -1
+            : (index - 1 + suggestions.length) % suggestions.length
+        );
+        break;
+      case "Enter":
+        if (isOpen && activeIndex >= 0 && suggestions[activeIndex]) {
+          event.preventDefault();
+          selectSuggestion(suggestions[activeIndex]);
+        }
+        break;
+      case "Escape":
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  const showDropdown = isOpen && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div ref={containerRef} className="relative w-64">
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined
+        }
+        placeholder="Search games..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-lg focus:outline-none focus:border-purple-500"
+      />
+
+      {showDropdown && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute top-full left-0 right-0 mt-1 max-h-96 overflow-y-auto bg-gray-800 border border-gray-600 rounded-lg shadow-lg z-50"
+        >
+          {isLoading && suggestions.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-400">Searching...</li>
+          )}
+          {!isLoading && suggestions.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-400">No games found</li>
+          )}
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => {
+                // Keep focus on the input until navigation happens
+                e.preventDefault();
+                selectSuggestion(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center gap-3 px-3 py-2 cursor-pointer ${
+                index === activeIndex ? "bg-purple-600" : "hover:bg-gray-700"
+              }`}
+            >
+              <div className="relative w-12 h-8 flex-shrink-0 rounded overflow-hidden bg-gray-700">
+                {suggestion.background_image && (
+                  <Image
+                    src={suggestion.background_image}
+                    alt=""
+                    fill
+                    sizes="48px"
+                    className="object-cover"
+                  />
+                )}
+              </div>
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">
+                  {suggestion.name}
+                  {suggestion.year && (
+                    <span className="text-gray-400"> ({suggestion.year})</span>
+                  )}
+                </p>
+                {suggestion.platforms.length > 0 && (
+                  <p className="text-xs text-gray-400 truncate">
+                    {suggestion.platforms.join(", ")}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
 
 import Link from "next/link";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/lib/supabase";
+import { GameSearchCombobox } from "@/components/GameSearchCombobox";
+import { getSupabaseBrowserClient } from "@/lib/supabase";
 
 export function Header() {
   const { user, loading } = useAuth();
@@ -12,7 +13,7 @@ export function Header() {
       console.log("Attempting to sign out...");
 
       // Sign out from Supabase with redirect
-      const { error } = await supabase.auth.signOut({
+      const { error } = await getSupabaseBrowserClient().auth.signOut({
         scope: "local", // This ensures local session is cleared
       });
 
@@ -91,6 +92,12 @@ export function Header() {
                 >
                   My Library
                 </Link>
+                <Link
+                  href="/collections"
+                  className="text-gray-300 hover:text-white transition-colors"
+                >
+                  Collections
+                </Link>
                 <Link
                   href="/profile"
                   className="text-gray-300 hover:text-white transition-colors"
@@ -99,8 +106,11 @@ export function Header() {
                 </Link>
               </nav>
 
-              {/* User Info and Sign Out*/}
+              {/* Search, User Info and Sign Out*/}
               <div className="flex items-center gap-4 ml-auto">
+                <div className="hidden xl:block">
+                  <GameSearchCombobox />
+                </div>
                 <span className="text-gray-300 text-sm">
                   {user.user_metadata?.full_name || user.email?.split("@")[0]}
                 </span>
@@ -122,10 +132,13 @@ export function Header() {
           )}
         </div>
 
-        {/* Mobile Navigation */}
+        {/* Mobile Navigation (search moves here below the xl breakpoint) */}
         {user && (
-          <nav className="md:hidden mt-4 pb-2 border-t border-gray-600 pt-4">
-            <div className="flex justify-center gap-4 flex-wrap">
+          <nav className="xl:hidden mt-4 pb-2 border-t border-gray-600 pt-4">
+            <div className="flex justify-center mb-3">
+              <GameSearchCombobox />
+            </div>
+            <div className="md:hidden flex justify-center gap-4 flex-wrap">
               <Link
                 href="/games"
                 className="text-gray-300 hover:text-white transition-colors text-sm px-2 py-1"
@@ -144,6 +157,12 @@ export function Header() {
               >
                 My Library
               </Link>
+              <Link
+                href="/collections"
+                className="text-gray-300 hover:text-white transition-colors text-sm px-2 py-1"
+              >
+                Collections
+              </Link>
               <Link
                 href="/profile"
                 className="text-gray-300 hover:text-white transition-colors text-sm px-2 py-1"
@@ -1,16 +1,27 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import type { InteractionAction } from "@/lib/supabase";
 
 interface InteractionButtonProps {
-  action: "like" | "favorite" | "played";
+  action: InteractionAction;
   isActive: boolean;
   onClick: () => void;
   loading: boolean;
   disabled?: boolean;
 }
 
-const buttonConfig = {
+const buttonConfig: Record<
+  InteractionAction,
+  {
+    activeIcon: string;
+    inactiveIcon: string;
+    activeText: string;
+    inactiveText: string;
+    activeClass: string;
+    inactiveClass: string;
+  }
+> = {
   like: {
     activeIcon: "❤️",
     inactiveIcon: "🤍",
@@ -35,6 +46,38 @@ const buttonConfig = {
     activeClass: "bg-green-500 hover:bg-green-600",
     inactiveClass: "gaming-button",
   },
+  wishlist: {
+    activeIcon: "🎯",
+    inactiveIcon: "🎯",
+    activeText: "Want to Play",
+    inactiveText: "Want to Play",
+    activeClass: "bg-blue-500 hover:bg-blue-600",
+    inactiveClass: "gaming-button",
+  },
+  playing: {
+    activeIcon: "🎮",
+    inactiveIcon: "🎮",
+    activeText: "Playing",
+    inactiveText: "Playing",
+    activeClass: "bg-purple-500 hover:bg-purple-600",
+    inactiveClass: "gaming-button",
+  },
+  backlog: {
+    activeIcon: "📚",
+    inactiveIcon: "📚",
+    activeText: "In Backlog",
+    inactiveText: "Backlog",
+    activeClass: "bg-orange-500 hover:bg-orange-600",
+    inactiveClass: "gaming-button",
+  },
+  dropped: {
+    activeIcon: "🚫",
+    inactiveIcon: "🚫",
+    activeText: "Dropped",
+    inactiveText: "Dropped",
+    activeClass: "bg-gray-500 hover:bg-gray-600",
+    inactiveClass: "gaming-button",
+  },
 };
 
 export function InteractionButton({
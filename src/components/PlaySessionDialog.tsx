@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  PLAY_SESSION_LIMITS,
+  type PlaySession,
+  type PlaySessionInput,
+} from "@/lib/play-sessions";
+
+interface PlaySessionDialogProps {
+  open: boolean;
+  title: string;
+  /** Session being edited; a new session starts on today's date */
+  initial?: PlaySession | null;
+  /** Platform names to offer, usually the game's own */
+  platforms: string[];
+  onSubmit: (input: PlaySessionInput) => Promise<string | null>;
+  onClose: () => void;
+}
+
+// Today in the browser's time zone, as YYYY-MM-DD
+const today = () => {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+  return now.toISOString().slice(0, 10);
+};
+
+export function PlaySessionDialog({
+  open,
+  title,
+  initial,
+  platforms,
+  onSubmit,
+  onClose,
+}: PlaySessionDialogProps) {
+  const [playedOn, setPlayedOn] = useState(today());
+  const [hours, setHours] = useState("1");
+  const [minutes, setMinutes] = useState("0");
+  const [platform, setPlatform] = useState("");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setPlayedOn(initial?.played_on ?? today());
+    setHours(initial ? `${Math.floor(initial.duration_minutes / 60)}` : "1");
+    setMinutes(initial ? `${initial.duration_minutes % 60}` : "0");
+    setPlatform(initial?.platform ?? "");
+    setNotes(initial?.notes ?? "");
+    setError(null);
+  }, [open, initial]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKey);
+    return () => document.removeEventListener("keydown", handleKey);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const duration =
+      (parseInt(hours) || 0) * 60 + (parseInt(minutes) || 0);
+    if (duration < 1 || duration > PLAY_SESSION_LIMITS.maxMinutes) {
+      setError("A session runs from one minute up to 24 hours");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    const submitError = await onSubmit({
+      played_on: playedOn,
+      duration_minutes: duration,
+      platform: platform || null,
+      notes: notes.trim() || null,
+    });
+    setSubmitting(false);
+    if (submitError) {
+      setError(submitError);
+    } else {
+      onClose();
+    }
+  };
+
+  // The game's platforms, plus whatever an older session was logged on
+  const platformOptions =
+    platform && !platforms.includes(platform)
+      ? [...platforms, platform]
+      : platforms;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md space-y-4 bg-gray-800 border border-gray-600 rounded-lg p-6 text-white"
+      >
+        <h2 className="text-xl font-bold">{title}</h2>
+
+        <div className="space-y-2">
+          <Label htmlFor="session-date">Date</Label>
+          <Input
+            id="session-date"
+            type="date"
+            value={playedOn}
+            max={today()}
+            onChange={(e) => setPlayedOn(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Duration</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="Hours"
+              type="number"
+              min={0}
+              max={24}
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+              className="w-20"
+            />
+            <span className="text-sm text-gray-400">h</span>
+            <Input
+              aria-label="Minutes"
+              type="number"
+              min={0}
+              max={59}
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              className="w-20"
+            />
+            <span className="text-sm text-gray-400">m</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="session-platform">Platform</Label>
+          <select
+            id="session-platform"
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value)}
+            className="w-full h-9 px-3 text-sm bg-gray-700 border border-gray-600 text-white rounded-md"
+          >
+            <option value="">Not specified</option>
+            {platformOptions.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="session-notes">Notes</Label>
+          <textarea
+            id="session-notes"
+            value={notes}
+            maxLength={PLAY_SESSION_LIMITS.notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-md focus:outline-none focus:border-purple-500"
+            placeholder="Where you got to, what stood out (optional)"
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex gap-3">
+          <Button type="submit" className="gaming-button" disabled={submitting}>
+            {submitting ? "Saving..." : "Save session"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            onClick={onClose}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
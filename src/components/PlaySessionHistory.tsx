@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { PlaySessionDialog } from "@/components/PlaySessionDialog";
+import {
+  formatDuration,
+  minutesToHours,
+  type PlaySession,
+  type PlaySessionInput,
+} from "@/lib/play-sessions";
+
+interface PlaySessionHistoryProps {
+  sessions: PlaySession[];
+  totalMinutes: number;
+  loading: boolean;
+  /** RAWG's average playtime in hours, for comparison */
+  averagePlaytime: number | null;
+  platforms: string[];
+  onLog: () => void;
+  onUpdate: (id: string, input: PlaySessionInput) => Promise<string | null>;
+  onDelete: (id: string) => Promise<string | null>;
+}
+
+const formatSessionDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export function PlaySessionHistory({
+  sessions,
+  totalMinutes,
+  loading,
+  averagePlaytime,
+  platforms,
+  onLog,
+  onUpdate,
+  onDelete,
+}: PlaySessionHistoryProps) {
+  const [editing, setEditing] = useState<PlaySession | null>(null);
+
+  const handleDelete = async (session: PlaySession) => {
+    if (!confirm("Delete this play session?")) return;
+    const error = await onDelete(session.id);
+    if (error) alert(error);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Your Play Sessions</h2>
+          <p className="text-sm text-gray-400">
+            {minutesToHours(totalMinutes)} hours logged
+            {averagePlaytime
+              ? ` • ${averagePlaytime} hours on average (RAWG)`
+              : ""}
+          </p>
+        </div>
+        <Button className="gaming-button" onClick={onLog}>
+          + Log session
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : sessions.length === 0 ? (
+        <div className="bg-gray-800 rounded-lg p-6 text-center text-gray-400">
+          No sessions logged yet. Log one after you play to track your hours.
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {sessions.map((session) => (
+            <li key={session.id} className="bg-gray-800 rounded-lg p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <span className="font-semibold text-white">
+                    {formatSessionDate(session.played_on)}
+                  </span>
+                  <span className="text-purple-300">
+                    {formatDuration(session.duration_minutes)}
+                  </span>
+                  {session.platform && (
+                    <span className="text-gray-400">{session.platform}</span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                    onClick={() => setEditing(session)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 text-red-400 hover:bg-gray-700"
+                    onClick={() => handleDelete(session)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+              {session.notes && (
+                <p className="mt-2 text-sm text-gray-300 whitespace-pre-line">
+                  {session.notes}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <PlaySessionDialog
+        open={editing !== null}
+        title="Edit session"
+        initial={editing}
+        platforms={platforms}
+        onSubmit={(input) =>
+          editing ? onUpdate(editing.id, input) : Promise.resolve(null)
+        }
+        onClose={() => setEditing(null)}
+      />
+    </div>
+  );
+}
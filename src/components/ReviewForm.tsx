@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GAME_RATINGS, RATING_LABELS, type GameRating } from "@/lib/ratings";
+import { REVIEW_LIMITS, type ReviewInput } from "@/lib/reviews";
+
+interface ReviewFormProps {
+  initial?: Partial<ReviewInput>;
+  /** Platform names to offer, usually the game's own */
+  platforms: string[];
+  submitLabel: string;
+  onSubmit: (input: ReviewInput) => Promise<string | null>;
+  onCancel: () => void;
+}
+
+export function ReviewForm({
+  initial,
+  platforms,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: ReviewFormProps) {
+  const [title, setTitle] = useState(initial?.title ?? "");
+  const [body, setBody] = useState(initial?.body ?? "");
+  const [rating, setRating] = useState<GameRating | null>(
+    initial?.rating ?? null
+  );
+  const [platform, setPlatform] = useState(initial?.platform ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rating) {
+      setError("Pick a rating");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    const submitError = await onSubmit({
+      title: title.trim(),
+      body: body.trim(),
+      rating,
+      platform: platform || null,
+    });
+    setSubmitting(false);
+    if (submitError) {
+      setError(submitError);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-4 bg-gray-800 rounded-lg p-6"
+    >
+      <div className="space-y-2">
+        <Label>Rating</Label>
+        <div className="flex flex-wrap gap-2">
+          {GAME_RATINGS.map((key) => (
+            <Button
+              key={key}
+              type="button"
+              size="sm"
+              variant={rating === key ? "default" : "outline"}
+              onClick={() => setRating(key)}
+              className={
+                rating === key
+                  ? "gaming-button"
+                  : "border-gray-600 text-gray-300 hover:bg-gray-700"
+              }
+            >
+              {RATING_LABELS[key]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-title">Title</Label>
+        <Input
+          id="review-title"
+          value={title}
+          maxLength={REVIEW_LIMITS.title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Sum it up in a line"
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-platform">Platform played</Label>
+        <select
+          id="review-platform"
+          value={platform}
+          onChange={(e) => setPlatform(e.target.value)}
+          className="w-full h-9 px-3 text-sm bg-gray-700 border border-gray-600 text-white rounded-md"
+        >
+          <option value="">Not specified</option>
+          {platforms.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-body">Review</Label>
+        <textarea
+          id="review-body"
+          value={body}
+          maxLength={REVIEW_LIMITS.body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={6}
+          required
+          className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-md focus:outline-none focus:border-purple-500"
+          placeholder="What did you like, what didn't work?"
+        />
+        <p className="text-xs text-gray-400 text-right">
+          {body.length}/{REVIEW_LIMITS.body}
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-3">
+        <Button type="submit" className="gaming-button" disabled={submitting}>
+          {submitting ? "Saving..." : submitLabel}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          className="border-gray-600 text-gray-300 hover:bg-gray-700"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
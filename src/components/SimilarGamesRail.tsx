@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GameCard } from "@/components/GameCard";
+import type { SimilarGame } from "@/lib/game-similarity";
+
+interface SimilarGamesRailProps {
+  gameSlug: string;
+}
+
+export function SimilarGamesRail({ gameSlug }: SimilarGamesRailProps) {
+  const [similarGames, setSimilarGames] = useState<SimilarGame[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSimilarGames = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/games/${gameSlug}/similar`);
+        const result = await response.json();
+        if (result.success) {
+          setSimilarGames(result.data.results);
+        }
+      } catch (error) {
+        console.error("Error fetching similar games:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSimilarGames();
+  }, [gameSlug]);
+
+  // Nothing computed for this game yet
+  if (!loading && similarGames.length === 0) {
+    return null;
+  }
+
+  return (
+    <section>
+      <h2 className="text-2xl font-bold mb-4">More like this</h2>
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-4 snap-x">
+          {similarGames.map(({ game }) => (
+            <div key={game.slug} className="w-64 flex-shrink-0 snap-start">
+              <GameCard game={game} />
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/lib/supabase";
+import { getSupabaseBrowserClient } from "@/lib/supabase";
 import { useAuth } from "@/hooks/useAuth";
 
 export function AuthButton() {
@@ -12,7 +12,7 @@ export function AuthButton() {
   const handleSignIn = async () => {
     setIsSigningIn(true);
     try {
-      const { error } = await supabase.auth.signInWithOAuth({
+      const { error } = await getSupabaseBrowserClient().auth.signInWithOAuth({
         provider: "github",
         options: {
           redirectTo: `${window.location.origin}/auth/callback`,
@@ -28,7 +28,7 @@ export function AuthButton() {
 
   const handleSignOut = async () => {
     try {
-      const { error } = await supabase.auth.signOut();
+      const { error } = await getSupabaseBrowserClient().auth.signOut();
       if (error) throw error;
     } catch (error) {
       console.error("Error signing out:", error);
@@ -2,13 +2,21 @@
 
 import { useEffect, useState } from 'react'
 import { User } from '@supabase/supabase-js'
-import { supabase } from '@/lib/supabase'
+import { getSupabaseBrowserClient, isSupabaseConfigured } from '@/lib/supabase'
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
+    // Without Supabase (offline mode) there is never a signed-in user
+    if (!isSupabaseConfigured()) {
+      setLoading(false)
+      return
+    }
+
+    const supabase = getSupabaseBrowserClient()
+
     // Get initial session
     const getInitialSession = async () => {
       const { data: { session } } = await supabase.auth.getSession()
@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from './useAuth'
+import { emptyDistribution, type GameRating, type RatingDistribution } from '@/lib/ratings'
+
+interface GameRatingState {
+  rating: GameRating | null
+  distribution: RatingDistribution
+  total: number
+  loading: boolean
+}
+
+export function useGameRating(gameId: string) {
+  const { user } = useAuth()
+  const [state, setState] = useState<GameRatingState>({
+    rating: null,
+    distribution: emptyDistribution(),
+    total: 0,
+    loading: true
+  })
+
+  // the distribution is public, so fetch it whether or not someone is signed in
+  useEffect(() => {
+    if (!gameId) return
+
+    const fetchRatings = async () => {
+      try {
+        const response = await fetch(`/api/ratings?gameId=${encodeURIComponent(gameId)}`, {
+          credentials: 'include'
+        })
+        const result = await response.json()
+
+        if (result.success) {
+          setState({ ...result.data, loading: false })
+        } else {
+          setState(prev => ({ ...prev, loading: false }))
+        }
+      } catch (error) {
+        console.error('Error fetching ratings:', error)
+        setState(prev => ({ ...prev, loading: false }))
+      }
+    }
+
+    fetchRatings()
+  }, [user, gameId])
+
+  // rate the game; picking the current rating again clears it
+  const rate = async (rating: GameRating) => {
+    if (!user) {
+      alert('Please sign in to rate games')
+      return
+    }
+
+    setState(prev => ({ ...prev, loading: true }))
+
+    try {
+      const clearing = state.rating === rating
+      const response = clearing
+        ? await fetch(`/api/ratings?gameId=${encodeURIComponent(gameId)}`, {
+            method: 'DELETE',
+            credentials: 'include'
+          })
+        : await fetch('/api/ratings', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            credentials: 'include',
+            body: JSON.stringify({ gameId, rating })
+          })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setState({ ...result.data, loading: false })
+      } else {
+        console.error('Error saving rating:', result.error)
+        setState(prev => ({ ...prev, loading: false }))
+      }
+    } catch (error) {
+      console.error('Error saving rating:', error)
+      setState(prev => ({ ...prev, loading: false }))
+    }
+  }
+
+  return {
+    ...state,
+    rate
+  }
+}
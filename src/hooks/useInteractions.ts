@@ -1,21 +1,58 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useAuth } from './useAuth'
+import { UNDO_WINDOW_MS } from '@/lib/interaction-history'
+import { isPlayStatus, type InteractionAction, type PlayStatus } from '@/lib/supabase'
 
 interface InteractionState {
   liked: boolean
   favorited: boolean
   played: boolean
+  status: PlayStatus | null
   loading: boolean
 }
 
+/**
+ * The last toggle, while it can still be undone
+ */
+export interface UndoableChange {
+  eventId: number
+  action: InteractionAction
+  added: boolean
+}
+
+// Map action names to state keys
+const stateKeys = { like: 'liked', favorite: 'favorited', played: 'played' } as const
+
+function isActive(state: InteractionState, action: InteractionAction): boolean {
+  return isPlayStatus(action) ? state.status === action : state[stateKeys[action]]
+}
+
+// The state after an add or remove, as the server will apply it
+function withInteraction(state: InteractionState, action: InteractionAction, present: boolean): InteractionState {
+  if (isPlayStatus(action)) {
+    // setting a status replaces the previous one
+    return { ...state, status: present ? action : null }
+  }
+  return { ...state, [stateKeys[action]]: present }
+}
+
 export function useInteractions(gameId: string) {
   const { user } = useAuth()
   const [state, setState] = useState<InteractionState>({
     liked: false,
     favorited: false,
     played: false,
+    status: null,
     loading: true
   })
+  const [lastChange, setLastChange] = useState<UndoableChange | null>(null)
+
+  // the undo prompt disappears once the window closes
+  useEffect(() => {
+    if (!lastChange) return
+    const timer = setTimeout(() => setLastChange(null), UNDO_WINDOW_MS)
+    return () => clearTimeout(timer)
+  }, [lastChange])
 
   // fetch current interaction state
   useEffect(() => {
@@ -34,6 +71,7 @@ export function useInteractions(gameId: string) {
             liked: result.data.liked,
             favorited: result.data.favorited,
             played: result.data.played,
+            status: result.data.status ?? null,
             loading: false
           })
         } else {
@@ -48,54 +86,102 @@ export function useInteractions(gameId: string) {
     fetchInteractions()
   }, [user, gameId])
 
-  // toggle interaction
-  const toggleInteraction = async (action: 'like' | 'favorite' | 'played') => {
+  // only the newest request for the game gets to settle the state
+  const latestRequest = useRef(0)
+
+  // toggle interaction: update the buttons straight away, send an
+  // idempotent PUT/DELETE, and roll back if it fails
+  const toggleInteraction = async (action: InteractionAction) => {
     if (!user) {
       alert('Please sign in to interact with games')
       return
     }
 
-    setState(prev => ({ ...prev, loading: true }))
+    const previous = state
+    const present = !isActive(state, action)
+    const request = ++latestRequest.current
+    setState(withInteraction(state, action, present))
 
     try {
       // Cookies are automatically sent with fetch requests
       // The middleware will handle session refresh if needed
-      const response = await fetch('/api/interactions', {
+      const response = present
+        ? await fetch('/api/interactions', {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            credentials: 'include', // Ensure cookies are sent
+            body: JSON.stringify({ gameId, action })
+          })
+        : await fetch(
+            `/api/interactions?gameId=${encodeURIComponent(gameId)}&action=${action}`,
+            { method: 'DELETE', credentials: 'include' }
+          )
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      if (request === latestRequest.current) {
+        setState({ ...result.data.state, loading: false })
+      }
+      if (result.data.eventId) {
+        setLastChange({ eventId: result.data.eventId, action, added: present })
+      }
+    } catch (error) {
+      console.error('Error updating interaction:', error)
+      // a newer request will settle the state itself
+      if (request === latestRequest.current) {
+        setState(previous)
+      }
+    }
+  }
+
+  // reverse the last toggle, restoring any play status it replaced
+  const undo = async () => {
+    if (!lastChange) return
+
+    const { eventId } = lastChange
+    setLastChange(null)
+    // any toggle still in flight is superseded by the undo's result
+    latestRequest.current++
+    setState(prev => ({ ...prev, loading: true }))
+
+    try {
+      const response = await fetch('/api/interactions/undo', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include', // Ensure cookies are sent
-        body: JSON.stringify({
-          gameId,
-          action
-        })
+        credentials: 'include',
+        body: JSON.stringify({ eventId })
       })
 
       const result = await response.json()
-      
+
       if (result.success) {
-        // Map action names to state keys
-        const stateKey = action === 'favorite' ? 'favorited' : action === 'like' ? 'liked' : action
-        setState(prev => ({
-          ...prev,
-          [stateKey]: result.action === 'added',
-          loading: false
-        }))
+        setState({ ...result.data, loading: false })
       } else {
-        console.error('Error toggling interaction:', result.error)
+        console.error('Error undoing interaction:', result.error)
         setState(prev => ({ ...prev, loading: false }))
       }
     } catch (error) {
-      console.error('Error toggling interaction:', error)
+      console.error('Error undoing interaction:', error)
       setState(prev => ({ ...prev, loading: false }))
     }
   }
 
   return {
     ...state,
+    lastChange,
+    undo,
     toggleLike: () => toggleInteraction('like'),
     toggleFavorite: () => toggleInteraction('favorite'),
-    togglePlayed: () => toggleInteraction('played')
+    togglePlayed: () => toggleInteraction('played'),
+    // Selecting the current status again clears it
+    toggleStatus: (status: PlayStatus) => toggleInteraction(status)
   }
 }
@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from './useAuth'
+import { totalMinutes, type PlaySession, type PlaySessionInput } from '@/lib/play-sessions'
+
+interface PlaySessionsState {
+  sessions: PlaySession[]
+  totalMinutes: number
+  loading: boolean
+}
+
+const sortSessions = (sessions: PlaySession[]) =>
+  [...sessions].sort((a, b) =>
+    b.played_on.localeCompare(a.played_on) || b.created_at.localeCompare(a.created_at)
+  )
+
+export function usePlaySessions(gameId: string) {
+  const { user } = useAuth()
+  const [state, setState] = useState<PlaySessionsState>({
+    sessions: [],
+    totalMinutes: 0,
+    loading: true
+  })
+
+  useEffect(() => {
+    if (!user || !gameId) {
+      setState({ sessions: [], totalMinutes: 0, loading: false })
+      return
+    }
+
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch(`/api/games/${encodeURIComponent(gameId)}/sessions`, {
+          credentials: 'include'
+        })
+        const result = await response.json()
+
+        if (result.success) {
+          setState({ ...result.data, loading: false })
+        } else {
+          setState(prev => ({ ...prev, loading: false }))
+        }
+      } catch (error) {
+        console.error('Error fetching play sessions:', error)
+        setState(prev => ({ ...prev, loading: false }))
+      }
+    }
+
+    fetchSessions()
+  }, [user, gameId])
+
+  const applySessions = (change: (sessions: PlaySession[]) => PlaySession[]) => {
+    setState(prev => {
+      const sessions = sortSessions(change(prev.sessions))
+      return { sessions, totalMinutes: totalMinutes(sessions), loading: false }
+    })
+  }
+
+  // each mutation resolves to an error message, or null on success
+  const logSession = async (input: PlaySessionInput): Promise<string | null> => {
+    if (!user) {
+      return 'Please sign in to log play sessions'
+    }
+
+    try {
+      const response = await fetch(`/api/games/${encodeURIComponent(gameId)}/sessions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(input)
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        return result.error || 'Failed to log session'
+      }
+      applySessions(sessions => [result.data, ...sessions])
+      return null
+    } catch (error) {
+      console.error('Error logging play session:', error)
+      return 'Failed to log session'
+    }
+  }
+
+  const updateSession = async (id: string, input: PlaySessionInput): Promise<string | null> => {
+    try {
+      const response = await fetch(`/api/games/${encodeURIComponent(gameId)}/sessions/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(input)
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        return result.error || 'Failed to update session'
+      }
+      applySessions(sessions => sessions.map(session => (session.id === id ? result.data : session)))
+      return null
+    } catch (error) {
+      console.error('Error updating play session:', error)
+      return 'Failed to update session'
+    }
+  }
+
+  const deleteSession = async (id: string): Promise<string | null> => {
+    try {
+      const response = await fetch(`/api/games/${encodeURIComponent(gameId)}/sessions/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        return result.error || 'Failed to delete session'
+      }
+      applySessions(sessions => sessions.filter(session => session.id !== id))
+      return null
+    } catch (error) {
+      console.error('Error deleting play session:', error)
+      return 'Failed to delete session'
+    }
+  }
+
+  return {
+    ...state,
+    logSession,
+    updateSession,
+    deleteSession
+  }
+}
@@ -0,0 +1,54 @@
+import type { User } from '@supabase/supabase-js'
+import { describe, expect, it } from 'vitest'
+import { collectAccountData } from './account'
+import type { TypedSupabaseClient } from './supabase'
+
+// Serves `rows` per table the way PostgREST does: at most 1000 per response
+function fakeSupabase(rows: Record<string, Array<Record<string, unknown>>>) {
+  const requests: string[] = []
+  const supabase = {
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        in: () => query,
+        order: () => query,
+        range: (from: number, to: number) => {
+          requests.push(`${table} ${from}-${to}`)
+          const page = (rows[table] ?? []).slice(from, Math.min(to + 1, from + 1000))
+          return Promise.resolve({ data: page, error: null })
+        },
+      }
+      return query
+    },
+  } as unknown as TypedSupabaseClient
+  return { supabase, requests }
+}
+
+const user = { id: 'user-1', email: 'player@example.com', created_at: '2024-01-01T00:00:00Z', user_metadata: {} } as User
+
+describe('collectAccountData', () => {
+  it('pages through tables with more rows than one response holds', async () => {
+    const interactions = Array.from({ length: 2500 }, (_, i) => ({ id: `interaction-${i}` }))
+    const { supabase, requests } = fakeSupabase({ user_interactions: interactions })
+
+    const { data } = await collectAccountData(supabase, user)
+
+    expect(data.user_interactions).toHaveLength(2500)
+    expect(requests.filter(request => request.startsWith('user_interactions '))).toEqual([
+      'user_interactions 0-999',
+      'user_interactions 1000-1999',
+      'user_interactions 2000-2999',
+    ])
+  })
+
+  it('pages through the games of the user\'s collections', async () => {
+    const games = Array.from({ length: 1000 }, (_, i) => ({ collection_id: 'c1', game_id: `game-${i}` }))
+    const { supabase, requests } = fakeSupabase({ collections: [{ id: 'c1' }], collection_games: games })
+
+    const { data } = await collectAccountData(supabase, user)
+
+    expect(data.collection_games).toHaveLength(1000)
+    expect(requests.filter(request => request.startsWith('collection_games'))).toHaveLength(2)
+  })
+})
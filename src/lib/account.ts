@@ -0,0 +1,156 @@
+// Personal data: export everything tied to a user, and delete or anonymise
+// it when they close their account
+
+import type { User } from '@supabase/supabase-js'
+import { DELETED_USER_NAME, getDisplayName } from './users'
+import type { TypedSupabaseClient } from './supabase'
+
+type ExportRow = Record<string, unknown>
+
+export interface AccountExport {
+  exported_at: string
+  account: {
+    id: string
+    email: string | null
+    name: string
+    created_at: string
+  }
+  /** Rows per table, named after the table they came from */
+  data: Record<string, ExportRow[]>
+}
+
+// Tables with a user_id column the user can read their own rows from
+const USER_TABLES = [
+  'user_interactions',
+  'interaction_events',
+  'recommendations',
+  'game_ratings',
+  'reviews',
+  'review_votes',
+  'review_reports',
+  'game_comments',
+  'collections',
+  'play_sessions',
+] as const
+
+// PostgREST's default max-rows; a shorter page is the last one
+const EXPORT_PAGE_SIZE = 1000
+
+type PageResult = { data: ExportRow[] | null; error: { message: string } | null }
+
+/**
+ * Every row of a query, a page at a time
+ * The query must be ordered on a unique key so pages don't overlap.
+ */
+async function readAllPages(table: string, page: (from: number, to: number) => PromiseLike<PageResult>): Promise<ExportRow[]> {
+  const rows: ExportRow[] = []
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await page(from, from + EXPORT_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to export ${table}: ${error.message}`)
+    }
+
+    rows.push(...(data ?? []))
+    if ((data ?? []).length < EXPORT_PAGE_SIZE) break
+  }
+
+  return rows
+}
+
+/**
+ * Everything the user has stored, read through their own session so RLS
+ * decides what counts as theirs
+ */
+export async function collectAccountData(supabase: TypedSupabaseClient, user: User): Promise<AccountExport> {
+  const data: Record<string, ExportRow[]> = {}
+
+  for (const table of USER_TABLES) {
+    // A user votes on a review once, so review_id is unique among their votes
+    const key = table === 'review_votes' ? 'review_id' : 'id'
+    data[table] = await readAllPages(table, (from, to) =>
+      supabase
+        .from(table)
+        .select('*')
+        .eq('user_id', user.id)
+        .order(key)
+        .range(from, to)
+    )
+  }
+
+  const collectionIds = data.collections.map(collection => collection.id as string)
+  data.collection_games = []
+  if (collectionIds.length > 0) {
+    data.collection_games = await readAllPages('collection_games', (from, to) =>
+      supabase
+        .from('collection_games')
+        .select('*')
+        .in('collection_id', collectionIds)
+        .order('collection_id')
+        .order('game_id')
+        .range(from, to)
+    )
+  }
+
+  return {
+    exported_at: new Date().toISOString(),
+    account: {
+      id: user.id,
+      email: user.email ?? null,
+      name: getDisplayName(user),
+      created_at: user.created_at,
+    },
+    data,
+  }
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Rows as CSV, with a column for every key any row has
+ */
+export function toCsv(rows: ExportRow[]): string {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))]
+  const lines = [columns.join(','), ...rows.map(row => columns.map(column => csvField(row[column])).join(','))]
+  return `${lines.join('\r\n')}\r\n`
+}
+
+/**
+ * Remove the user's private data and anonymise what other users rely on
+ * Reviews, comments and public collections stay up under DELETED_USER_NAME;
+ * everything else is deleted. Needs the service role client: the event log
+ * is append-only and votes move other users' helpful counts. The auth user
+ * itself is deleted separately.
+ */
+export async function deleteAccountData(admin: TypedSupabaseClient, userId: string): Promise<void> {
+  const steps: Array<[string, PromiseLike<{ error: { message: string } | null }>]> = [
+    ['reviews', admin.from('reviews').update({ user_id: null, author_name: DELETED_USER_NAME }).eq('user_id', userId)],
+    ['game_comments', admin.from('game_comments').update({ user_id: null, author_name: DELETED_USER_NAME }).eq('user_id', userId)],
+    [
+      'collections',
+      admin.from('collections').update({ user_id: null, owner_name: DELETED_USER_NAME }).eq('user_id', userId).eq('is_public', true),
+    ],
+    ['private collections', admin.from('collections').delete().eq('user_id', userId)],
+    ['interaction_events', admin.from('interaction_events').delete().eq('user_id', userId)],
+    ['user_interactions', admin.from('user_interactions').delete().eq('user_id', userId)],
+    ['recommendations', admin.from('recommendations').delete().eq('user_id', userId)],
+    ['game_ratings', admin.from('game_ratings').delete().eq('user_id', userId)],
+    ['review_votes', admin.from('review_votes').delete().eq('user_id', userId)],
+    ['review_reports', admin.from('review_reports').delete().eq('user_id', userId)],
+    ['play_sessions', admin.from('play_sessions').delete().eq('user_id', userId)],
+    ['moderators', admin.from('moderators').delete().eq('user_id', userId)],
+  ]
+
+  // One at a time: public collections must be anonymised before the rest go
+  for (const [label, step] of steps) {
+    const { error } = await step
+    if (error) {
+      throw new Error(`Failed to delete ${label}: ${error.message}`)
+    }
+  }
+}
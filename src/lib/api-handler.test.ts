@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server'
+import { describe, expect, it } from 'vitest'
+import { apiSuccess, readJson, withOptionalAuth } from './api-handler'
+
+describe('readJson', () => {
+  const handler = withOptionalAuth(async ({ request }) => apiSuccess(await readJson(request)))
+  const post = (body: string) =>
+    handler(new NextRequest('http://localhost/api/test', { method: 'POST', body }), { params: Promise.resolve({}) })
+
+  it('passes a JSON body through', async () => {
+    const response = await post('{"gameId":"celeste"}')
+    expect(await response.json()).toEqual({ success: true, data: { gameId: 'celeste' } })
+  })
+
+  it('answers a malformed body with a 400 envelope', async () => {
+    const response = await post('{"gameId":')
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ success: false, error: 'Invalid JSON body' })
+  })
+})
@@ -0,0 +1,163 @@
+// Route handler wrappers: Supabase session, cookie propagation and the
+// `{ success: false, error }` envelope shared by the API routes
+
+import { createServerClient, type CookieOptions } from '@supabase/ssr'
+import type { User } from '@supabase/supabase-js'
+import { NextResponse, type NextRequest } from 'next/server'
+import { isSupabaseConfigured, type Database, type TypedSupabaseClient } from './supabase'
+
+export interface ApiErrorBody {
+  success: false
+  error: string
+  details?: string
+}
+
+/**
+ * Throw from a wrapped handler to answer with an error envelope
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: string
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+export function apiError(error: string, status: number, details?: string): NextResponse<ApiErrorBody> {
+  return NextResponse.json(
+    details === undefined ? { success: false, error } : { success: false, error, details },
+    { status }
+  )
+}
+
+export function apiSuccess<T>(data: T, init?: ResponseInit) {
+  return NextResponse.json({ success: true as const, data }, init)
+}
+
+/**
+ * The request body as JSON; a body that isn't JSON is a 400, not a 500
+ */
+export async function readJson(request: Request): ReturnType<Request['json']> {
+  try {
+    return await request.json()
+  } catch {
+    throw new ApiError(400, 'Invalid JSON body')
+  }
+}
+
+type RouteParams = Record<string, string | string[]>
+
+interface RouteContext<P extends RouteParams> {
+  params: Promise<P>
+}
+
+export interface OptionalAuthContext<P extends RouteParams = RouteParams> {
+  request: NextRequest
+  /** null when Supabase isn't configured (offline mode) */
+  supabase: TypedSupabaseClient | null
+  user: User | null
+  params: P
+}
+
+export interface AuthContext<P extends RouteParams = RouteParams> {
+  request: NextRequest
+  supabase: TypedSupabaseClient
+  user: User
+  params: P
+}
+
+interface CookieToSet {
+  name: string
+  value: string
+  options: CookieOptions
+}
+
+/**
+ * Build a request-scoped client and look up the user
+ * Cookies Supabase refreshes along the way are collected in cookieJar.
+ */
+async function resolveSession(request: NextRequest, cookieJar: CookieToSet[]) {
+  if (!isSupabaseConfigured()) {
+    return { supabase: null, user: null }
+  }
+
+  const supabase = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(cookie => {
+            request.cookies.set(cookie.name, cookie.value)
+            cookieJar.push(cookie)
+          })
+        },
+      },
+    }
+  )
+
+  const { data: { user } } = await supabase.auth.getUser()
+  return { supabase, user }
+}
+
+/**
+ * Copy refreshed session cookies onto whatever the handler answered with
+ */
+function withCookies(response: Response, cookieJar: CookieToSet[]): Response {
+  if (cookieJar.length === 0) return response
+
+  const nextResponse = response instanceof NextResponse
+    ? response
+    : new NextResponse(response.body, response)
+  cookieJar.forEach(({ name, value, options }) => nextResponse.cookies.set(name, value, options))
+  return nextResponse
+}
+
+function toErrorResponse(request: NextRequest, error: unknown): NextResponse<ApiErrorBody> {
+  if (error instanceof ApiError) {
+    return apiError(error.message, error.status, error.details)
+  }
+
+  console.error(`Error in ${request.method} ${request.nextUrl.pathname}:`, error)
+  return apiError('Internal server error', 500)
+}
+
+/**
+ * Wrap a route handler that works with or without a signed-in user
+ * Thrown ApiErrors become error envelopes; anything else is logged and
+ * answered with a 500.
+ */
+export function withOptionalAuth<P extends RouteParams = RouteParams>(
+  handler: (context: OptionalAuthContext<P>) => Promise<Response>
+) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    const cookieJar: CookieToSet[] = []
+    try {
+      const { supabase, user } = await resolveSession(request, cookieJar)
+      const response = await handler({ request, supabase, user, params: await context.params })
+      return withCookies(response, cookieJar)
+    } catch (error) {
+      return withCookies(toErrorResponse(request, error), cookieJar)
+    }
+  }
+}
+
+/**
+ * Wrap a route handler that requires a signed-in user (401 otherwise)
+ */
+export function withAuth<P extends RouteParams = RouteParams>(
+  handler: (context: AuthContext<P>) => Promise<Response>
+) {
+  return withOptionalAuth<P>(async ({ request, supabase, user, params }) => {
+    if (!supabase || !user) {
+      throw new ApiError(401, 'Authentication required')
+    }
+    return handler({ request, supabase, user, params })
+  })
+}
@@ -0,0 +1,40 @@
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { createFixtureCatalogProvider, GameNotFoundError, getCatalogProvider } from '.'
+
+const provider = createFixtureCatalogProvider(path.join(process.cwd(), 'fixtures', 'catalog'))
+
+describe('fixture catalog provider', () => {
+  it('is the active provider when GAME_CATALOG_PROVIDER=fixture', () => {
+    expect(getCatalogProvider().name).toBe('fixture')
+  })
+
+  it('searches titles and tags', async () => {
+    expect((await provider.searchGames('portal')).results.map(game => game.slug)).toEqual(['portal-2'])
+    expect((await provider.searchGames('roguelike')).results.map(game => game.slug)).toEqual(['hades'])
+  })
+
+  it('gets a game by slug and throws GameNotFoundError for unknown ones', async () => {
+    expect((await provider.getGameBySlug('celeste')).id).toBe(58751)
+    await expect(provider.getGameBySlug('no-such-game')).rejects.toBeInstanceOf(GameNotFoundError)
+  })
+
+  it('lists games in pages', async () => {
+    const first = await provider.listGames({ page: 1, pageSize: 2, ordering: 'name' })
+    expect(first.count).toBe(3)
+    expect(first.results.map(game => game.slug)).toEqual(['celeste', 'hades'])
+    expect(first.next).not.toBeNull()
+
+    const second = await provider.listGames({ page: 2, pageSize: 2, ordering: 'name' })
+    expect(second.results.map(game => game.slug)).toEqual(['portal-2'])
+    expect(second.next).toBeNull()
+  })
+
+  it('falls back to the screenshots and movies embedded in game fixtures', async () => {
+    expect((await provider.getScreenshots(58751)).results).toHaveLength(1)
+    // No movies/ fixture and an empty embedded list
+    expect(await provider.getMovies(58751)).toEqual({ count: 0, next: null, previous: null, results: [] })
+    await expect(provider.getMovies(1)).rejects.toBeInstanceOf(GameNotFoundError)
+    await expect(provider.getScreenshots(1)).rejects.toBeInstanceOf(GameNotFoundError)
+  })
+})
@@ -0,0 +1,130 @@
+// Offline catalog provider backed by JSON fixtures
+//
+// Directory layout:
+//   <dir>/games/<slug>.json       one RAWGGame per file
+//   <dir>/screenshots/<id>.json   optional RAWGScreenshotResult per RAWG id
+//   <dir>/movies/<id>.json        optional RAWGTrailerResult per RAWG id
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type {
+  RAWGGame,
+  RAWGScreenshotResult,
+  RAWGSearchResult,
+  RAWGTrailerResult,
+} from '../rawg'
+import { filterGames } from '../game-filters'
+import { orderGames } from '../game-search'
+import { GameNotFoundError, type GameCatalogProvider } from './types'
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+function paginate(games: RAWGGame[], page: number, pageSize: number): RAWGSearchResult {
+  const start = (page - 1) * pageSize
+  return {
+    count: games.length,
+    next: start + pageSize < games.length ? `?page=${page + 1}` : null,
+    previous: page > 1 ? `?page=${page - 1}` : null,
+    results: games.slice(start, start + pageSize),
+  }
+}
+
+export function createFixtureCatalogProvider(directory: string): GameCatalogProvider {
+  let gamesPromise: Promise<RAWGGame[]> | null = null
+
+  // Fixtures are read once per provider instance
+  const loadGames = () => {
+    if (!gamesPromise) {
+      gamesPromise = (async () => {
+        const gamesDir = path.join(directory, 'games')
+        const files = (await fs.readdir(gamesDir)).filter(file => file.endsWith('.json')).sort()
+        const games = await Promise.all(
+          files.map(file => readJson<RAWGGame>(path.join(gamesDir, file)))
+        )
+        return games.filter((game): game is RAWGGame => game !== null)
+      })()
+    }
+    return gamesPromise
+  }
+
+  const findById = async (gameId: number) => {
+    const game = (await loadGames()).find(g => g.id === gameId)
+    if (!game) {
+      throw new GameNotFoundError(`No fixture game with id ${gameId}`)
+    }
+    return game
+  }
+
+  return {
+    name: 'fixture',
+
+    async searchGames(query, { page = 1, pageSize = 20, filters, ordering } = {}) {
+      const needle = query.trim().toLowerCase()
+      const matches = filterGames(await loadGames(), filters).filter(game =>
+        game.name.toLowerCase().includes(needle) ||
+        game.tags?.some(tag => tag.name.toLowerCase().includes(needle))
+      )
+      return paginate(orderGames(matches, ordering), page, pageSize)
+    },
+
+    async getGameBySlug(slug) {
+      const game = (await loadGames()).find(g => g.slug === slug)
+      if (!game) {
+        throw new GameNotFoundError()
+      }
+      return game
+    },
+
+    async listGames({ page = 1, pageSize = 20, ordering, filters } = {}) {
+      return paginate(orderGames(filterGames(await loadGames(), filters), ordering), page, pageSize)
+    },
+
+    async getRandomGames(page, pageSize = 20) {
+      const rated = (await loadGames()).filter(game => game.rating > 0)
+      const shuffled = [...rated]
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+      }
+      const results = shuffled.slice(0, pageSize)
+      return { count: results.length, next: null, previous: null, results }
+    },
+
+    async getScreenshots(gameId) {
+      const fixture = await readJson<RAWGScreenshotResult>(
+        path.join(directory, 'screenshots', `${gameId}.json`)
+      )
+      if (fixture) return fixture
+
+      // Fall back to the short screenshots embedded in the game fixture
+      const game = await findById(gameId)
+      const results = (game.short_screenshots || []).map(screenshot => ({
+        ...screenshot,
+        width: 1280,
+        height: 720,
+        is_deleted: false,
+      }))
+      return { count: results.length, next: null, previous: null, results }
+    },
+
+    async getMovies(gameId) {
+      const fixture = await readJson<RAWGTrailerResult>(
+        path.join(directory, 'movies', `${gameId}.json`)
+      )
+      if (fixture) return fixture
+
+      const game = await findById(gameId)
+      const results = game.movies || []
+      return { count: results.length, next: null, previous: null, results }
+    },
+  }
+}
@@ -0,0 +1,53 @@
+// Game catalog entry point: picks the provider used by routes and pages
+
+import path from 'path'
+import { getRawgErrorStatus } from '../rawg'
+import { createFixtureCatalogProvider } from './fixture-provider'
+import { rawgCatalogProvider } from './rawg-provider'
+import { GameNotFoundError, type GameCatalogProvider } from './types'
+
+export { createFixtureCatalogProvider } from './fixture-provider'
+export { rawgCatalogProvider } from './rawg-provider'
+export { GameNotFoundError } from './types'
+export type { GameCatalogProvider, ListGamesOptions } from './types'
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'catalog')
+
+let catalogProvider: GameCatalogProvider | null = null
+
+/**
+ * Get the active catalog provider
+ * Set GAME_CATALOG_PROVIDER=fixture (and optionally GAME_CATALOG_FIXTURES_DIR)
+ * to serve games from local JSON files instead of RAWG.
+ */
+export function getCatalogProvider(): GameCatalogProvider {
+  if (!catalogProvider) {
+    const providerName = process.env.GAME_CATALOG_PROVIDER || 'rawg'
+
+    if (providerName === 'fixture') {
+      catalogProvider = createFixtureCatalogProvider(
+        process.env.GAME_CATALOG_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+      )
+    } else if (providerName === 'rawg') {
+      catalogProvider = rawgCatalogProvider
+    } else {
+      throw new Error(`Unknown GAME_CATALOG_PROVIDER: ${providerName}`)
+    }
+  }
+  return catalogProvider
+}
+
+/**
+ * Replace the active provider (e.g. with a fixture provider in tests)
+ */
+export function setCatalogProvider(provider: GameCatalogProvider): void {
+  catalogProvider = provider
+}
+
+/**
+ * Map a catalog error to the HTTP status an API route should answer with
+ */
+export function getCatalogErrorStatus(error: unknown): number {
+  if (error instanceof GameNotFoundError) return 404
+  return getRawgErrorStatus(error)
+}
@@ -0,0 +1,38 @@
+// RAWG-backed catalog provider
+
+import {
+  fetchGameBySlug,
+  fetchGameScreenshots,
+  fetchGameTrailers,
+  getRandomGames,
+  getTrendingGames,
+  RawgNotFoundError,
+  searchGames,
+} from '../rawg'
+import { GameNotFoundError, type GameCatalogProvider } from './types'
+
+/**
+ * Translate RAWG 404s into the provider-agnostic GameNotFoundError
+ */
+async function mapNotFound<T>(request: Promise<T>): Promise<T> {
+  try {
+    return await request
+  } catch (error) {
+    if (error instanceof RawgNotFoundError) {
+      throw new GameNotFoundError(error.message)
+    }
+    throw error
+  }
+}
+
+export const rawgCatalogProvider: GameCatalogProvider = {
+  name: 'rawg',
+  searchGames: (query, { page, pageSize, filters, ordering } = {}) =>
+    searchGames(query, page, pageSize, filters, ordering),
+  getGameBySlug: (slug) => mapNotFound(fetchGameBySlug(slug)),
+  listGames: ({ page, pageSize, ordering, filters } = {}) =>
+    getTrendingGames(page, pageSize, ordering, filters),
+  getRandomGames: (page, pageSize) => getRandomGames(page, pageSize),
+  getScreenshots: (gameId) => mapNotFound(fetchGameScreenshots(gameId)),
+  getMovies: (gameId) => mapNotFound(fetchGameTrailers(gameId)),
+}
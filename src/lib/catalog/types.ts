@@ -0,0 +1,42 @@
+// Game catalog provider interface
+
+import type {
+  RAWGGame,
+  RAWGRandomGameResult,
+  RAWGScreenshotResult,
+  RAWGSearchResult,
+  RAWGTrailerResult,
+} from '../rawg'
+import type { GameFilters } from '../game-filters'
+
+export interface ListGamesOptions {
+  page?: number
+  pageSize?: number
+  ordering?: string
+  filters?: GameFilters
+}
+
+/**
+ * Source of game data for routes and pages
+ * Results use the RAWG response shapes, which the rest of the app is built around.
+ * Implementations throw GameNotFoundError for unknown games.
+ */
+export interface GameCatalogProvider {
+  readonly name: string
+  searchGames(query: string, options?: ListGamesOptions): Promise<RAWGSearchResult>
+  getGameBySlug(slug: string): Promise<RAWGGame>
+  listGames(options?: ListGamesOptions): Promise<RAWGSearchResult>
+  getRandomGames(page?: number, pageSize?: number): Promise<RAWGRandomGameResult>
+  getScreenshots(gameId: number): Promise<RAWGScreenshotResult>
+  getMovies(gameId: number): Promise<RAWGTrailerResult>
+}
+
+/**
+ * The catalog has no game (or media) for the requested identifier
+ */
+export class GameNotFoundError extends Error {
+  constructor(message: string = 'Game not found') {
+    super(message)
+    this.name = 'GameNotFoundError'
+  }
+}
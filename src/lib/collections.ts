@@ -0,0 +1,175 @@
+// User-curated collections: response shapes, validation and summaries
+
+import type { GameSummary } from './game-normalization'
+import type { Database, TypedSupabaseClient } from './supabase'
+
+export type CollectionRow = Database['public']['Tables']['collections']['Row']
+
+/**
+ * A collection in a list (panels, pickers, "my collections")
+ */
+export interface CollectionSummary {
+  id: string
+  name: string
+  description: string | null
+  is_public: boolean
+  owner_name: string
+  is_own: boolean
+  game_count: number
+  /** Background of the first game in the list */
+  cover_image: string | null
+  updated_at: string
+  /** Only set when the listing was asked about a specific game */
+  contains_game?: boolean
+}
+
+/**
+ * A collection with its games, in list order
+ */
+export interface CollectionDetail extends Omit<CollectionSummary, 'contains_game'> {
+  created_at: string
+  games: GameSummary[]
+}
+
+/** Mirrors the check constraints in db/migrations/010_collections.sql */
+export const COLLECTION_LIMITS = {
+  name: 80,
+  description: 1000,
+}
+
+export interface CollectionInput {
+  name: string
+  description: string | null
+  is_public: boolean
+}
+
+export type CollectionInputResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * Validate a create (name required) or update (any subset) request body
+ */
+export function parseCollectionInput(input: unknown, partial: true): CollectionInputResult<Partial<CollectionInput>>
+export function parseCollectionInput(input: unknown, partial?: false): CollectionInputResult<CollectionInput>
+export function parseCollectionInput(
+  input: unknown,
+  partial = false
+): CollectionInputResult<Partial<CollectionInput>> {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Invalid request body' }
+  }
+
+  const body = input as Record<string, unknown>
+  const data: Partial<CollectionInput> = {}
+
+  if (!partial || 'name' in body) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'Name is required' }
+    if (name.length > COLLECTION_LIMITS.name) {
+      return { error: `Name must be at most ${COLLECTION_LIMITS.name} characters` }
+    }
+    data.name = name
+  }
+
+  if ('description' in body) {
+    const description = typeof body.description === 'string' ? body.description.trim() : ''
+    if (description.length > COLLECTION_LIMITS.description) {
+      return { error: `Description must be at most ${COLLECTION_LIMITS.description} characters` }
+    }
+    data.description = description || null
+  } else if (!partial) {
+    data.description = null
+  }
+
+  if ('is_public' in body) {
+    if (typeof body.is_public !== 'boolean') {
+      return { error: 'is_public must be a boolean' }
+    }
+    data.is_public = body.is_public
+  } else if (!partial) {
+    data.is_public = false
+  }
+
+  if (partial && Object.keys(data).length === 0) {
+    return { error: 'Nothing to update' }
+  }
+
+  return { data }
+}
+
+/**
+ * Look up a collection the caller can see (public, or their own)
+ */
+export async function getCollection(supabase: TypedSupabaseClient, id: string): Promise<CollectionRow | null> {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load collection ${id}: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Add game counts and cover images to collection rows
+ * With `gameId`, also flags which collections already contain that game.
+ */
+export async function summarizeCollections(
+  supabase: TypedSupabaseClient,
+  collections: CollectionRow[],
+  viewerId: string | null,
+  gameId?: string
+): Promise<CollectionSummary[]> {
+  if (collections.length === 0) return []
+
+  const { data: entries, error } = await supabase
+    .from('collection_games')
+    .select('collection_id, game_id, position')
+    .in('collection_id', collections.map(collection => collection.id))
+    .order('position', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load collection games: ${error.message}`)
+  }
+
+  const gamesByCollection = new Map<string, string[]>()
+  for (const entry of entries) {
+    const slugs = gamesByCollection.get(entry.collection_id) || []
+    slugs.push(entry.game_id)
+    gamesByCollection.set(entry.collection_id, slugs)
+  }
+
+  const coverSlugs = [...gamesByCollection.values()].map(slugs => slugs[0])
+  const covers = new Map<string, string | null>()
+  if (coverSlugs.length > 0) {
+    const { data: games } = await supabase
+      .from('games')
+      .select('slug, background_image')
+      .in('slug', coverSlugs)
+    for (const game of games || []) {
+      covers.set(game.slug, game.background_image)
+    }
+  }
+
+  return collections.map(collection => {
+    const slugs = gamesByCollection.get(collection.id) || []
+    const summary: CollectionSummary = {
+      id: collection.id,
+      name: collection.name,
+      description: collection.description,
+      is_public: collection.is_public,
+      owner_name: collection.owner_name,
+      is_own: viewerId !== null && collection.user_id === viewerId,
+      game_count: slugs.length,
+      cover_image: slugs.length > 0 ? covers.get(slugs[0]) ?? null : null,
+      updated_at: collection.updated_at,
+    }
+    if (gameId !== undefined) {
+      summary.contains_game = slugs.includes(gameId)
+    }
+    return summary
+  })
+}
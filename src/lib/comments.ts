@@ -0,0 +1,122 @@
+// Threaded game comments: response shapes, threading and cursors
+
+import { renderMarkdownLite } from './markdown-lite'
+import type { Database } from './supabase'
+
+export type CommentRow = Database['public']['Tables']['game_comments']['Row']
+
+/**
+ * A comment as the API returns it
+ * Deleted comments come back as tombstones (no author or text) when they
+ * still have replies, and are left out otherwise.
+ */
+export interface Comment {
+  id: string
+  parent_id: string | null
+  review_id: string | null
+  depth: number
+  author_name: string | null
+  /** Raw markdown-lite, for the edit form */
+  body: string | null
+  /** Sanitised HTML rendered from body */
+  body_html: string | null
+  created_at: string
+  edited_at: string | null
+  deleted: boolean
+  is_own: boolean
+  replies: Comment[]
+}
+
+export const COMMENTS_PAGE_SIZE = 20
+
+/** Mirrors the check constraints in db/migrations/009_game_comments.sql */
+export const COMMENT_MAX_LENGTH = 2000
+export const MAX_COMMENT_DEPTH = 4
+
+export function toComment(row: CommentRow, viewerId: string | null): Comment {
+  const deleted = row.deleted_at !== null
+  return {
+    id: row.id,
+    parent_id: row.parent_id,
+    review_id: row.review_id,
+    depth: row.depth,
+    author_name: deleted ? null : row.author_name,
+    body: deleted ? null : row.body,
+    body_html: deleted ? null : renderMarkdownLite(row.body),
+    created_at: row.created_at,
+    edited_at: row.edited_at,
+    deleted,
+    is_own: !deleted && viewerId !== null && row.user_id === viewerId,
+    replies: [],
+  }
+}
+
+/**
+ * Nest replies under their parents (oldest reply first) and drop
+ * tombstones nobody replied to
+ */
+export function buildThreads(roots: CommentRow[], replies: CommentRow[], viewerId: string | null): Comment[] {
+  const byId = new Map<string, Comment>()
+  const threads = roots.map(row => {
+    const comment = toComment(row, viewerId)
+    byId.set(row.id, comment)
+    return comment
+  })
+
+  const sortedReplies = [...replies].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  for (const row of sortedReplies) {
+    const comment = toComment(row, viewerId)
+    byId.set(row.id, comment)
+    const parent = row.parent_id ? byId.get(row.parent_id) : undefined
+    parent?.replies.push(comment)
+  }
+
+  const prune = (comments: Comment[]): Comment[] =>
+    comments.flatMap(comment => {
+      comment.replies = prune(comment.replies)
+      return comment.deleted && comment.replies.length === 0 ? [] : [comment]
+    })
+
+  return prune(threads)
+}
+
+export function parseCommentBody(value: unknown): { body: string; error?: undefined } | { body?: undefined; error: string } {
+  const body = typeof value === 'string' ? value.trim() : ''
+  if (!body) return { error: 'Comment text is required' }
+  if (body.length > COMMENT_MAX_LENGTH) {
+    return { error: `Comments must be at most ${COMMENT_MAX_LENGTH} characters` }
+  }
+  return { body }
+}
+
+export interface CommentCursor {
+  createdAt: string
+  id: string
+}
+
+/**
+ * Opaque cursor for the next page of top-level comments (newest first)
+ */
+export function encodeCursor(row: Pick<CommentRow, 'created_at' | 'id'>): string {
+  return Buffer.from(`${row.created_at}|${row.id}`).toString('base64url')
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Comment ids are uuids; anything else would fail the cast in Postgres
+ */
+export function isCommentId(id: unknown): id is string {
+  return typeof id === 'string' && UUID_PATTERN.test(id)
+}
+
+/**
+ * Parse a cursor from the client; it ends up in a PostgREST filter, so
+ * anything but a timestamp and a uuid is rejected
+ */
+export function decodeCursor(cursor: string): CommentCursor | null {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|')
+  if (!createdAt || !id || !UUID_PATTERN.test(id) || !/^[\d\-T:.+Z ]+$/.test(createdAt)) return null
+  if (Number.isNaN(Date.parse(createdAt))) return null
+  return { createdAt, id }
+}
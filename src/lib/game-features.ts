@@ -0,0 +1,243 @@
+// Content features of a game: the names in its genre, tag, platform and
+// developer lists, and its numeric fields scaled to 0-1.
+//
+// extractGameFeatures is the one model feature pipeline: the training
+// script builds its examples with it and the server scores candidates with
+// it. The schema (version plus vocabularies) is saved with the model, and
+// loadModel refuses a model whose schema hash doesn't match this code. The
+// similar-games job (game-similarity.ts) builds its own vectors but reads
+// names with featureNames and scales rating and year with the helpers here.
+//
+// Like game-normalization, this only has relative imports so the Node
+// scripts can load it (see scripts/register-ts.js).
+
+import { readRefs, toNumber } from './game-normalization'
+
+/**
+ * The columns features are read from; `games` rows and RAWG games both fit
+ */
+export interface GameFeatureInput {
+  genres?: unknown
+  tags?: unknown
+  platforms?: unknown
+  developers?: unknown
+  rating?: number | string | null
+  metacritic?: number | null
+  playtime?: number | null
+  released?: string | null
+}
+
+export type GameFeatureList = 'genres' | 'tags' | 'platforms' | 'developers'
+
+/**
+ * Names in one of the game's lists, skipping unnamed entries
+ */
+export function featureNames(game: GameFeatureInput, list: GameFeatureList): string[] {
+  const refs = list === 'platforms' ? readRefs(game.platforms, 'platform') : readRefs(game[list])
+  return refs.map(ref => ref.name).filter(Boolean)
+}
+
+/** Rating out of 5, scaled to 0-1; 0.5 when unknown */
+export function normalizedRating(game: GameFeatureInput): number {
+  const rating = toNumber(game.rating)
+  return rating ? rating / 5.0 : 0.5
+}
+
+/** Metacritic score scaled to 0-1; 0.5 when unknown */
+export function normalizedMetacritic(game: GameFeatureInput): number {
+  return game.metacritic ? game.metacritic / 100.0 : 0.5
+}
+
+/** Average playtime on a log scale, 100+ hours is 1; 0.5 when unknown */
+export function normalizedPlaytime(game: GameFeatureInput): number {
+  return game.playtime
+    ? Math.min(Math.log10(game.playtime + 1) / Math.log10(101), 1.0)
+    : 0.5
+}
+
+/** Release year from 1990 (0) to this year (1); 0.5 when unknown */
+export function normalizedReleaseYear(game: GameFeatureInput, currentYear = new Date().getFullYear()): number {
+  if (!game.released) return 0.5
+  const year = new Date(game.released).getFullYear()
+  return Math.min((year - 1990) / (currentYear - 1990), 1.0)
+}
+
+/**
+ * Bump whenever extractGameFeatures changes what a position means; models
+ * trained on another version are refused
+ */
+export const FEATURE_SCHEMA_VERSION = 2
+
+/** How many of the most common tags get a feature */
+export const MODEL_TAG_COUNT = 20
+
+// The vector layout, part of the schema hash. Keep in step with
+// extractGameFeatures.
+const FEATURE_LAYOUT = [
+  'genres:one-hot',
+  `tags:top-${MODEL_TAG_COUNT}-one-hot`,
+  'platforms:one-hot',
+  'rating:/5',
+  'metacritic:/100',
+  'playtime:log-100h',
+  'released:1990-reference-year',
+]
+
+/**
+ * What a model's feature vectors were built from
+ */
+export interface FeatureSchema {
+  version: number
+  genres: string[]
+  tags: string[]
+  platforms: string[]
+  /** Year release dates are scaled against, fixed when the model is trained */
+  referenceYear: number
+}
+
+/**
+ * The schema as metadata.json records it (the vocabularies are stored as
+ * genreList, tagList and platformList)
+ */
+export interface FeatureSchemaInfo {
+  version: number
+  hash: string
+  referenceYear: number
+}
+
+/**
+ * Vocabularies for a training catalog: every genre and platform, and the
+ * MODEL_TAG_COUNT most common tags. Sorted, so the same catalog always
+ * gives the same schema.
+ */
+export function createFeatureSchema(
+  games: GameFeatureInput[],
+  referenceYear = new Date().getFullYear()
+): FeatureSchema {
+  const counts = (list: GameFeatureList) => {
+    const counted = new Map<string, number>()
+    for (const game of games) {
+      for (const name of new Set(featureNames(game, list))) {
+        counted.set(name, (counted.get(name) ?? 0) + 1)
+      }
+    }
+    return [...counted].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([name]) => name)
+  }
+
+  return {
+    version: FEATURE_SCHEMA_VERSION,
+    genres: counts('genres').sort(),
+    tags: counts('tags').slice(0, MODEL_TAG_COUNT),
+    platforms: counts('platforms').sort(),
+    referenceYear,
+  }
+}
+
+/** Length of the vectors extractGameFeatures builds for a schema */
+export function featureVectorSize(schema: FeatureSchema): number {
+  return schema.genres.length + schema.tags.length + schema.platforms.length + 4
+}
+
+function oneHot(names: string[], vocabulary: string[]): number[] {
+  const vector = new Array(vocabulary.length).fill(0)
+  for (const name of names) {
+    const index = vocabulary.indexOf(name)
+    if (index >= 0) vector[index] = 1
+  }
+  return vector
+}
+
+/**
+ * The model's input features for a game: one-hot genres, tags and
+ * platforms, then rating, metacritic, playtime and release year
+ */
+export function extractGameFeatures(game: GameFeatureInput, schema: FeatureSchema): number[] {
+  return [
+    ...oneHot(featureNames(game, 'genres'), schema.genres),
+    ...oneHot(featureNames(game, 'tags'), schema.tags),
+    ...oneHot(featureNames(game, 'platforms'), schema.platforms),
+    normalizedRating(game),
+    normalizedMetacritic(game),
+    normalizedPlaytime(game),
+    normalizedReleaseYear(game, schema.referenceYear),
+  ]
+}
+
+/**
+ * Fingerprint of a schema and the layout this code encodes it with
+ * (FNV-1a over its JSON form)
+ */
+export function featureSchemaHash(schema: FeatureSchema): string {
+  const text = JSON.stringify([
+    schema.version,
+    FEATURE_LAYOUT,
+    schema.genres,
+    schema.tags,
+    schema.platforms,
+    schema.referenceYear,
+  ])
+
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `v${schema.version}-${(hash >>> 0).toString(16).padStart(8, '0')}`
+}
+
+/**
+ * What to record in metadata.json next to the vocabularies
+ */
+export function describeFeatureSchema(schema: FeatureSchema): FeatureSchemaInfo {
+  return {
+    version: schema.version,
+    hash: featureSchemaHash(schema),
+    referenceYear: schema.referenceYear,
+  }
+}
+
+export type FeatureSchemaInput = { data: FeatureSchema; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * The schema a saved model was trained with, provided this code encodes
+ * features the same way
+ */
+export function parseFeatureSchema(metadata: {
+  featureSchema?: FeatureSchemaInfo
+  genreList: string[]
+  tagList: string[]
+  platformList: string[]
+  featureSize: number
+}): FeatureSchemaInput {
+  const info = metadata.featureSchema
+  if (!info) {
+    return { error: 'Model metadata has no feature schema; retrain the model' }
+  }
+
+  if (info.version !== FEATURE_SCHEMA_VERSION) {
+    return {
+      error: `Model uses feature schema v${info.version}, this code extracts v${FEATURE_SCHEMA_VERSION}; retrain the model`,
+    }
+  }
+
+  const schema: FeatureSchema = {
+    version: info.version,
+    genres: metadata.genreList,
+    tags: metadata.tagList,
+    platforms: metadata.platformList,
+    referenceYear: info.referenceYear,
+  }
+
+  const hash = featureSchemaHash(schema)
+  if (hash !== info.hash) {
+    return { error: `Feature schema hash ${info.hash} does not match ${hash}; retrain the model` }
+  }
+
+  if (featureVectorSize(schema) !== metadata.featureSize) {
+    return {
+      error: `Model expects ${metadata.featureSize} features, the schema gives ${featureVectorSize(schema)}`,
+    }
+  }
+
+  return { data: schema }
+}
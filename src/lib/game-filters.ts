@@ -0,0 +1,173 @@
+// Game browse filters and their query string representation
+// Shared by the games page (URL state), the API routes and the catalog providers
+
+import type { RAWGGame } from './rawg'
+
+export interface GameFilters {
+  genres?: string[]
+  tags?: string[]
+  /** RAWG platform ids */
+  platforms?: string[]
+  /** RAWG store ids */
+  stores?: string[]
+  developers?: string[]
+  publishers?: string[]
+  /** Inclusive release date bounds, YYYY-MM-DD */
+  releasedFrom?: string
+  releasedTo?: string
+  metacriticMin?: number
+  metacriticMax?: number
+}
+
+export const GAME_FILTER_LIST_KEYS = [
+  'genres',
+  'tags',
+  'platforms',
+  'stores',
+  'developers',
+  'publishers',
+] as const
+
+export type GameFilterListKey = typeof GAME_FILTER_LIST_KEYS[number]
+
+const NUMERIC_LIST_KEYS: GameFilterListKey[] = ['platforms', 'stores']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const SLUG_PATTERN = /^[a-z0-9-]+$/
+
+function parseList(key: GameFilterListKey, value: string | null): string[] | undefined {
+  if (!value) return undefined
+
+  const pattern = NUMERIC_LIST_KEYS.includes(key) ? /^\d+$/ : SLUG_PATTERN
+  const items = value
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(item => pattern.test(item))
+
+  return items.length > 0 ? [...new Set(items)] : undefined
+}
+
+function parseMetacritic(value: string | null): number | undefined {
+  if (!value) return undefined
+  const score = parseInt(value)
+  if (Number.isNaN(score)) return undefined
+  return Math.min(100, Math.max(0, score))
+}
+
+/**
+ * Read filters from query params, dropping anything malformed
+ */
+export function parseGameFilters(params: URLSearchParams): GameFilters {
+  const filters: GameFilters = {}
+
+  for (const key of GAME_FILTER_LIST_KEYS) {
+    const items = parseList(key, params.get(key))
+    if (items) filters[key] = items
+  }
+
+  const releasedFrom = params.get('releasedFrom')
+  if (releasedFrom && DATE_PATTERN.test(releasedFrom)) filters.releasedFrom = releasedFrom
+
+  const releasedTo = params.get('releasedTo')
+  if (releasedTo && DATE_PATTERN.test(releasedTo)) filters.releasedTo = releasedTo
+
+  const metacriticMin = parseMetacritic(params.get('metacriticMin'))
+  if (metacriticMin !== undefined) filters.metacriticMin = metacriticMin
+
+  const metacriticMax = parseMetacritic(params.get('metacriticMax'))
+  if (metacriticMax !== undefined) filters.metacriticMax = metacriticMax
+
+  return filters
+}
+
+/**
+ * Write filters into query params, removing keys for unset filters
+ * Other params (page, ordering, ...) are left untouched.
+ */
+export function serializeGameFilters(
+  filters: GameFilters,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  for (const key of GAME_FILTER_LIST_KEYS) {
+    const items = filters[key]
+    if (items && items.length > 0) {
+      params.set(key, items.join(','))
+    } else {
+      params.delete(key)
+    }
+  }
+
+  const scalars: Array<[string, string | number | undefined]> = [
+    ['releasedFrom', filters.releasedFrom],
+    ['releasedTo', filters.releasedTo],
+    ['metacriticMin', filters.metacriticMin],
+    ['metacriticMax', filters.metacriticMax],
+  ]
+  for (const [key, value] of scalars) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value))
+    } else {
+      params.delete(key)
+    }
+  }
+
+  return params
+}
+
+export function hasActiveFilters(filters: GameFilters): boolean {
+  return serializeGameFilters(filters).toString() !== ''
+}
+
+/**
+ * Translate filters into RAWG /games query params
+ * RAWG expects ranges as "from,to", so open-ended ranges get a wide bound.
+ */
+export function applyRawgFilterParams(filters: GameFilters, params: URLSearchParams): URLSearchParams {
+  for (const key of GAME_FILTER_LIST_KEYS) {
+    const items = filters[key]
+    if (items && items.length > 0) {
+      params.set(key, items.join(','))
+    }
+  }
+
+  if (filters.releasedFrom || filters.releasedTo) {
+    params.set('dates', `${filters.releasedFrom || '1900-01-01'},${filters.releasedTo || '2100-12-31'}`)
+  }
+
+  if (filters.metacriticMin !== undefined || filters.metacriticMax !== undefined) {
+    params.set('metacritic', `${filters.metacriticMin ?? 0},${filters.metacriticMax ?? 100}`)
+  }
+
+  return params
+}
+
+/**
+ * Apply browse filters in memory, matching RAWG semantics:
+ * any-of within a filter, all filters combined
+ */
+export function filterGames(games: RAWGGame[], filters: GameFilters = {}): RAWGGame[] {
+  const matchesAny = (wanted: string[] | undefined, values: string[]) =>
+    !wanted || wanted.some(value => values.includes(value))
+
+  return games.filter(game => {
+    if (!matchesAny(filters.genres, game.genres?.flatMap(g => [g.slug, String(g.id)]) || [])) return false
+    if (!matchesAny(filters.tags, game.tags?.flatMap(t => [t.slug, String(t.id)]) || [])) return false
+    if (!matchesAny(filters.platforms, game.platforms?.map(p => String(p.platform.id)) || [])) return false
+    if (!matchesAny(filters.stores, game.stores?.map(s => String(s.store.id)) || [])) return false
+    if (!matchesAny(filters.developers, game.developers?.flatMap(d => [d.slug, String(d.id)]) || [])) return false
+    if (!matchesAny(filters.publishers, game.publishers?.flatMap(p => [p.slug, String(p.id)]) || [])) return false
+
+    if (filters.releasedFrom || filters.releasedTo) {
+      if (!game.released) return false
+      if (filters.releasedFrom && game.released < filters.releasedFrom) return false
+      if (filters.releasedTo && game.released > filters.releasedTo) return false
+    }
+
+    if (filters.metacriticMin !== undefined || filters.metacriticMax !== undefined) {
+      if (!game.metacritic) return false
+      if (game.metacritic < (filters.metacriticMin ?? 0)) return false
+      if (game.metacritic > (filters.metacriticMax ?? 100)) return false
+    }
+
+    return true
+  })
+}
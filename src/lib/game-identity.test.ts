@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { resolveGameIds } from './game-identity'
+import type { TypedSupabaseClient } from './supabase'
+
+const games = Array.from({ length: 250 }, (_, i) => ({
+  id: `00000000-0000-4000-8000-${String(i).padStart(12, '0')}`,
+  slug: `game-${i}`,
+  rawg_id: 1000 + i,
+}))
+
+// Answers .in() lookups from `games`, recording how many values each had
+function fakeSupabase() {
+  const filterSizes: number[] = []
+  const supabase = {
+    from: () => ({
+      select: () => ({
+        in: (column: 'id' | 'slug' | 'rawg_id', values: Array<string | number>) => {
+          filterSizes.push(values.length)
+          return Promise.resolve({ data: games.filter(game => values.includes(game[column])), error: null })
+        },
+      }),
+    }),
+  } as unknown as TypedSupabaseClient
+  return { supabase, filterSizes }
+}
+
+describe('resolveGameIds', () => {
+  it('looks references up in chunks and resolves every kind', async () => {
+    const { supabase, filterSizes } = fakeSupabase()
+    const refs = games.map((game, i) => [game.slug, game.id, String(game.rawg_id)][i % 3])
+
+    const ids = await resolveGameIds(supabase, [...refs, 'unknown-game'])
+
+    expect(Math.max(...filterSizes)).toBeLessThanOrEqual(100)
+    expect(games.every((game, i) => ids.get(refs[i]) === game.slug)).toBe(true)
+    expect(ids.get('unknown-game')).toBe('unknown-game')
+  })
+})
@@ -0,0 +1,136 @@
+// Canonical game identity. Interactions, ratings, recommendations and the
+// model metadata all key games by slug; older rows and some callers still
+// hold a games.id UUID or a RAWG id, which these helpers map to the slug.
+// Mirrors canonical_game_id() in db/migrations/014_canonical_game_ids.sql.
+
+import type { TypedSupabaseClient } from './supabase'
+
+export type GameRef = string | number
+
+export type GameRefKind = 'uuid' | 'rawg_id' | 'slug'
+
+/** The identifiers a games row can be referred to by */
+export interface GameIdentity {
+  id: string
+  slug: string
+  rawg_id: number
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+// Fits the integer rawg_id column
+const RAWG_ID_PATTERN = /^[0-9]{1,9}$/
+
+/**
+ * What a reference looks like. Digits-only strings may still be slugs
+ * (RAWG has games called "1942"), so resolvers try the slug first.
+ */
+export function gameRefKind(ref: GameRef): GameRefKind {
+  const text = String(ref).trim()
+  if (UUID_PATTERN.test(text)) return 'uuid'
+  if (RAWG_ID_PATTERN.test(text)) return 'rawg_id'
+  return 'slug'
+}
+
+export interface GameIdentityIndex<T extends GameIdentity> {
+  /** The game a slug, UUID or RAWG id refers to */
+  resolve(ref: GameRef): T | undefined
+  /**
+   * The canonical id (slug) for a reference. Slugs of games that aren't in
+   * the index are returned as they are; unknown UUIDs give null.
+   */
+  canonicalId(ref: GameRef): string | null
+}
+
+/**
+ * Resolve references against games that are already loaded, e.g. the
+ * catalog the recommender or the training script works on
+ */
+export function createGameIdentityIndex<T extends GameIdentity>(games: T[]): GameIdentityIndex<T> {
+  const byId = new Map<string, T>()
+  const bySlug = new Map<string, T>()
+  const byRawgId = new Map<number, T>()
+
+  for (const game of games) {
+    byId.set(game.id.toLowerCase(), game)
+    bySlug.set(game.slug, game)
+    byRawgId.set(game.rawg_id, game)
+  }
+
+  const resolve = (ref: GameRef) => {
+    const text = String(ref).trim()
+    switch (gameRefKind(text)) {
+      case 'uuid':
+        return byId.get(text.toLowerCase())
+      case 'rawg_id':
+        return bySlug.get(text) ?? byRawgId.get(Number(text))
+      default:
+        return bySlug.get(text)
+    }
+  }
+
+  return {
+    resolve,
+    canonicalId(ref) {
+      const game = resolve(ref)
+      if (game) return game.slug
+      return gameRefKind(ref) === 'uuid' ? null : String(ref).trim()
+    },
+  }
+}
+
+// References per .in() filter; keeps each lookup's query string short
+const RESOLVE_CHUNK_SIZE = 100
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += RESOLVE_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + RESOLVE_CHUNK_SIZE))
+  }
+  return chunks
+}
+
+/**
+ * Canonical ids for a set of references, looked up in the games table by
+ * UUID, slug and RAWG id, RESOLVE_CHUNK_SIZE references per query. Follows
+ * the same rules as canonicalId above.
+ */
+export async function resolveGameIds(
+  supabase: TypedSupabaseClient,
+  refs: GameRef[]
+): Promise<Map<string, string | null>> {
+  const texts = [...new Set(refs.map(ref => String(ref).trim()).filter(Boolean))]
+  const uuids = texts.filter(text => gameRefKind(text) === 'uuid')
+  const rawgIds = texts.filter(text => gameRefKind(text) === 'rawg_id')
+  // Digits-only references might be slugs as well
+  const slugs = texts.filter(text => gameRefKind(text) !== 'uuid')
+
+  const columns = 'id, slug, rawg_id'
+  const lookup = async (column: 'id' | 'slug' | 'rawg_id', values: Array<string | number>) => {
+    const results = await Promise.all(
+      chunk(values).map(part => supabase.from('games').select(columns).in(column, part))
+    )
+    return results.flatMap(({ data, error }) => {
+      if (error) {
+        throw new Error(`Failed to resolve game ids: ${error.message}`)
+      }
+      return data
+    })
+  }
+
+  const [byId, bySlug, byRawgId] = await Promise.all([
+    lookup('id', uuids),
+    lookup('slug', slugs),
+    lookup('rawg_id', rawgIds.map(Number)),
+  ])
+
+  const index = createGameIdentityIndex([...byRawgId, ...byId, ...bySlug])
+  return new Map(texts.map(text => [text, index.canonicalId(text)]))
+}
+
+/**
+ * Canonical id for one reference, or null for a UUID with no games row
+ */
+export async function resolveGameId(supabase: TypedSupabaseClient, ref: GameRef): Promise<string | null> {
+  const ids = await resolveGameIds(supabase, [ref])
+  return ids.get(String(ref).trim()) ?? null
+}
@@ -0,0 +1,114 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import {
+  gameRowToRAWGGame,
+  gameRowToSummary,
+  rawgGameToRow,
+  rawgGameToSummary,
+  type GameRow,
+  type GameRowData,
+} from './game-normalization'
+import type { RAWGGame } from './rawg'
+
+function fixtureGame(slug: string): RAWGGame {
+  const file = path.join(process.cwd(), 'fixtures', 'catalog', 'games', `${slug}.json`)
+  return JSON.parse(readFileSync(file, 'utf8')) as RAWGGame
+}
+
+// What Postgres hands back for an inserted row: numeric columns as strings
+function toRow(data: GameRowData): GameRow {
+  return {
+    ...data,
+    id: '7c1e5a52-4f0d-4a4e-9a55-0d4b0f3e1c11',
+    rating: data.rating === null ? null : (String(data.rating) as unknown as number),
+    created_at: '2026-10-01T00:00:00+00:00',
+    updated_at: '2026-10-01T00:00:00+00:00',
+    last_synced_at: '2026-10-01T00:00:00+00:00',
+  }
+}
+
+// The documented differences: refs keep id, name and slug only, stores
+// carry the store's own id and movies aren't stored
+function expectedRoundTrip(game: RAWGGame): RAWGGame {
+  const { movies: _movies, ...rest } = game
+  const ref = ({ id, name, slug }: { id: number; name: string; slug: string }) => ({ id, name, slug })
+  return {
+    ...rest,
+    platforms: game.platforms.map(({ platform }) => ({ platform: ref(platform) })),
+    genres: game.genres.map(ref),
+    tags: game.tags.map(ref),
+    developers: game.developers.map(ref),
+    publishers: game.publishers.map(ref),
+    stores: game.stores.map(({ store }) => ({ id: store.id, store: ref(store) })),
+  }
+}
+
+const sparseGame: RAWGGame = {
+  ...fixtureGame('celeste'),
+  description: '',
+  description_raw: '',
+  released: null,
+  background_image: null,
+  background_image_additional: null,
+  website: '',
+  rating: 0,
+  rating_top: 0,
+  metacritic: null,
+  playtime: 0,
+  platforms: [],
+  genres: [],
+  tags: [],
+  developers: [],
+  publishers: [],
+  stores: [],
+  short_screenshots: undefined,
+  movies: undefined,
+}
+
+describe('RAWG game -> row -> RAWG game', () => {
+  it.each(['celeste', 'hades', 'portal-2'])('keeps %s', slug => {
+    const game = fixtureGame(slug)
+    expect(gameRowToRAWGGame(toRow(rawgGameToRow(game)))).toEqual(expectedRoundTrip(game))
+  })
+
+  it('keeps zeros, nulls and empty strings', () => {
+    const { short_screenshots: _screenshots, ...expected } = expectedRoundTrip(sparseGame)
+    expect(gameRowToRAWGGame(toRow(rawgGameToRow(sparseGame)))).toEqual(expected)
+  })
+})
+
+describe('row -> RAWG game -> row', () => {
+  it('keeps every column of a cached game', () => {
+    const data = rawgGameToRow(fixtureGame('hades'))
+    expect(rawgGameToRow(gameRowToRAWGGame(toRow(data)))).toEqual(data)
+  })
+
+  it('keeps zeros and nulls', () => {
+    const data = rawgGameToRow(sparseGame)
+    expect(data).toMatchObject({ rating: 0, metacritic: null, playtime: 0, released: null })
+    expect(rawgGameToRow(gameRowToRAWGGame(toRow(data)))).toEqual(data)
+  })
+
+  it('reads a null rating, rating_top or playtime back as 0', () => {
+    const data = { ...rawgGameToRow(sparseGame), rating: null, rating_top: null, playtime: null }
+    expect(rawgGameToRow(gameRowToRAWGGame(toRow(data)))).toEqual({
+      ...data,
+      rating: 0,
+      rating_top: 0,
+      playtime: 0,
+    })
+  })
+})
+
+describe('GameSummary', () => {
+  it.each([['portal-2'], ['sparse']])('is the same from a RAWG game and its row (%s)', name => {
+    const game = name === 'sparse' ? sparseGame : fixtureGame(name)
+    expect(gameRowToSummary(toRow(rawgGameToRow(game)))).toEqual(rawgGameToSummary(game))
+  })
+
+  it('is what a RAWG game built from the row summarises to', () => {
+    const row = toRow(rawgGameToRow(fixtureGame('celeste')))
+    expect(rawgGameToSummary(gameRowToRAWGGame(row))).toEqual(gameRowToSummary(row))
+  })
+})
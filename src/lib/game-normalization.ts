@@ -0,0 +1,179 @@
+// Conversions between RAWG games, `games` table rows and the UI GameSummary
+//
+// RAWG game -> row -> RAWG game gives back the same game, except:
+// - description, description_raw and website: '' is stored as null and
+//   read back as ''
+// - genres, tags, platforms and the rest keep only id, name and slug;
+//   stores[].id (RAWG's per-game store relation) reads back as the store id
+// - movies aren't stored
+// The other way, row -> RAWG game -> row, only changes a null rating,
+// rating_top or playtime (rows written before these were kept) to 0.
+// game-normalization.test.ts checks both round trips.
+//
+// This module only has type imports, so the Node scripts can load it too
+// (see scripts/register-ts.js). Keep it that way.
+
+import type { RAWGGame } from './rawg'
+import type { Database } from './supabase'
+
+export type GameRow = Database['public']['Tables']['games']['Row']
+
+/**
+ * Every column we write when caching a RAWG game
+ */
+export type GameRowData = Required<Omit<Database['public']['Tables']['games']['Insert'], 'last_synced_at'>>
+
+interface NamedRef {
+  id: number
+  name: string
+  slug: string
+}
+
+/**
+ * The fields game lists and cards need; RAWGGame satisfies it as-is
+ */
+export interface GameSummary {
+  /** RAWG id */
+  id: number
+  slug: string
+  name: string
+  background_image: string | null
+  released: string | null
+  rating: number | null
+  metacritic: number | null
+  playtime: number | null
+  genres: NamedRef[]
+  platforms: Array<{ platform: NamedRef }>
+}
+
+/**
+ * Postgres numeric columns arrive as strings through PostgREST
+ */
+export function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const number = typeof value === 'number' ? value : parseFloat(value)
+  return Number.isNaN(number) ? null : number
+}
+
+/**
+ * Read a stored list of {id, name, slug} objects
+ * Tolerates rows written by older code: bare strings and RAWG's wrapped
+ * `{ platform: {...} }` / `{ store: {...} }` shapes.
+ */
+export function readRefs(value: unknown, wrapper?: 'platform' | 'store'): NamedRef[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap((item): NamedRef[] => {
+    if (typeof item === 'string') {
+      return [{ id: 0, name: item, slug: '' }]
+    }
+    if (!item || typeof item !== 'object') return []
+
+    const ref = wrapper && wrapper in item ? (item as Record<string, unknown>)[wrapper] : item
+    if (!ref || typeof ref !== 'object') return []
+
+    const { id, name, slug } = ref as Partial<NamedRef>
+    return [{ id: Number(id) || 0, name: name || '', slug: slug || '' }]
+  })
+}
+
+function toRefs(refs: NamedRef[] | undefined): NamedRef[] | null {
+  return refs ? refs.map(({ id, name, slug }) => ({ id, name, slug })) : null
+}
+
+/**
+ * RAWG game -> `games` row
+ * Platforms and stores are stored unwrapped ({id, name, slug}); RAWG's
+ * per-game store relation id is not kept.
+ */
+export function rawgGameToRow(game: RAWGGame): GameRowData {
+  return {
+    rawg_id: game.id,
+    name: game.name,
+    slug: game.slug,
+    description: game.description || null,
+    description_raw: game.description_raw || null,
+    released: game.released || null,
+    background_image: game.background_image || null,
+    background_image_additional: game.background_image_additional || null,
+    website: game.website || null,
+    rating: game.rating ?? null,
+    rating_top: game.rating_top ?? null,
+    metacritic: game.metacritic ?? null,
+    playtime: game.playtime ?? null,
+    platforms: game.platforms ? toRefs(game.platforms.map(p => p.platform)) : null,
+    genres: toRefs(game.genres),
+    tags: toRefs(game.tags),
+    developers: toRefs(game.developers),
+    publishers: toRefs(game.publishers),
+    stores: game.stores ? toRefs(game.stores.map(s => s.store)) : null,
+    short_screenshots: game.short_screenshots
+      ? game.short_screenshots.map(({ id, image }) => ({ id, image }))
+      : null,
+  }
+}
+
+/**
+ * `games` row -> RAWG game, so cached games can go wherever RAWG data goes
+ */
+export function gameRowToRAWGGame(row: GameRow): RAWGGame {
+  const game: RAWGGame = {
+    id: row.rawg_id,
+    name: row.name,
+    slug: row.slug,
+    description: row.description || '',
+    description_raw: row.description_raw || '',
+    released: row.released,
+    background_image: row.background_image,
+    background_image_additional: row.background_image_additional,
+    website: row.website || '',
+    rating: toNumber(row.rating) ?? 0,
+    rating_top: row.rating_top ?? 0,
+    metacritic: row.metacritic,
+    playtime: row.playtime ?? 0,
+    platforms: readRefs(row.platforms, 'platform').map(platform => ({ platform })),
+    genres: readRefs(row.genres),
+    tags: readRefs(row.tags),
+    developers: readRefs(row.developers),
+    publishers: readRefs(row.publishers),
+    stores: readRefs(row.stores, 'store').map(store => ({ id: store.id, store })),
+  }
+
+  if (row.short_screenshots) {
+    game.short_screenshots = row.short_screenshots
+  }
+
+  return game
+}
+
+export function rawgGameToSummary(game: RAWGGame): GameSummary {
+  return {
+    id: game.id,
+    slug: game.slug,
+    name: game.name,
+    background_image: game.background_image || null,
+    released: game.released || null,
+    rating: game.rating ?? null,
+    metacritic: game.metacritic ?? null,
+    playtime: game.playtime ?? null,
+    genres: toRefs(game.genres) || [],
+    platforms: (game.platforms || []).map(({ platform }) => ({
+      platform: { id: platform.id, name: platform.name, slug: platform.slug },
+    })),
+  }
+}
+
+export function gameRowToSummary(row: GameRow): GameSummary {
+  return {
+    id: row.rawg_id,
+    slug: row.slug,
+    name: row.name,
+    background_image: row.background_image,
+    released: row.released,
+    rating: toNumber(row.rating),
+    metacritic: row.metacritic,
+    playtime: row.playtime,
+    genres: readRefs(row.genres),
+    platforms: readRefs(row.platforms, 'platform').map(platform => ({ platform })),
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import type { GameCatalogProvider } from './catalog'
+import { autocompleteGames, orderGames, searchCatalogGames, searchGamesHybrid } from './game-search'
+import type { RAWGGame, RAWGSearchResult } from './rawg'
+import type { TypedSupabaseClient } from './supabase'
+
+function game(id: number, fields: Partial<Record<keyof RAWGGame, unknown>> = {}): RAWGGame {
+  return { id, slug: `game-${id}`, name: `Game ${id}`, ...fields } as RAWGGame
+}
+
+function range(from: number, count: number): RAWGGame[] {
+  return Array.from({ length: count }, (_, i) => game(from + i))
+}
+
+// Pages past the end fail like RAWG's 404
+function paginate(games: RAWGGame[], page = 1, pageSize = 20): RAWGSearchResult {
+  const start = (page - 1) * pageSize
+  if (page > 1 && start >= games.length) {
+    throw new Error('Invalid page')
+  }
+  return {
+    count: games.length,
+    next: start + pageSize < games.length ? `?page=${page + 1}` : null,
+    previous: page > 1 ? `?page=${page - 1}` : null,
+    results: games.slice(start, start + pageSize),
+  }
+}
+
+function fakeProvider(titleMatches: RAWGGame[], tagMatches: RAWGGame[]): GameCatalogProvider {
+  const unused = () => Promise.reject(new Error('not used'))
+  return {
+    name: 'fake',
+    searchGames: async (_query, { page, pageSize } = {}) => paginate(titleMatches, page, pageSize),
+    listGames: async ({ page, pageSize } = {}) => paginate(tagMatches, page, pageSize),
+    getGameBySlug: unused,
+    getRandomGames: unused,
+    getScreenshots: unused,
+    getMovies: unused,
+  }
+}
+
+async function allPages(search: (page: number) => Promise<RAWGSearchResult>, pageSize: number) {
+  const first = await search(1)
+  const pages = [first]
+  for (let page = 2; page <= Math.ceil(first.count / pageSize); page++) {
+    pages.push(await search(page))
+  }
+  return pages
+}
+
+describe('orderGames', () => {
+  const games = [
+    game(1, { metacritic: 80, released: '2020-01-01' }),
+    game(2, { metacritic: null, released: '' }),
+    game(3, { metacritic: 95, released: '2015-06-01' }),
+    game(4, { metacritic: null, released: null }),
+  ]
+
+  it('sorts ascending and descending with missing values last', () => {
+    expect(orderGames(games, 'metacritic').map(g => g.id)).toEqual([1, 3, 2, 4])
+    expect(orderGames(games, '-metacritic').map(g => g.id)).toEqual([3, 1, 2, 4])
+    expect(orderGames(games, 'released').map(g => g.id)).toEqual([3, 1, 2, 4])
+    expect(orderGames(games, '-released').map(g => g.id)).toEqual([1, 3, 2, 4])
+  })
+
+  it('keeps the incoming order for relevance', () => {
+    expect(orderGames(games, '-relevance')).toBe(games)
+  })
+})
+
+describe('searchCatalogGames', () => {
+  it('keeps every page at pageSize and shows each game once across pages', async () => {
+    const provider = fakeProvider(range(1, 23), range(100, 7))
+    const pages = await allPages(page => searchCatalogGames(provider, 'roguelike', { page, pageSize: 10 }), 10)
+
+    expect(pages[0].count).toBe(30)
+    expect(pages.map(p => p.results.length)).toEqual([10, 10, 10])
+    expect(pages.map(p => p.next === null)).toEqual([false, false, true])
+
+    const ids = pages.flatMap(p => p.results.map(g => g.id))
+    expect(new Set(ids).size).toBe(30)
+  })
+
+  it('splits the first page between title and tag matches', async () => {
+    const provider = fakeProvider(range(1, 40), range(100, 40))
+    const { results } = await searchCatalogGames(provider, 'roguelike', { pageSize: 10 })
+
+    expect(results.map(g => g.id)).toEqual([1, 2, 3, 4, 5, 100, 101, 102, 103, 104])
+  })
+
+  it('uses title matches alone when the tag is unknown', async () => {
+    const provider = fakeProvider(range(1, 12), [])
+    provider.listGames = () => Promise.reject(new Error('Unknown tag'))
+
+    const second = await searchCatalogGames(provider, 'zelda', { page: 2, pageSize: 10 })
+    expect(second.count).toBe(12)
+    expect(second.results.map(g => g.id)).toEqual([11, 12])
+    expect(second.next).toBeNull()
+  })
+
+  it('still fails when the title search fails', async () => {
+    const provider = fakeProvider([], [])
+    provider.searchGames = () => Promise.reject(new Error('RAWG down'))
+
+    await expect(searchCatalogGames(provider, 'zelda')).rejects.toThrow('RAWG down')
+  })
+})
+
+describe('searchGamesHybrid', () => {
+  const localRows = [
+    { rawg_id: 100, slug: 'local-100', name: 'Local 100' },
+    { rawg_id: 200, slug: 'local-200', name: 'Local 200' },
+  ]
+  const supabase = {
+    rpc: () => Promise.resolve({ data: localRows, error: null }),
+  } as unknown as TypedSupabaseClient
+
+  it('puts local matches on the page without exceeding pageSize', async () => {
+    const provider = fakeProvider(range(1, 20), [])
+    const first = await searchGamesHybrid(supabase, provider, 'game', { pageSize: 4 })
+
+    expect(first.results.map(g => g.id)).toEqual([100, 200, 1, 2])
+    expect(first.count).toBe(22)
+  })
+
+  it('shows a game found locally and in the catalog once across pages', async () => {
+    const provider = fakeProvider([...range(1, 3), game(100), ...range(4, 4)], [])
+    const pages = await allPages(page => searchGamesHybrid(supabase, provider, 'game', { page, pageSize: 4 }), 4)
+
+    expect(pages[0].count).toBe(9)
+    expect(pages.map(p => p.results.map(g => g.id))).toEqual([[100, 200, 1, 2], [3, 4, 5, 6], [7]])
+  })
+
+  it('sorts local matches by ordering before paging them', async () => {
+    const rated = {
+      rpc: () =>
+        Promise.resolve({
+          data: [
+            { rawg_id: 100, slug: 'local-100', name: 'Local 100', rating: 3 },
+            { rawg_id: 200, slug: 'local-200', name: 'Local 200', rating: 4.5 },
+            { rawg_id: 300, slug: 'local-300', name: 'Local 300', rating: 4 },
+          ],
+          error: null,
+        }),
+    } as unknown as TypedSupabaseClient
+    const provider = fakeProvider([], [])
+    const first = await searchGamesHybrid(rated, provider, 'game', { pageSize: 2, ordering: '-rating' })
+
+    expect(first.results.map(g => g.id)).toEqual([200, 300])
+  })
+})
+
+describe('autocompleteGames', () => {
+  it('ranks exact and prefix matches above better-rated games that only contain the query', async () => {
+    const rows = [
+      ...Array.from({ length: 6 }, (_, i) => ({ rawg_id: i + 1, slug: `the-hades-${i}`, name: `The Hades ${i}`, rating: 4.9 })),
+      { rawg_id: 20, slug: 'hades-ii', name: 'Hades II', rating: 4.2 },
+      { rawg_id: 21, slug: 'hades', name: 'Hades', rating: 4.1 },
+    ]
+    let requested = 0
+    const supabase = {
+      from: () => ({
+        select: () => ({
+          ilike: () => ({
+            order: () => ({
+              limit: (count: number) => {
+                requested = count
+                return Promise.resolve({ data: rows.slice(0, count), error: null })
+              },
+            }),
+          }),
+        }),
+      }),
+    } as unknown as TypedSupabaseClient
+
+    const suggestions = await autocompleteGames(supabase, fakeProvider([], []), 'hades', 3)
+
+    expect(requested).toBe(9)
+    expect(suggestions.map(s => s.slug)).toEqual(['hades', 'hades-ii', 'the-hades-0'])
+  })
+})
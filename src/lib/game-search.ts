@@ -0,0 +1,438 @@
+// Game search: ordering, tag-aware matching and hybrid local + catalog results
+
+import type { GameCatalogProvider, ListGamesOptions } from './catalog'
+import { filterGames } from './game-filters'
+import { gameRowToRAWGGame } from './game-normalization'
+import type { RAWGGame, RAWGSearchResult } from './rawg'
+import type { TypedSupabaseClient } from './supabase'
+
+export const RELEVANCE_ORDERING = '-relevance'
+
+/** Most local matches hybrid search reads from the games table */
+export const LOCAL_SEARCH_LIMIT = 50
+
+/**
+ * Leading catalog results hybrid search checks for games it already shows
+ * from the games table; RAWG's largest page
+ */
+export const CATALOG_DEDUP_WINDOW = 40
+
+// Empty strings stand in for missing dates and images in RAWG-shaped games
+function isMissing(value: unknown): boolean {
+  return value == null || value === ''
+}
+
+/**
+ * Sort games by a RAWG-style ordering string (e.g. '-rating', 'name')
+ * Games missing the field go last in either direction. Relevance and
+ * unknown fields keep the incoming order.
+ */
+export function orderGames(games: RAWGGame[], ordering?: string): RAWGGame[] {
+  if (!ordering) return games
+
+  const descending = ordering.startsWith('-')
+  const field = descending ? ordering.slice(1) : ordering
+  if (!['name', 'released', 'rating', 'metacritic'].includes(field)) {
+    return games
+  }
+
+  const direction = descending ? -1 : 1
+  return [...games].sort((a, b) => {
+    const valueA = a[field as keyof RAWGGame] as string | number | null
+    const valueB = b[field as keyof RAWGGame] as string | number | null
+    if (isMissing(valueA) || isMissing(valueB)) {
+      return Number(isMissing(valueA)) - Number(isMissing(valueB))
+    }
+    if (typeof valueA === 'string' && typeof valueB === 'string') {
+      return valueA.localeCompare(valueB) * direction
+    }
+    return (Number(valueA) - Number(valueB)) * direction
+  })
+}
+
+/**
+ * Concatenate game lists, keeping the first occurrence of each RAWG id
+ */
+export function mergeGames(...lists: RAWGGame[][]): RAWGGame[] {
+  const seen = new Set<number>()
+  const merged: RAWGGame[] = []
+  for (const list of lists) {
+    for (const game of list) {
+      if (seen.has(game.id)) continue
+      seen.add(game.id)
+      merged.push(game)
+    }
+  }
+  return merged
+}
+
+/**
+ * Turn a free-text query into a tag slug ("Open World" -> "open-world")
+ */
+function toTagSlug(query: string): string | null {
+  const slug = query.trim().toLowerCase().replace(/\s+/g, '-')
+  return /^[a-z0-9-]+$/.test(slug) ? slug : null
+}
+
+// One source of search results (title matches, tag matches, local matches)
+interface ResultStream {
+  /** Relative share of each page the stream fills while it has games left */
+  share: number
+  /** Errors only mean "no results" (e.g. an unknown tag) */
+  optional?: boolean
+  fetchPage(page: number, pageSize: number): Promise<RAWGSearchResult>
+}
+
+interface StreamSlice {
+  offset: number
+  count: number
+  results: RAWGGame[]
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+// Split pageSize by share; rounding leftovers go to the first streams
+function pageQuotas(shares: number[], pageSize: number): number[] {
+  const totalShare = sum(shares)
+  const quotas = shares.map(share => Math.floor((pageSize * share) / totalShare))
+  for (let i = 0; sum(quotas) < pageSize; i = (i + 1) % quotas.length) {
+    quotas[i]++
+  }
+  return quotas
+}
+
+// Games each stream puts on one page: its quota while it lasts, and the
+// slots of streams that ran out go to the others in stream order
+function pageTakes(remaining: number[], quotas: number[], pageSize: number): number[] {
+  const takes = remaining.map((left, i) => Math.min(left, quotas[i]))
+  let free = pageSize - sum(takes)
+  for (let i = 0; i < takes.length && free > 0; i++) {
+    const extra = Math.min(free, remaining[i] - takes[i])
+    takes[i] += extra
+    free -= extra
+  }
+  return takes
+}
+
+/**
+ * Where each stream's games on a page start and how many there are, given
+ * every stream's total. Every page but the last is full, so a page at
+ * 1-based index `page` starts at (page - 1) * pageSize overall.
+ */
+function allocatePage(counts: number[], quotas: number[], page: number, pageSize: number) {
+  const consumed = counts.map(() => 0)
+  const remaining = () => counts.map((count, i) => count - consumed[i])
+
+  for (let current = 1; current < page; ) {
+    const takes = pageTakes(remaining(), quotas, pageSize)
+    if (sum(takes) === 0) break
+
+    // Pages look the same until one of the streams runs out; skip over them
+    const left = remaining()
+    const steadyPages = Math.min(
+      page - current,
+      ...takes.map((take, i) => (take > 0 ? Math.floor(left[i] / take) : Infinity))
+    )
+    takes.forEach((take, i) => { consumed[i] += take * steadyPages })
+    current += steadyPages
+  }
+
+  const takes = pageTakes(remaining(), quotas, pageSize)
+  return consumed.map((offset, i) => ({ offset, limit: takes[i] }))
+}
+
+// Games [offset, offset + limit) of a stream, in at most two page requests
+async function fetchRange(stream: ResultStream, offset: number, limit: number): Promise<StreamSlice> {
+  const page = Math.floor(offset / limit) + 1
+  const skip = offset % limit
+  const first = await stream.fetchPage(page, limit)
+  const second = skip > 0 && first.next ? await stream.fetchPage(page + 1, limit) : null
+
+  return {
+    offset,
+    count: first.count,
+    results: [...first.results, ...(second?.results || [])].slice(skip, skip + limit),
+  }
+}
+
+// The stream's share of a page as if no stream had run out yet, which also
+// tells us its total
+async function probeStream(stream: ResultStream, page: number, quota: number): Promise<StreamSlice> {
+  const limit = Math.max(quota, 1)
+  const offset = quota > 0 ? (page - 1) * quota : 0
+  try {
+    return await fetchRange(stream, offset, limit)
+  } catch (error) {
+    if (offset > 0) {
+      // Past the end of a stream RAWG answers 404; the total is on page 1
+      const first = await stream.fetchPage(1, limit).catch(() => null)
+      if (first) return { offset: 0, count: first.count, results: [] }
+    }
+    if (stream.optional) return { offset: 0, count: 0, results: [] }
+    throw error
+  }
+}
+
+/**
+ * One page of results interleaved from several streams
+ * Each stream fills its share of every page and streams that run out leave
+ * their slots to the others, so pages hold exactly pageSize games until the
+ * last one, and count is the sum of the streams' totals. A game found by
+ * more than one stream is counted once per stream, and only shown once
+ * when both copies land on the same page; see withoutGames for the local
+ * matches of hybrid search.
+ */
+async function readStreams(
+  streams: ResultStream[],
+  page: number,
+  pageSize: number,
+  ordering?: string
+): Promise<RAWGSearchResult> {
+  const quotas = pageQuotas(streams.map(stream => stream.share), pageSize)
+  const probes = await Promise.all(
+    streams.map((stream, i) => probeStream(stream, page, quotas[i]))
+  )
+  const counts = probes.map(probe => probe.count)
+  const ranges = allocatePage(counts, quotas, page, pageSize)
+
+  const slices = await Promise.all(
+    ranges.map(async ({ offset, limit }, i) => {
+      if (limit === 0) return []
+      const probe = probes[i]
+      const start = offset - probe.offset
+      if (start >= 0 && start + limit <= probe.results.length) {
+        return probe.results.slice(start, start + limit)
+      }
+      return (await fetchRange(streams[i], offset, limit)).results
+    })
+  )
+
+  const count = sum(counts)
+  return {
+    count,
+    next: page * pageSize < count ? `?page=${page + 1}` : null,
+    previous: page > 1 ? `?page=${page - 1}` : null,
+    results: orderGames(mergeGames(...slices), ordering),
+  }
+}
+
+// Title matches, plus games tagged with the query (e.g. "roguelike")
+function catalogStreams(
+  provider: GameCatalogProvider,
+  query: string,
+  options: ListGamesOptions
+): ResultStream[] {
+  const { ordering, filters = {} } = options
+  const streams: ResultStream[] = [
+    {
+      share: 1,
+      fetchPage: (page, pageSize) => provider.searchGames(query, { ...options, page, pageSize }),
+    },
+  ]
+
+  const tagSlug = toTagSlug(query)
+  if (tagSlug) {
+    streams.push({
+      share: 1,
+      // An unknown tag is not an error for a text search
+      optional: true,
+      fetchPage: (page, pageSize) =>
+        provider.listGames({
+          ...options,
+          page,
+          pageSize,
+          ordering: ordering && ordering !== RELEVANCE_ORDERING ? ordering : undefined,
+          filters: { ...filters, tags: [...(filters.tags || []), tagSlug] },
+        }),
+    })
+  }
+
+  return streams
+}
+
+/**
+ * Search the catalog by title and by tag
+ * Title and tag matches share each page half and half (see readStreams).
+ */
+export async function searchCatalogGames(
+  provider: GameCatalogProvider,
+  query: string,
+  options: ListGamesOptions = {}
+): Promise<RAWGSearchResult> {
+  const { page = 1, pageSize = 20, ordering } = options
+  return readStreams(catalogStreams(provider, query, options), page, pageSize, ordering)
+}
+
+/**
+ * A stream with some games taken out
+ * The stream's first CATALOG_DEDUP_WINDOW games are read once to find the
+ * excluded ones; offsets past them are shifted and the total reduced, so
+ * pages stay full and each game shows once across all pages. Excluded games
+ * the stream only has further on are still counted.
+ */
+function withoutGames(stream: ResultStream, excluded: PromiseLike<Set<number>>): ResultStream {
+  let window: Promise<{ head: RAWGSearchResult; hits: number[] }> | null = null
+  const readWindow = () => {
+    window ??= Promise.all([stream.fetchPage(1, CATALOG_DEDUP_WINDOW), excluded]).then(([head, ids]) => ({
+      head,
+      hits: head.results.flatMap((game, index) => (ids.has(game.id) ? [index] : [])),
+    }))
+    return window
+  }
+
+  return {
+    ...stream,
+    fetchPage: async (page, pageSize) => {
+      const { head, hits } = await readWindow()
+      const count = head.count - hits.length
+      const start = (page - 1) * pageSize
+
+      // Position in the unfiltered stream of the start-th game that's kept
+      let rawStart = start
+      for (const hit of hits) {
+        if (hit <= rawStart) rawStart++
+      }
+
+      const headIds = new Set(hits.map(hit => head.results[hit].id))
+      const results = head.results.slice(rawStart).filter(game => !headIds.has(game.id)).slice(0, pageSize)
+      const headEnd = Math.max(rawStart, head.results.length)
+      if (results.length < pageSize && headEnd < head.count) {
+        const rest = await fetchRange(stream, headEnd, pageSize - results.length)
+        results.push(...rest.results)
+      }
+
+      return {
+        count,
+        next: start + pageSize < count ? `?page=${page + 1}` : null,
+        previous: page > 1 ? `?page=${page - 1}` : null,
+        results,
+      }
+    },
+  }
+}
+
+/**
+ * Hybrid search: our own `games` table alongside the catalog
+ * Local matches come from the `search_games` full-text/trigram function
+ * (db/migrations/002_search_games.sql), sorted by `ordering`, and fill
+ * half of each page while they last, ahead of the catalog's title and tag
+ * matches. The catalog streams leave out games already found locally.
+ */
+export async function searchGamesHybrid(
+  supabase: TypedSupabaseClient,
+  provider: GameCatalogProvider,
+  query: string,
+  options: ListGamesOptions = {}
+): Promise<RAWGSearchResult> {
+  const { page = 1, pageSize = 20, ordering, filters } = options
+
+  const localGames = supabase
+    .rpc('search_games', { search_query: query, max_results: LOCAL_SEARCH_LIMIT })
+    .then(({ data, error }) => {
+      if (error) {
+        console.warn('Local game search failed, using catalog results only:', error)
+        return []
+      }
+      return orderGames(filterGames((data || []).map(gameRowToRAWGGame), filters), ordering)
+    })
+  const localIds = localGames.then(games => new Set(games.map(game => game.id)))
+
+  const catalog = catalogStreams(provider, query, options).map(stream => withoutGames(stream, localIds))
+  const localStream: ResultStream = {
+    share: catalog.length,
+    fetchPage: async (localPage, localPageSize) => {
+      const games = await localGames
+      const start = (localPage - 1) * localPageSize
+      return {
+        count: games.length,
+        next: start + localPageSize < games.length ? `?page=${localPage + 1}` : null,
+        previous: null,
+        results: games.slice(start, start + localPageSize),
+      }
+    },
+  }
+
+  return readStreams(
+    [localStream, ...catalog],
+    page,
+    pageSize,
+    ordering
+  )
+}
+
+/**
+ * Compact game shape for the search typeahead
+ */
+export interface GameSuggestion {
+  id: number
+  slug: string
+  name: string
+  background_image: string | null
+  year: number | null
+  platforms: string[]
+}
+
+export function toGameSuggestion(game: RAWGGame): GameSuggestion {
+  return {
+    id: game.id,
+    slug: game.slug,
+    name: game.name,
+    background_image: game.background_image || null,
+    year: game.released ? new Date(game.released).getFullYear() : null,
+    platforms: (game.platforms || []).map(p => p.platform.name),
+  }
+}
+
+/** Local name matches read per suggestion shown, so prefix matches beyond the top-rated few still make it */
+const AUTOCOMPLETE_WINDOW = 3
+
+/**
+ * Exact name matches rank first, then names starting with the query, then
+ * ones that merely contain it
+ */
+function rankByPrefix(games: RAWGGame[], query: string): RAWGGame[] {
+  const needle = query.trim().toLowerCase()
+  const rank = (game: RAWGGame) => {
+    const name = game.name.toLowerCase()
+    return name === needle ? 0 : name.startsWith(needle) ? 1 : 2
+  }
+  return [...games].sort((a, b) => rank(a) - rank(b))
+}
+
+/**
+ * Top name matches for the typeahead
+ * Reads the cached `games` table first and only asks the catalog when there
+ * aren't enough local matches. Pass a null client to skip the local lookup.
+ */
+export async function autocompleteGames(
+  supabase: TypedSupabaseClient | null,
+  provider: GameCatalogProvider,
+  query: string,
+  limit: number = 8
+): Promise<GameSuggestion[]> {
+  let localGames: RAWGGame[] = []
+
+  if (supabase) {
+    // Escape LIKE wildcards so "100%" matches literally
+    const pattern = `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`
+    const { data, error } = await supabase
+      .from('games')
+      .select('*')
+      .ilike('name', pattern)
+      .order('rating', { ascending: false, nullsFirst: false })
+      .limit(limit * AUTOCOMPLETE_WINDOW)
+
+    if (error) {
+      console.warn('Local autocomplete lookup failed:', error)
+    } else {
+      localGames = rankByPrefix((data || []).map(gameRowToRAWGGame), query).slice(0, limit)
+    }
+  }
+
+  if (localGames.length >= limit) {
+    return localGames.map(toGameSuggestion)
+  }
+
+  const remote = await provider.searchGames(query, { pageSize: limit })
+  return mergeGames(localGames, remote.results).slice(0, limit).map(toGameSuggestion)
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { normalizedReleaseYear } from './game-features'
+import { buildSimilarityVocabulary, similarityVector } from './game-similarity'
+
+describe('buildSimilarityVocabulary', () => {
+  it('caps developers like tags', () => {
+    // 400 developers, each shared by two games
+    const games = Array.from({ length: 800 }, (_, i) => ({ developers: [`Studio ${Math.floor(i / 2)}`] }))
+    expect(buildSimilarityVocabulary(games).developers).toHaveLength(300)
+  })
+})
+
+describe('similarityVector', () => {
+  const vocabulary = { genres: [], tags: [], developers: [], platforms: [] }
+
+  it('scales the release year like the model features', () => {
+    const game = { released: '2005-06-01' }
+    const [cos, sin] = similarityVector(game, vocabulary, 2025).slice(-2)
+    const angle = normalizedReleaseYear(game, 2025) * (Math.PI / 2)
+
+    expect(cos).toBeCloseTo(Math.cos(angle) * Math.sqrt(0.3))
+    expect(sin).toBeCloseTo(Math.sin(angle) * Math.sqrt(0.3))
+  })
+
+  it('leaves out a rating and year the game does not have', () => {
+    expect(similarityVector({ rating: 0, released: null }, vocabulary)).toEqual([0, 0, 0, 0])
+  })
+})
@@ -0,0 +1,130 @@
+// Content similarity between games, for the "More like this" rail.
+// scripts/compute-similar-games.js turns every cached game into a vector
+// with similarityVector, takes the top neighbours by cosine similarity and
+// stores them in similar_games; /api/games/[slug]/similar reads them back.
+
+import {
+  featureNames,
+  normalizedRating,
+  normalizedReleaseYear,
+  type GameFeatureInput,
+  type GameFeatureList,
+} from './game-features'
+import { toNumber, type GameSummary } from './game-normalization'
+
+/** Neighbours stored per game */
+export const SIMILAR_GAMES_K = 12
+
+/** Neighbours less similar than this aren't stored */
+export const MIN_SIMILARITY = 0.2
+
+/**
+ * How much each part of a game counts towards similarity. Each part is
+ * compared on its own and the results are averaged with these weights.
+ */
+export const SIMILARITY_WEIGHTS = {
+  genres: 1.0,
+  tags: 0.6,
+  developers: 0.8,
+  platforms: 0.2,
+  rating: 0.3,
+  year: 0.3,
+}
+
+// Only tags and developers shared by enough games say anything about
+// similarity; the caps also bound the vector length
+const MAX_SIMILARITY_TAGS = 300
+const MAX_SIMILARITY_DEVELOPERS = 300
+
+/** A stored neighbour, as the API returns it */
+export interface SimilarGame {
+  game: GameSummary
+  similarity: number
+}
+
+/**
+ * The genre, tag, developer and platform names vectors are built from
+ */
+export interface SimilarityVocabulary {
+  genres: string[]
+  tags: string[]
+  developers: string[]
+  platforms: string[]
+}
+
+const VOCABULARY_LISTS: GameFeatureList[] = ['genres', 'tags', 'developers', 'platforms']
+
+/**
+ * Names seen across the catalog. Tags and developers that only one game has
+ * can't make two games alike, so they are left out.
+ */
+export function buildSimilarityVocabulary(games: GameFeatureInput[]): SimilarityVocabulary {
+  const counts = Object.fromEntries(VOCABULARY_LISTS.map(list => [list, new Map<string, number>()]))
+
+  for (const game of games) {
+    for (const list of VOCABULARY_LISTS) {
+      for (const name of new Set(featureNames(game, list))) {
+        counts[list].set(name, (counts[list].get(name) ?? 0) + 1)
+      }
+    }
+  }
+
+  const names = (list: GameFeatureList, minCount: number, limit = Infinity) =>
+    [...counts[list]]
+      .filter(([, count]) => count >= minCount)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([name]) => name)
+
+  return {
+    genres: names('genres', 1),
+    tags: names('tags', 2, MAX_SIMILARITY_TAGS),
+    developers: names('developers', 2, MAX_SIMILARITY_DEVELOPERS),
+    platforms: names('platforms', 1),
+  }
+}
+
+// Multi-hot block scaled to unit length, so a game with many tags doesn't
+// outweigh one with few
+function namesBlock(game: GameFeatureInput, list: GameFeatureList, vocabulary: string[]): number[] {
+  const block = new Array(vocabulary.length).fill(0)
+  for (const name of featureNames(game, list)) {
+    const index = vocabulary.indexOf(name)
+    if (index >= 0) block[index] = 1
+  }
+  const length = Math.sqrt(block.reduce((sum, value) => sum + value, 0))
+  return length > 0 ? block.map(value => value / length) : block
+}
+
+// A 0-1 value as a point on a quarter circle: the dot product of two such
+// blocks falls from 1 to 0 as the values move apart
+function scalarBlock(value: number | null): number[] {
+  if (value === null || Number.isNaN(value)) return [0, 0]
+  const angle = Math.min(Math.max(value, 0), 1) * (Math.PI / 2)
+  return [Math.cos(angle), Math.sin(angle)]
+}
+
+/**
+ * Vector whose dot product with another game's, once both are scaled to
+ * unit length, is their weighted similarity. Parts a game has no data for
+ * are zero and drop out of the average. Rating and year are scaled like the
+ * model's features (normalizedRating, normalizedReleaseYear).
+ */
+export function similarityVector(
+  game: GameFeatureInput,
+  vocabulary: SimilarityVocabulary,
+  currentYear = new Date().getFullYear()
+): number[] {
+  const rating = toNumber(game.rating) ? normalizedRating(game) : null
+  const year = game.released ? normalizedReleaseYear(game, currentYear) : null
+  const blocks: Array<[number[], number]> = [
+    [namesBlock(game, 'genres', vocabulary.genres), SIMILARITY_WEIGHTS.genres],
+    [namesBlock(game, 'tags', vocabulary.tags), SIMILARITY_WEIGHTS.tags],
+    [namesBlock(game, 'developers', vocabulary.developers), SIMILARITY_WEIGHTS.developers],
+    [namesBlock(game, 'platforms', vocabulary.platforms), SIMILARITY_WEIGHTS.platforms],
+    [scalarBlock(rating), SIMILARITY_WEIGHTS.rating],
+    [scalarBlock(year), SIMILARITY_WEIGHTS.year],
+  ]
+
+  return blocks.flatMap(([block, weight]) => block.map(value => value * Math.sqrt(weight)))
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { GameCatalogProvider } from './catalog'
+import type { GameRow } from './game-normalization'
+import { refreshStaleGame } from './game-sync'
+import type { RAWGGame } from './rawg'
+import type { TypedSupabaseClient } from './supabase'
+
+const staleGame = {
+  id: 'a1b2',
+  rawg_id: 58751,
+  slug: 'celeste',
+  name: 'Celeste',
+  last_synced_at: '2026-01-01T00:00:00+00:00',
+} as GameRow
+
+// Query builder stand-in: every call chains; the first update is the claim
+// and matches a row if `claimed`, later ones answer with the game
+function fakeSupabase(claimed: boolean) {
+  const updates: unknown[] = []
+  const builder = (result: () => unknown) => {
+    const chain: Record<string, unknown> = {}
+    for (const method of ['eq', 'is', 'select', 'single']) {
+      chain[method] = () => chain
+    }
+    chain.then = (resolve: (value: unknown) => unknown) => resolve(result())
+    return chain
+  }
+  const supabase = {
+    from: () => ({
+      update: (values: Record<string, unknown>) => {
+        updates.push(values)
+        const isClaim = updates.length === 1
+        return builder(() =>
+          isClaim
+            ? { data: claimed ? [{ id: staleGame.id }] : [], error: null }
+            : { data: { ...staleGame, ...values }, error: null }
+        )
+      },
+    }),
+  }
+  return { supabase: supabase as unknown as TypedSupabaseClient, updates }
+}
+
+function fakeProvider() {
+  const getGameBySlug = vi.fn(async () => ({ id: 58751, slug: 'celeste', name: 'Celeste', rating: 4.4 }) as RAWGGame)
+  return { provider: { getGameBySlug } as unknown as GameCatalogProvider, getGameBySlug }
+}
+
+describe('refreshStaleGame', () => {
+  it('shares one sync between concurrent requests for a game', async () => {
+    const { supabase } = fakeSupabase(true)
+    const { provider, getGameBySlug } = fakeProvider()
+
+    const [first, second] = await Promise.all([
+      refreshStaleGame(supabase, provider, staleGame),
+      refreshStaleGame(supabase, provider, staleGame),
+    ])
+
+    expect(getGameBySlug).toHaveBeenCalledTimes(1)
+    expect(first).toBe(second)
+    expect(first?.status).toBe('updated')
+  })
+
+  it('skips the catalog fetch when another instance claimed the sync', async () => {
+    const { supabase, updates } = fakeSupabase(false)
+    const { provider, getGameBySlug } = fakeProvider()
+
+    expect(await refreshStaleGame(supabase, provider, staleGame)).toBeNull()
+    expect(getGameBySlug).not.toHaveBeenCalled()
+    expect(updates).toHaveLength(1)
+  })
+})
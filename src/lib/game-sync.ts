@@ -0,0 +1,235 @@
+// Keeps cached `games` rows in step with the catalog (RAWG)
+
+import { GameNotFoundError, type GameCatalogProvider } from './catalog'
+import { gameRowToRAWGGame, rawgGameToRow, type GameRow, type GameRowData } from './game-normalization'
+import type { RAWGGame } from './rawg'
+import type { TypedSupabaseClient } from './supabase'
+
+/**
+ * How long a cached game is served before it is re-synced, from
+ * GAME_STALE_AFTER_HOURS (default 72)
+ */
+export const GAME_STALE_AFTER_MS =
+  parseFloat(process.env.GAME_STALE_AFTER_HOURS || '72') * 60 * 60 * 1000
+
+export function isGameStale(game: Pick<GameRow, 'last_synced_at'>, now: number = Date.now()): boolean {
+  const syncedAt = game.last_synced_at ? new Date(game.last_synced_at).getTime() : 0
+  return now - syncedAt >= GAME_STALE_AFTER_MS
+}
+
+export type GameSyncStatus = 'updated' | 'unchanged' | 'missing'
+
+export interface GameSyncResult {
+  status: GameSyncStatus
+  game: GameRow
+}
+
+/**
+ * Compare the synced columns of a row against fresh catalog data
+ * Numeric columns come back from Postgres as strings, so values are
+ * compared through their JSON form after normalising numbers.
+ */
+function hasUpstreamChanges(game: GameRow, fresh: GameRowData): boolean {
+  return (Object.keys(fresh) as Array<keyof GameRowData>).some(key => {
+    const current = game[key]
+    const next = fresh[key]
+    if (typeof next === 'number' && current !== null) {
+      return Number(current) !== next
+    }
+    return JSON.stringify(current ?? null) !== JSON.stringify(next ?? null)
+  })
+}
+
+/**
+ * Re-fetch one cached game and write it back
+ * Content columns (and updated_at) are only written when something changed
+ * upstream; last_synced_at is always bumped. Games RAWG no longer knows
+ * about are left as they are but still marked as synced, so they don't
+ * hog the front of the refresh queue.
+ */
+export async function syncGame(
+  supabase: TypedSupabaseClient,
+  provider: GameCatalogProvider,
+  game: GameRow
+): Promise<GameSyncResult> {
+  const syncedAt = new Date().toISOString()
+
+  let fresh: GameRowData | null = null
+  try {
+    fresh = rawgGameToRow(await provider.getGameBySlug(game.slug))
+    // The detail endpoint has no short_screenshots; keep the ones from list syncs
+    fresh.short_screenshots = fresh.short_screenshots ?? game.short_screenshots
+  } catch (error) {
+    if (!(error instanceof GameNotFoundError)) throw error
+  }
+
+  const changed = fresh !== null && hasUpstreamChanges(game, fresh)
+  const update = changed
+    ? { ...fresh, last_synced_at: syncedAt, updated_at: syncedAt }
+    : { last_synced_at: syncedAt }
+
+  const { data, error } = await supabase
+    .from('games')
+    .update(update)
+    .eq('id', game.id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update game ${game.slug}: ${error.message}`)
+  }
+
+  return {
+    status: fresh === null ? 'missing' : changed ? 'updated' : 'unchanged',
+    game: data,
+  }
+}
+
+// Background re-syncs running in this process, by slug
+const refreshesInFlight = new Map<string, Promise<GameSyncResult | null>>()
+
+/**
+ * Move last_synced_at from the value we read to now, as a compare-and-set:
+ * false when another request or instance already claimed this sync
+ */
+async function claimGameSync(supabase: TypedSupabaseClient, game: GameRow, claimedAt: string) {
+  const claim = supabase.from('games').update({ last_synced_at: claimedAt }).eq('id', game.id)
+  const { data, error } = await (game.last_synced_at
+    ? claim.eq('last_synced_at', game.last_synced_at)
+    : claim.is('last_synced_at', null)
+  ).select('id')
+
+  if (error) {
+    throw new Error(`Failed to claim sync of game ${game.slug}: ${error.message}`)
+  }
+  return data.length > 0
+}
+
+/**
+ * Re-sync a stale game once, however many requests notice it
+ * Concurrent calls in this process share one sync, and claimGameSync keeps
+ * other instances from repeating it. Resolves to null when someone else
+ * got there first. A failed sync hands its claim back so the next view
+ * retries. Pass the service role client, as the batch refresh does, not
+ * the visitor's session.
+ */
+export function refreshStaleGame(
+  supabase: TypedSupabaseClient,
+  provider: GameCatalogProvider,
+  game: GameRow
+): Promise<GameSyncResult | null> {
+  const pending = refreshesInFlight.get(game.slug)
+  if (pending) return pending
+
+  const refresh = (async () => {
+    const claimedAt = new Date().toISOString()
+    if (!(await claimGameSync(supabase, game, claimedAt))) {
+      return null
+    }
+
+    try {
+      return await syncGame(supabase, provider, game)
+    } catch (error) {
+      await supabase
+        .from('games')
+        .update({ last_synced_at: game.last_synced_at })
+        .eq('id', game.id)
+        .eq('last_synced_at', claimedAt)
+      throw error
+    }
+  })().finally(() => refreshesInFlight.delete(game.slug))
+
+  refreshesInFlight.set(game.slug, refresh)
+  return refresh
+}
+
+export interface RefreshSummary {
+  checked: number
+  updated: number
+  unchanged: number
+  missing: number
+  failed: Array<{ slug: string; error: string }>
+}
+
+/**
+ * Re-sync the `limit` games with the oldest last_synced_at
+ * Runs one game at a time; the RAWG client already rate limits.
+ */
+export async function refreshStaleGames(
+  supabase: TypedSupabaseClient,
+  provider: GameCatalogProvider,
+  limit: number = 50
+): Promise<RefreshSummary> {
+  const { data, error } = await supabase
+    .from('games')
+    .select('*')
+    .order('last_synced_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load games to refresh: ${error.message}`)
+  }
+
+  const summary: RefreshSummary = { checked: 0, updated: 0, unchanged: 0, missing: 0, failed: [] }
+
+  for (const game of data || []) {
+    summary.checked++
+    try {
+      const { status } = await syncGame(supabase, provider, game)
+      summary[status]++
+    } catch (error) {
+      summary.failed.push({
+        slug: game.slug,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Look up games by slug, cache first
+ * Slugs missing from the `games` table are fetched from the catalog and
+ * cached; ones the catalog can't find (or errors on) are left out of the map.
+ */
+export async function getGamesBySlugs(
+  supabase: TypedSupabaseClient,
+  provider: GameCatalogProvider,
+  slugs: string[]
+): Promise<Map<string, RAWGGame>> {
+  const games = new Map<string, RAWGGame>()
+  if (slugs.length === 0) return games
+
+  const { data: cachedGames, error: cacheError } = await supabase
+    .from('games')
+    .select('*')
+    .in('slug', slugs)
+
+  if (cachedGames && !cacheError) {
+    for (const cachedGame of cachedGames) {
+      games.set(cachedGame.slug, gameRowToRAWGGame(cachedGame))
+    }
+  }
+
+  const missingSlugs = [...new Set(slugs)].filter(slug => !games.has(slug))
+  await Promise.all(missingSlugs.map(async slug => {
+    try {
+      const rawgGame = await provider.getGameBySlug(slug)
+      games.set(slug, rawgGame)
+
+      const { error: upsertError } = await supabase
+        .from('games')
+        .upsert(rawgGameToRow(rawgGame), { onConflict: 'slug', ignoreDuplicates: false })
+
+      if (upsertError) {
+        // the game is still returned; it just isn't cached
+        console.error(`Error caching game ${slug}:`, upsertError)
+      }
+    } catch (error) {
+      console.error(`Error fetching game ${slug}:`, error)
+    }
+  }))
+
+  return games
+}
@@ -0,0 +1,259 @@
+// Interaction event log: current state, idempotent writes, timeline entries
+// and undo
+
+import type { Database, InteractionAction, PlayStatus, TypedSupabaseClient } from './supabase'
+import { INTERACTION_ACTIONS, isInteractionAction, isPlayStatus, PLAY_STATUSES } from './supabase'
+
+const INTERACTION_ACTIONS_LIST = INTERACTION_ACTIONS.join(', ')
+
+export type InteractionEventRow = Database['public']['Tables']['interaction_events']['Row']
+export type InteractionEventType = Database['public']['Enums']['interaction_event_type']
+
+/**
+ * A user's current interactions with one game, as GET /api/interactions returns them
+ */
+export interface InteractionState {
+  liked: boolean
+  favorited: boolean
+  played: boolean
+  status: PlayStatus | null
+}
+
+/**
+ * One event in the activity timeline
+ */
+export interface InteractionHistoryEntry {
+  id: number
+  game_id: string
+  action: InteractionAction
+  event: InteractionEventType
+  created_at: string
+  /** A play status removed because another one replaced it */
+  automatic: boolean
+  /** This event reversed an earlier one */
+  is_undo: boolean
+  /** Null when the game is no longer in the catalog */
+  game: { slug: string; name: string; background_image: string | null } | null
+}
+
+/** How each event reads in the timeline and the undo prompt */
+export const INTERACTION_EVENT_LABELS: Record<InteractionAction, Record<InteractionEventType, string>> = {
+  like: { added: 'Liked', removed: 'Unliked' },
+  favorite: { added: 'Favorited', removed: 'Unfavorited' },
+  played: { added: 'Marked as played', removed: 'Unmarked as played' },
+  wishlist: { added: 'Added to Want to Play', removed: 'Removed from Want to Play' },
+  playing: { added: 'Started playing', removed: 'Stopped playing' },
+  backlog: { added: 'Added to backlog', removed: 'Removed from backlog' },
+  dropped: { added: 'Dropped', removed: 'Picked back up' },
+}
+
+export const HISTORY_PAGE_SIZE = 30
+
+/** How long the undo prompt stays up after a toggle */
+export const UNDO_WINDOW_MS = 10_000
+
+/** Most operations POST /api/interactions/batch accepts at once */
+export const MAX_BATCH_OPERATIONS = 500
+
+/**
+ * Make an interaction present (`add`) or absent (`remove`); repeating an
+ * operation changes nothing
+ */
+export interface InteractionOperation {
+  gameId: string
+  action: InteractionAction
+  op: 'add' | 'remove'
+}
+
+export interface InteractionOperationResult {
+  index: number
+  gameId: string | null
+  action: string | null
+  /**
+   * `unchanged` means the interaction was already in the requested state;
+   * `failed` ones weren't saved and can be retried
+   */
+  status: 'applied' | 'unchanged' | 'invalid' | 'failed'
+  error?: string
+}
+
+export type InteractionOperationInput = { data: InteractionOperation; error?: undefined } | { data?: undefined; error: string }
+
+export function parseInteractionOperation(input: unknown): InteractionOperationInput {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Invalid operation' }
+  }
+
+  const { gameId, action, op } = input as Record<string, unknown>
+  if (!gameId || typeof gameId !== 'string') {
+    return { error: 'Missing gameId' }
+  }
+  if (!isInteractionAction(action)) {
+    return { error: `Invalid action. Must be one of: ${INTERACTION_ACTIONS_LIST}` }
+  }
+  if (op !== 'add' && op !== 'remove') {
+    return { error: "op must be 'add' or 'remove'" }
+  }
+  return { data: { gameId, action, op } }
+}
+
+export async function getInteractionState(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  gameId: string
+): Promise<InteractionState> {
+  const { data: interactions, error } = await supabase
+    .from('user_interactions')
+    .select('action')
+    .eq('user_id', userId)
+    .eq('game_id', gameId)
+
+  if (error) {
+    throw new Error(`Failed to fetch interactions for ${gameId}: ${error.message}`)
+  }
+
+  const actions = new Set(interactions.map(interaction => interaction.action))
+  return {
+    liked: actions.has('like'),
+    favorited: actions.has('favorite'),
+    played: actions.has('played'),
+    status: interactions.find(interaction => isPlayStatus(interaction.action))?.action as PlayStatus ?? null
+  }
+}
+
+/**
+ * The event that reverses `event`
+ */
+export function inverseEvent(event: Pick<InteractionEventRow, 'id' | 'user_id' | 'game_id' | 'action' | 'event'>) {
+  return {
+    user_id: event.user_id,
+    game_id: event.game_id,
+    action: event.action,
+    event: (event.event === 'added' ? 'removed' : 'added') as InteractionEventType,
+    undo_of: event.id,
+  }
+}
+
+/**
+ * Add or remove one interaction, logging an event only if it changes
+ * something. `eventId` is null when it was already in that state.
+ */
+export async function setInteraction(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  { gameId, action, op }: InteractionOperation
+): Promise<{ changed: boolean; eventId: number | null }> {
+  const { data: existing, error } = await supabase
+    .from('user_interactions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('game_id', gameId)
+    .eq('action', action)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to check interaction: ${error.message}`)
+  }
+
+  if (Boolean(existing) === (op === 'add')) {
+    return { changed: false, eventId: null }
+  }
+
+  const { data: event, error: eventError } = await supabase
+    .from('interaction_events')
+    .insert({ user_id: userId, game_id: gameId, action, event: op === 'add' ? 'added' : 'removed' })
+    .select('id')
+    .single()
+
+  if (eventError) {
+    throw new Error(`Failed to record interaction: ${eventError.message}`)
+  }
+
+  return { changed: true, eventId: event.id }
+}
+
+// Keeps .in() filters and bulk inserts to a sensible request size
+const BATCH_CHUNK_SIZE = 100
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += BATCH_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + BATCH_CHUNK_SIZE))
+  }
+  return chunks
+}
+
+/**
+ * Apply operations in order, logging events only for the ones that change
+ * something. Later operations see the effect of earlier ones, including a
+ * play status replacing another.
+ */
+export async function applyInteractionOperations(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  operations: Array<{ index: number; operation: InteractionOperation }>
+): Promise<InteractionOperationResult[]> {
+  const gameIds = [...new Set(operations.map(({ operation }) => operation.gameId))]
+  const current = new Map<string, Set<InteractionAction>>(gameIds.map(gameId => [gameId, new Set()]))
+
+  for (const ids of chunk(gameIds)) {
+    const { data: rows, error } = await supabase
+      .from('user_interactions')
+      .select('game_id, action')
+      .eq('user_id', userId)
+      .in('game_id', ids)
+
+    if (error) {
+      throw new Error(`Failed to load interactions: ${error.message}`)
+    }
+    for (const row of rows) {
+      current.get(row.game_id)?.add(row.action)
+    }
+  }
+
+  const events: Array<{
+    row: Database['public']['Tables']['interaction_events']['Insert']
+    result: InteractionOperationResult
+  }> = []
+  const results = operations.map(({ index, operation: { gameId, action, op } }): InteractionOperationResult => {
+    const actions = current.get(gameId)!
+    if (actions.has(action) === (op === 'add')) {
+      return { index, gameId, action, status: 'unchanged' }
+    }
+
+    if (op === 'add') {
+      // mirrors the trigger: a new play status replaces the old one
+      if (isPlayStatus(action)) {
+        PLAY_STATUSES.forEach(status => actions.delete(status))
+      }
+      actions.add(action)
+    } else {
+      actions.delete(action)
+    }
+
+    const result: InteractionOperationResult = { index, gameId, action, status: 'applied' }
+    events.push({ row: { user_id: userId, game_id: gameId, action, event: op === 'add' ? 'added' : 'removed' }, result })
+    return result
+  })
+
+  // the trigger applies rows in insert order, so chunks go one at a time;
+  // after a failure the rest are reported as failed rather than skipped
+  let failure: string | null = null
+  for (const batch of chunk(events)) {
+    if (!failure) {
+      const { error } = await supabase.from('interaction_events').insert(batch.map(({ row }) => row))
+      if (error) {
+        console.error('Error recording interactions:', error)
+        failure = 'Failed to record interaction'
+      }
+    }
+    if (failure) {
+      for (const { result } of batch) {
+        result.status = 'failed'
+        result.error = failure
+      }
+    }
+  }
+
+  return results
+}
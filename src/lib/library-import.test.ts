@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import type { GameCatalogProvider } from './catalog'
+import {
+  classifyMatch,
+  MATCH_CHUNK_SIZE,
+  matchImportRows,
+  normalizeTitle,
+  parseCsv,
+  parseImport,
+  parseImportRows,
+  titleSimilarity,
+  type ImportCandidate,
+} from './library-import'
+import type { RAWGGame } from './rawg'
+import type { TypedSupabaseClient } from './supabase'
+
+function candidate(slug: string, score: number): ImportCandidate {
+  return { slug, name: slug, year: null, background_image: null, score }
+}
+
+describe('parseCsv', () => {
+  it('numbers records by the line they start on', () => {
+    const text = 'Title,Notes\r\n\r\nCeleste,"two\nlines"\nHades,one\n\n"Portal\r\n2",x'
+    expect(parseCsv(text).map(record => record.line)).toEqual([1, 3, 5, 7])
+  })
+})
+
+describe('parseImport', () => {
+  it('reads titles and statuses without a playtime field', () => {
+    const { rows } = parseImport('csv', 'Title,Status,Hours\nCeleste,Completed,12.5\nHades,,')
+    expect(rows).toEqual([
+      { line: 2, title: 'Celeste', actions: ['played'] },
+      { line: 3, title: 'Hades', actions: [] },
+    ])
+  })
+
+  it('reports errors on the line of the file they are on', () => {
+    const { errors } = parseImport('csv', 'Title,Status\n"Celeste\nB-Sides",Completed\n\n,Playing')
+    expect(errors).toEqual(['Line 5: no title'])
+  })
+})
+
+describe('normalizeTitle', () => {
+  it('drops articles, symbols and edition suffixes and spells numerals as digits', () => {
+    expect(normalizeTitle('The Witcher III: Wild Hunt – GOTY Edition')).toBe('witcher 3 wild hunt')
+    expect(normalizeTitle('DOOM™ (2016)')).toBe('doom')
+  })
+})
+
+describe('titleSimilarity', () => {
+  it('treats editions and numerals of one game as the same title', () => {
+    expect(titleSimilarity('The Witcher III: Wild Hunt – GOTY Edition', 'The Witcher 3: Wild Hunt')).toBe(1)
+  })
+
+  it('keeps a game and its sequel apart', () => {
+    const score = titleSimilarity('Portal', 'Portal 2')
+    expect(score).toBeGreaterThan(0.45)
+    expect(score).toBeLessThan(0.9)
+  })
+})
+
+describe('classifyMatch', () => {
+  const row = { line: 2, title: 'Celeste', actions: [] }
+
+  it('takes a close best candidate that is clearly ahead', () => {
+    expect(classifyMatch(row, [candidate('celeste', 0.95), candidate('celeste-classic', 0.8)])).toMatchObject({
+      status: 'matched',
+      selected: 'celeste',
+    })
+  })
+
+  it('asks for review when the runner-up is within the margin or the best is not close enough', () => {
+    expect(classifyMatch(row, [candidate('celeste', 0.95), candidate('celeste-64', 0.9)]).status).toBe('ambiguous')
+    expect(classifyMatch(row, [candidate('celeste', 0.85)])).toMatchObject({ status: 'ambiguous', selected: null })
+  })
+
+  it('leaves a row without candidates unmatched', () => {
+    expect(classifyMatch(row, []).status).toBe('unmatched')
+  })
+})
+
+describe('matchImportRows', () => {
+  it('looks each distinct title up once', async () => {
+    const searches: string[] = []
+    const supabase = { rpc: () => Promise.resolve({ data: [], error: null }) } as unknown as TypedSupabaseClient
+    const provider = {
+      searchGames: async (query: string) => {
+        searches.push(query)
+        const game = { id: searches.length, slug: normalizeTitle(query).replace(/ /g, '-'), name: query } as RAWGGame
+        return { count: 1, next: null, previous: null, results: [game] }
+      },
+    } as unknown as GameCatalogProvider
+
+    const rows = ['Celeste', 'celeste', 'The Witcher 3: Wild Hunt', 'Witcher III: Wild Hunt'].map((title, i) => ({
+      line: i + 2,
+      title,
+      actions: [],
+    }))
+    const matches = await matchImportRows(supabase, provider, rows)
+
+    expect(searches).toEqual(['Celeste', 'The Witcher 3: Wild Hunt'])
+    expect(matches.map(match => match.selected)).toEqual(['celeste', 'celeste', 'witcher-3-wild-hunt', 'witcher-3-wild-hunt'])
+  })
+})
+
+describe('parseImportRows', () => {
+  it('accepts rows from a preview', () => {
+    const rows = [{ line: 2, title: 'Celeste', actions: ['played'] }]
+    expect(parseImportRows(rows)).toEqual({ data: rows })
+  })
+
+  it('rejects more than one chunk of rows', () => {
+    const rows = Array.from({ length: MATCH_CHUNK_SIZE + 1 }, (_, i) => ({ line: i + 1, title: `Game ${i}`, actions: [] }))
+    expect(parseImportRows(rows).error).toBe(`At most ${MATCH_CHUNK_SIZE} rows per request`)
+  })
+
+  it('rejects rows without a title or with unknown actions', () => {
+    expect(parseImportRows([{ line: 1, title: ' ', actions: [] }]).error).toBeDefined()
+    expect(parseImportRows([{ line: 1, title: 'Celeste', actions: ['owned'] }]).error).toBeDefined()
+    expect(parseImportRows([]).error).toBeDefined()
+  })
+})
@@ -0,0 +1,507 @@
+// Library import: parse exports from other trackers and match their titles
+// to our games
+//
+// Supported inputs:
+// - CSV with a title column, optionally status and liked/favorite columns. Backloggd exports (a "Status" column) and HowLongToBeat exports
+//   (Playing/Backlog/Completed/Retired flag columns) are read the same way.
+// - Steam's owned-games JSON (GetOwnedGames with include_appinfo)
+
+import type { GameCatalogProvider } from './catalog/types'
+import { gameRowToRAWGGame } from './game-normalization'
+import type { RAWGGame } from './rawg'
+import {
+  isInteractionAction,
+  isPlayStatus,
+  type InteractionAction,
+  type TypedSupabaseClient,
+} from './supabase'
+
+export type ImportFormat = 'csv' | 'steam'
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'steam']
+
+/** Rows read from one file; the same as a single interactions batch */
+export const MAX_IMPORT_ROWS = 500
+
+/**
+ * Rows matched per request; the client sends a parsed file in chunks so one
+ * request never runs more than this many title lookups
+ */
+export const MATCH_CHUNK_SIZE = 50
+
+/** Roughly 2 MB of text */
+export const MAX_IMPORT_LENGTH = 2_000_000
+
+/**
+ * One game from the uploaded file
+ */
+export interface ImportRow {
+  /** 1-based line (CSV) or entry (JSON) number, for error messages */
+  line: number
+  title: string
+  /** Interactions the file implies; empty means "use the default" */
+  actions: InteractionAction[]
+}
+
+export interface ImportCandidate {
+  slug: string
+  name: string
+  year: number | null
+  background_image: string | null
+  /** 0-1 title similarity */
+  score: number
+}
+
+export type ImportMatchStatus = 'matched' | 'ambiguous' | 'unmatched'
+
+/**
+ * A row with the games it might be; `selected` is the confident pick
+ */
+export interface ImportMatch {
+  row: ImportRow
+  status: ImportMatchStatus
+  candidates: ImportCandidate[]
+  selected: string | null
+}
+
+export interface ParsedImport {
+  rows: ImportRow[]
+  errors: string[]
+  /** More rows than MAX_IMPORT_ROWS were in the file */
+  truncated: boolean
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+
+export interface CsvRecord {
+  /** 1-based line of the file the record starts on */
+  line: number
+  fields: string[]
+}
+
+/**
+ * Split CSV text into records, skipping blank ones
+ * Handles quoted fields with commas, newlines and doubled quotes.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        // A newline inside quotes is part of the field but still a new line
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push({ line: recordLine, fields: record })
+      record = []
+      field = ''
+      recordLine = ++line
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push({ line: recordLine, fields: record })
+  }
+
+  return records.filter(({ fields }) => fields.some(value => value.trim() !== ''))
+}
+
+const TITLE_COLUMNS = ['title', 'name', 'game', 'game name', 'game title']
+const STATUS_COLUMNS = ['status', 'list', 'play status', 'shelf']
+const LIKE_COLUMNS = ['liked', 'like']
+const FAVORITE_COLUMNS = ['favorite', 'favourite', 'favorited', 'favourited']
+
+// HowLongToBeat marks lists with one column each
+const FLAG_COLUMNS: Record<string, InteractionAction> = {
+  playing: 'playing',
+  backlog: 'backlog',
+  completed: 'played',
+  replay: 'played',
+  retired: 'dropped',
+  wishlist: 'wishlist',
+}
+
+const STATUS_ACTIONS: Array<[RegExp, InteractionAction[]]> = [
+  [/^(completed?|beaten|finished|mastered|played|100%|replay(ing)?)$/, ['played']],
+  [/^(playing|currently playing|in progress|active)$/, ['playing']],
+  [/^(backlog|owned|shelved|paused|on hold|unplayed)$/, ['backlog']],
+  [/^(wishlist(ed)?|want to play|plan to play|planning)$/, ['wishlist']],
+  [/^(dropped|abandoned|retired|quit)$/, ['dropped']],
+  [/^(favou?rites?)$/, ['favorite']],
+  [/^(liked?)$/, ['like']],
+]
+
+/**
+ * Interactions for a tracker's status label ("Completed", "Abandoned", ...)
+ */
+export function actionsForStatus(status: string): InteractionAction[] {
+  const label = status.trim().toLowerCase()
+  if (!label) return []
+  return STATUS_ACTIONS.find(([pattern]) => pattern.test(label))?.[1] ?? []
+}
+
+function isTruthyFlag(value: string | undefined): boolean {
+  const flag = (value ?? '').trim().toLowerCase()
+  return flag !== '' && !['0', 'false', 'no', 'n', '-'].includes(flag)
+}
+
+// A game has one play status; the first of these wins when a file has several
+const STATUS_PRIORITY: InteractionAction[] = ['playing', 'dropped', 'backlog', 'wishlist']
+
+function withOneStatus(actions: InteractionAction[]): InteractionAction[] {
+  const status = STATUS_PRIORITY.find(action => actions.includes(action))
+  return [...new Set(actions.filter(action => !isPlayStatus(action) || action === status))]
+}
+
+function parseCsvImport(text: string): ParsedImport {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) {
+    return { rows: [], errors: ['The file is empty'], truncated: false }
+  }
+
+  const columns = header.fields.map(name => name.trim().toLowerCase())
+  const find = (names: string[]) => columns.findIndex(name => names.includes(name))
+  const titleIndex = find(TITLE_COLUMNS)
+
+  if (titleIndex === -1) {
+    return {
+      rows: [],
+      errors: [`No title column found. Name one of: ${TITLE_COLUMNS.join(', ')}`],
+      truncated: false,
+    }
+  }
+
+  const statusIndex = find(STATUS_COLUMNS)
+  const likeIndex = find(LIKE_COLUMNS)
+  const favoriteIndex = find(FAVORITE_COLUMNS)
+  const flagIndexes = columns
+    .map((name, index) => [FLAG_COLUMNS[name], index] as const)
+    .filter(([action]) => action !== undefined)
+
+  const rows: ImportRow[] = []
+  const errors: string[] = []
+
+  records.forEach(({ line, fields: record }) => {
+    const title = (record[titleIndex] ?? '').trim()
+    if (!title) {
+      errors.push(`Line ${line}: no title`)
+      return
+    }
+
+    const actions: InteractionAction[] = []
+    if (statusIndex !== -1) {
+      const status = record[statusIndex] ?? ''
+      const mapped = actionsForStatus(status)
+      if (status.trim() && mapped.length === 0) {
+        errors.push(`Line ${line}: unknown status "${status.trim()}", using the default`)
+      }
+      actions.push(...mapped)
+    }
+    for (const [action, flagIndex] of flagIndexes) {
+      if (isTruthyFlag(record[flagIndex])) actions.push(action)
+    }
+    if (likeIndex !== -1 && isTruthyFlag(record[likeIndex])) actions.push('like')
+    if (favoriteIndex !== -1 && isTruthyFlag(record[favoriteIndex])) actions.push('favorite')
+
+    rows.push({ line, title, actions: withOneStatus(actions) })
+  })
+
+  return { rows, errors, truncated: false }
+}
+
+interface SteamOwnedGame {
+  appid?: number
+  name?: string
+  playtime_forever?: number
+  playtime_2weeks?: number
+}
+
+function parseSteamImport(text: string): ParsedImport {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { rows: [], errors: ['The file is not valid JSON'], truncated: false }
+  }
+
+  // Accept the raw API response, its `response` object or the bare list
+  const body = json as { response?: { games?: unknown }; games?: unknown }
+  const games = Array.isArray(json) ? json : body.response?.games ?? body.games
+
+  if (!Array.isArray(games)) {
+    return { rows: [], errors: ['No "games" list found in the Steam export'], truncated: false }
+  }
+
+  const rows: ImportRow[] = []
+  const errors: string[] = []
+
+  games.forEach((entry: SteamOwnedGame, index) => {
+    const line = index + 1
+    const title = typeof entry?.name === 'string' ? entry.name.trim() : ''
+    if (!title) {
+      errors.push(`Entry ${line}${entry?.appid ? ` (app ${entry.appid})` : ''}: no name; export with include_appinfo=1`)
+      return
+    }
+
+    const minutes = Number(entry.playtime_forever) || 0
+    const recentMinutes = Number(entry.playtime_2weeks) || 0
+    const actions: InteractionAction[] =
+      recentMinutes > 0 ? ['playing', 'played'] : minutes > 0 ? ['played'] : ['backlog']
+
+    rows.push({ line, title, actions })
+  })
+
+  return { rows, errors, truncated: false }
+}
+
+/**
+ * Read an uploaded file into rows, keeping at most MAX_IMPORT_ROWS
+ */
+export function parseImport(format: ImportFormat, text: string): ParsedImport {
+  const parsed = format === 'steam' ? parseSteamImport(text) : parseCsvImport(text)
+  return parsed.rows.length > MAX_IMPORT_ROWS
+    ? { ...parsed, rows: parsed.rows.slice(0, MAX_IMPORT_ROWS), truncated: true }
+    : parsed
+}
+
+export type ImportRowsInput = { data: ImportRow[]; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * Validate rows the client sends back for matching, at most MATCH_CHUNK_SIZE
+ */
+export function parseImportRows(input: unknown): ImportRowsInput {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'rows must be a non-empty array' }
+  }
+  if (input.length > MATCH_CHUNK_SIZE) {
+    return { error: `At most ${MATCH_CHUNK_SIZE} rows per request` }
+  }
+
+  const rows: ImportRow[] = []
+  for (const [index, value] of input.entries()) {
+    const { line, title, actions } = (value ?? {}) as Record<string, unknown>
+    if (!Number.isInteger(line) || typeof title !== 'string' || !title.trim()) {
+      return { error: `Row ${index + 1}: needs a line number and a title` }
+    }
+    if (!Array.isArray(actions) || !actions.every(isInteractionAction)) {
+      return { error: `Row ${index + 1}: invalid actions` }
+    }
+    rows.push({ line: line as number, title: title.trim(), actions: withOneStatus(actions) })
+  }
+  return { data: rows }
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+
+const ROMAN_NUMERALS: Record<string, string> = {
+  ii: '2', iii: '3', iv: '4', v: '5', vi: '6', vii: '7', viii: '8', ix: '9', x: '10',
+}
+
+// Store-page suffixes that don't change which game it is
+const EDITION_SUFFIX =
+  /\b(game of the year|goty|definitive|complete|deluxe|standard|enhanced|ultimate|anniversary|digital deluxe)( edition)?$/
+
+/**
+ * Lowercase, strip accents, symbols and edition suffixes, and spell
+ * sequel numerals as digits
+ */
+export function normalizeTitle(title: string): string {
+  // Trademark signs go first; NFKD would spell ™ as "TM"
+  let normalized = title
+    .replace(/[™®©]/g, '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\(\d{4}\)/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => ROMAN_NUMERALS[word] ?? word)
+    .join(' ')
+    .replace(/^the /, '')
+
+  // Suffixes can stack ("Complete Edition GOTY")
+  let previous = ''
+  while (previous !== normalized) {
+    previous = normalized
+    normalized = normalized.replace(EDITION_SUFFIX, '').trim()
+  }
+  return normalized || title.toLowerCase().trim()
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  const compact = text.replace(/ /g, '')
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2)
+    counts.set(pair, (counts.get(pair) ?? 0) + 1)
+  }
+  return counts
+}
+
+function numbers(text: string): string {
+  return (text.match(/\d+/g) || []).join(' ')
+}
+
+// "Portal" and "Portal 2" look alike but are different games
+const SEQUEL_MISMATCH_PENALTY = 0.7
+
+/**
+ * Dice similarity of two titles' character pairs after normalizing, 0-1
+ * Titles whose numbers differ (sequels, years) score lower.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a)
+  const right = normalizeTitle(b)
+  if (left === right) return 1
+
+  const leftPairs = bigrams(left)
+  const rightPairs = bigrams(right)
+  let total = 0
+  let shared = 0
+  for (const count of leftPairs.values()) total += count
+  for (const [pair, count] of rightPairs) {
+    total += count
+    shared += Math.min(count, leftPairs.get(pair) ?? 0)
+  }
+  const score = total === 0 ? 0 : (2 * shared) / total
+  return numbers(left) === numbers(right) ? score : score * SEQUEL_MISMATCH_PENALTY
+}
+
+/** A best candidate at least this close, and clearly ahead, is taken as-is */
+export const CONFIDENT_MATCH_SCORE = 0.9
+const CONFIDENT_MATCH_MARGIN = 0.08
+/** Candidates below this aren't worth showing */
+export const MIN_CANDIDATE_SCORE = 0.45
+
+const MAX_CANDIDATES = 5
+
+function toCandidate(game: RAWGGame, title: string): ImportCandidate {
+  return {
+    slug: game.slug,
+    name: game.name,
+    year: game.released ? new Date(game.released).getFullYear() : null,
+    background_image: game.background_image || null,
+    score: Math.round(titleSimilarity(title, game.name) * 100) / 100,
+  }
+}
+
+function rankCandidates(games: RAWGGame[], title: string): ImportCandidate[] {
+  const bySlug = new Map<string, ImportCandidate>()
+  for (const game of games) {
+    if (!bySlug.has(game.slug)) bySlug.set(game.slug, toCandidate(game, title))
+  }
+  return [...bySlug.values()]
+    .filter(candidate => candidate.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES)
+}
+
+/**
+ * Decide whether the ranked candidates settle the row
+ */
+export function classifyMatch(row: ImportRow, candidates: ImportCandidate[]): ImportMatch {
+  const [best, runnerUp] = candidates
+  if (!best) {
+    return { row, status: 'unmatched', candidates, selected: null }
+  }
+
+  const confident =
+    best.score >= CONFIDENT_MATCH_SCORE && (!runnerUp || best.score - runnerUp.score >= CONFIDENT_MATCH_MARGIN)
+  return confident
+    ? { row, status: 'matched', candidates, selected: best.slug }
+    : { row, status: 'ambiguous', candidates, selected: null }
+}
+
+/**
+ * Games a title might be: our `games` table first, then the catalog when
+ * nothing local is a confident match
+ */
+export async function findImportCandidates(
+  supabase: TypedSupabaseClient,
+  provider: GameCatalogProvider,
+  title: string
+): Promise<ImportCandidate[]> {
+  const { data: localRows, error } = await supabase.rpc('search_games', {
+    search_query: title,
+    max_results: 10,
+  })
+
+  if (error) {
+    console.warn('Local game search failed during import:', error)
+  }
+
+  const local = rankCandidates((localRows || []).map(gameRowToRAWGGame), title)
+  if (local[0]?.score >= CONFIDENT_MATCH_SCORE) {
+    return local
+  }
+
+  try {
+    const catalog = await provider.searchGames(title, { pageSize: 10 })
+    return rankCandidates(
+      [...(localRows || []).map(gameRowToRAWGGame), ...catalog.results],
+      title
+    )
+  } catch (catalogError) {
+    console.error(`Catalog search failed for "${title}":`, catalogError)
+    return local
+  }
+}
+
+// Catalog searches per request at once; keeps within RAWG's rate limit
+const MATCH_CONCURRENCY = 4
+
+/**
+ * Match every row, looking each distinct title up once
+ */
+export async function matchImportRows(
+  supabase: TypedSupabaseClient,
+  provider: GameCatalogProvider,
+  rows: ImportRow[]
+): Promise<ImportMatch[]> {
+  const titles = [...new Set(rows.map(row => normalizeTitle(row.title)))]
+  const firstTitle = new Map<string, string>()
+  for (const row of rows) {
+    const key = normalizeTitle(row.title)
+    if (!firstTitle.has(key)) firstTitle.set(key, row.title)
+  }
+
+  const candidatesByTitle = new Map<string, ImportCandidate[]>()
+  let next = 0
+  const worker = async () => {
+    while (next < titles.length) {
+      const key = titles[next++]
+      candidatesByTitle.set(key, await findImportCandidates(supabase, provider, firstTitle.get(key)!))
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(MATCH_CONCURRENCY, titles.length) }, worker))
+
+  return rows.map(row => classifyMatch(row, candidatesByTitle.get(normalizeTitle(row.title)) ?? []))
+}
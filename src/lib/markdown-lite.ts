@@ -0,0 +1,72 @@
+// Markdown-lite for user text (comments): **bold**, *italic* / _italic_,
+// `code`, [links](https://...), bare URLs, > quotes and paragraphs.
+//
+// Input is HTML-escaped before any markup is applied, so the only tags in
+// the output are the ones produced here. Links are limited to http(s).
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ESCAPES[char])
+}
+
+function linkTag(href: string, label: string): string {
+  return `<a href="${href}" target="_blank" rel="nofollow noopener noreferrer">${label}</a>`
+}
+
+/**
+ * Inline markup on already-escaped text
+ * Code spans are cut out first so their contents stay literal.
+ */
+function renderInline(escaped: string): string {
+  const codeSpans: string[] = []
+  let html = escaped.replace(/`([^`\n]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code>${code}</code>`)
+    return `\u0000${codeSpans.length - 1}\u0000`
+  })
+
+  const links: string[] = []
+  const keepLink = (tag: string) => {
+    links.push(tag)
+    return `\u0001${links.length - 1}\u0001`
+  }
+
+  html = html
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, href: string) =>
+      keepLink(linkTag(href, label))
+    )
+    .replace(/\bhttps?:\/\/[^\s<]+[^\s<.,:;!?)]/g, href => keepLink(linkTag(href, href)))
+    .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w*])\*([^*\n]+)\*(?!\w)/g, '$1<em>$2</em>')
+    .replace(/(^|[^\w])_([^_\n]+)_(?!\w)/g, '$1<em>$2</em>')
+
+  return html
+    .replace(/\u0001(\d+)\u0001/g, (_, index: string) => links[Number(index)])
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => codeSpans[Number(index)])
+}
+
+/**
+ * Render user text to safe HTML
+ * Blank lines separate paragraphs; single newlines become <br>.
+ */
+export function renderMarkdownLite(text: string): string {
+  const blocks = text.replace(/\r\n?/g, '\n').trim().split(/\n{2,}/)
+
+  return blocks
+    .filter(block => block.trim())
+    .map(block => {
+      const lines = block.split('\n')
+      const isQuote = lines.every(line => line.startsWith('>'))
+      const content = (isQuote ? lines.map(line => line.replace(/^>\s?/, '')) : lines)
+        .map(line => renderInline(escapeHtml(line)))
+        .join('<br>')
+      return isQuote ? `<blockquote>${content}</blockquote>` : `<p>${content}</p>`
+    })
+    .join('')
+}
@@ -0,0 +1,15 @@
+import type { TypedSupabaseClient } from './supabase'
+
+/**
+ * Whether the signed-in user is listed in the moderators table
+ */
+export async function isModerator(supabase: TypedSupabaseClient): Promise<boolean> {
+  const { data, error } = await supabase.rpc('is_moderator')
+
+  if (error) {
+    console.error('Error checking moderator status:', error)
+    return false
+  }
+
+  return data === true
+}
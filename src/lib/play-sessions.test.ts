@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest'
+import { parsePlaySessionInput } from './play-sessions'
+
+describe('parsePlaySessionInput', () => {
+  it('rejects an edit that changes nothing', () => {
+    expect(parsePlaySessionInput({}, true)).toEqual({ error: 'Nothing to update' })
+    expect(parsePlaySessionInput({ mood: 'great' }, true)).toEqual({ error: 'Nothing to update' })
+  })
+
+  it('accepts an edit of a single field', () => {
+    expect(parsePlaySessionInput({ notes: ' Beat chapter 7 ' }, true)).toEqual({ data: { notes: 'Beat chapter 7' } })
+  })
+})
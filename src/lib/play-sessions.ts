@@ -0,0 +1,148 @@
+// Play sessions: response shape, validation and hour totals
+
+import type { Database } from './supabase'
+
+export type PlaySessionRow = Database['public']['Tables']['play_sessions']['Row']
+
+/**
+ * A logged session as the API returns it
+ */
+export interface PlaySession {
+  id: string
+  /** Calendar date, YYYY-MM-DD */
+  played_on: string
+  duration_minutes: number
+  platform: string | null
+  notes: string | null
+  created_at: string
+}
+
+/**
+ * A user's sessions for one game, newest first, with their total
+ */
+export interface GamePlaySessions {
+  sessions: PlaySession[]
+  totalMinutes: number
+}
+
+/** Mirrors the check constraints in db/migrations/011_play_sessions.sql */
+export const PLAY_SESSION_LIMITS = {
+  maxMinutes: 24 * 60,
+  platform: 60,
+  notes: 1000,
+}
+
+export interface PlaySessionInput {
+  played_on: string
+  duration_minutes: number
+  platform: string | null
+  notes: string | null
+}
+
+export type PlaySessionInputResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string }
+
+export function toPlaySession(row: PlaySessionRow): PlaySession {
+  return {
+    id: row.id,
+    played_on: row.played_on,
+    duration_minutes: row.duration_minutes,
+    platform: row.platform,
+    notes: row.notes,
+    created_at: row.created_at,
+  }
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+/**
+ * Validate a new session (date and duration required) or an edit (any subset)
+ */
+export function parsePlaySessionInput(input: unknown, partial: true): PlaySessionInputResult<Partial<PlaySessionInput>>
+export function parsePlaySessionInput(input: unknown, partial?: false): PlaySessionInputResult<PlaySessionInput>
+export function parsePlaySessionInput(
+  input: unknown,
+  partial = false
+): PlaySessionInputResult<Partial<PlaySessionInput>> {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Invalid request body' }
+  }
+
+  const body = input as Record<string, unknown>
+  const data: Partial<PlaySessionInput> = {}
+
+  if (!partial || 'played_on' in body) {
+    if (typeof body.played_on !== 'string' || !isValidDate(body.played_on)) {
+      return { error: 'played_on must be a date (YYYY-MM-DD)' }
+    }
+    // Allow a day of slack for time zones ahead of the server's
+    const latest = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    if (body.played_on > latest) {
+      return { error: 'played_on cannot be in the future' }
+    }
+    data.played_on = body.played_on
+  }
+
+  if (!partial || 'duration_minutes' in body) {
+    const minutes = body.duration_minutes
+    if (
+      typeof minutes !== 'number' ||
+      !Number.isInteger(minutes) ||
+      minutes < 1 ||
+      minutes > PLAY_SESSION_LIMITS.maxMinutes
+    ) {
+      return { error: `duration_minutes must be a whole number from 1 to ${PLAY_SESSION_LIMITS.maxMinutes}` }
+    }
+    data.duration_minutes = minutes
+  }
+
+  if ('platform' in body) {
+    const platform = typeof body.platform === 'string' ? body.platform.trim() : ''
+    if (platform.length > PLAY_SESSION_LIMITS.platform) {
+      return { error: `Platform must be at most ${PLAY_SESSION_LIMITS.platform} characters` }
+    }
+    data.platform = platform || null
+  } else if (!partial) {
+    data.platform = null
+  }
+
+  if ('notes' in body) {
+    const notes = typeof body.notes === 'string' ? body.notes.trim() : ''
+    if (notes.length > PLAY_SESSION_LIMITS.notes) {
+      return { error: `Notes must be at most ${PLAY_SESSION_LIMITS.notes} characters` }
+    }
+    data.notes = notes || null
+  } else if (!partial) {
+    data.notes = null
+  }
+
+  if (partial && Object.keys(data).length === 0) {
+    return { error: 'Nothing to update' }
+  }
+
+  return { data }
+}
+
+export function totalMinutes(sessions: Array<Pick<PlaySession, 'duration_minutes'>>): number {
+  return sessions.reduce((sum, session) => sum + session.duration_minutes, 0)
+}
+
+/**
+ * Minutes as hours to one decimal place, the precision RAWG's playtime is compared at
+ */
+export function minutesToHours(minutes: number): number {
+  return Math.round((minutes / 60) * 10) / 10
+}
+
+/**
+ * "45m", "2h" or "2h 15m"
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
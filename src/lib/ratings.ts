@@ -0,0 +1,67 @@
+// Personal game ratings: the four grades, their labels and training scores
+//
+// Type imports only, so scripts/train-recommendations.js can load it through
+// scripts/register-ts.js.
+
+import type { Database } from './supabase'
+
+export type GameRating = Database['public']['Enums']['game_rating']
+
+/** Best to worst, the order the rating bar shows them in */
+export const GAME_RATINGS: GameRating[] = ['exceptional', 'recommended', 'meh', 'skip']
+
+export const RATING_LABELS: Record<GameRating, string> = {
+  exceptional: 'Exceptional',
+  recommended: 'Recommended',
+  meh: 'Meh',
+  skip: 'Skip',
+}
+
+/**
+ * Training label for each grade (1 = would recommend, 0 = would not)
+ */
+export const RATING_SCORES: Record<GameRating, number> = {
+  exceptional: 1.0,
+  recommended: 0.75,
+  meh: 0.35,
+  skip: 0.0,
+}
+
+export type RatingDistribution = Record<GameRating, number>
+
+export function isGameRating(value: unknown): value is GameRating {
+  return typeof value === 'string' && (GAME_RATINGS as string[]).includes(value)
+}
+
+/**
+ * Grade for a RAWG-style 0-5 average, using the same cut-offs as RAWG
+ */
+export function ratingForScore(score: number): GameRating {
+  if (score >= 4.5) return 'exceptional'
+  if (score >= 4.0) return 'recommended'
+  if (score >= 3.0) return 'meh'
+  return 'skip'
+}
+
+export function emptyDistribution(): RatingDistribution {
+  return { exceptional: 0, recommended: 0, meh: 0, skip: 0 }
+}
+
+/**
+ * Fold rows from the game_rating_distribution function into a full distribution
+ */
+export function toDistribution(
+  rows: Array<{ rating: GameRating; count: number | string }> | null
+): RatingDistribution {
+  const distribution = emptyDistribution()
+  for (const row of rows || []) {
+    if (isGameRating(row.rating)) {
+      distribution[row.rating] = Number(row.count) || 0
+    }
+  }
+  return distribution
+}
+
+export function totalRatings(distribution: RatingDistribution): number {
+  return GAME_RATINGS.reduce((sum, rating) => sum + distribution[rating], 0)
+}
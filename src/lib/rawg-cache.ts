@@ -0,0 +1,214 @@
+// Server-side response cache for the RAWG client
+
+import { createClient } from '@supabase/supabase-js'
+import type { Database, TypedSupabaseClient } from './supabase'
+
+export interface CacheEntry<T = unknown> {
+  value: T
+  expiresAt: number
+}
+
+/**
+ * Storage backend for cached RAWG responses.
+ * Implementations should treat missing or unreadable entries as a cache miss.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Time-to-live per RAWG endpoint, in milliseconds
+ * Game details and media rarely change; lists and searches move faster.
+ */
+export const RAWG_CACHE_TTLS = {
+  game: 24 * 60 * 60 * 1000,
+  search: 10 * 60 * 1000,
+  list: 30 * 60 * 1000,
+  screenshots: 24 * 60 * 60 * 1000,
+  movies: 24 * 60 * 60 * 1000,
+} as const
+
+export type RAWGCacheEndpoint = keyof typeof RAWG_CACHE_TTLS
+
+/**
+ * In-memory store (default)
+ * Entries are evicted in insertion order once maxEntries is reached.
+ */
+export function createMemoryCacheStore(maxEntries: number = 500): CacheStore {
+  const entries = new Map<string, CacheEntry>()
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return entry as CacheEntry<T>
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.delete(key)
+      entries.set(key, entry)
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value
+        if (oldestKey === undefined) break
+        entries.delete(oldestKey)
+      }
+    },
+    async delete(key: string) {
+      entries.delete(key)
+    },
+  }
+}
+
+/**
+ * Supabase-backed store, so cached responses survive serverless cold starts
+ * Expects the `rawg_cache` table from db/migrations/001_rawg_cache.sql.
+ */
+export function createSupabaseCacheStore(client: TypedSupabaseClient): CacheStore {
+  return {
+    async get<T>(key: string) {
+      const { data, error } = await client
+        .from('rawg_cache')
+        .select('value, expires_at')
+        .eq('key', key)
+        .maybeSingle()
+
+      if (error || !data) return null
+
+      const expiresAt = new Date(data.expires_at).getTime()
+      if (expiresAt <= Date.now()) return null
+
+      return { value: data.value as T, expiresAt }
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      const { error } = await client
+        .from('rawg_cache')
+        .upsert(
+          {
+            key,
+            value: entry.value,
+            expires_at: new Date(entry.expiresAt).toISOString(),
+          },
+          { onConflict: 'key' }
+        )
+
+      if (error) {
+        throw new Error(`Failed to write RAWG cache entry: ${error.message}`)
+      }
+    },
+    async delete(key: string) {
+      await client.from('rawg_cache').delete().eq('key', key)
+    },
+  }
+}
+
+/**
+ * Pick the store from RAWG_CACHE_BACKEND ('memory' | 'supabase')
+ * Falls back to memory when Supabase credentials are missing.
+ */
+function createDefaultCacheStore(): CacheStore {
+  if (process.env.RAWG_CACHE_BACKEND === 'supabase') {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    // Service role key lets the shared cache bypass RLS
+    const supabaseKey =
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+    if (supabaseUrl && supabaseKey) {
+      return createSupabaseCacheStore(
+        createClient<Database>(supabaseUrl, supabaseKey, {
+          auth: { persistSession: false },
+        })
+      )
+    }
+
+    console.warn('RAWG_CACHE_BACKEND=supabase but Supabase env vars are missing, using memory cache')
+  }
+
+  return createMemoryCacheStore()
+}
+
+let cacheStore: CacheStore | null = null
+const inFlightRequests = new Map<string, Promise<unknown>>()
+
+export function getRAWGCacheStore(): CacheStore {
+  if (!cacheStore) {
+    cacheStore = createDefaultCacheStore()
+  }
+  return cacheStore
+}
+
+/**
+ * Replace the cache store (e.g. a shared store or a fresh one in tests)
+ */
+export function setRAWGCacheStore(store: CacheStore): void {
+  cacheStore = store
+  inFlightRequests.clear()
+}
+
+/**
+ * Build a cache key from a RAWG path and its query params
+ * The API key is stripped so it never ends up in the cache.
+ */
+export function getRAWGCacheKey(path: string, params?: URLSearchParams): string {
+  if (!params) return path
+
+  const keyParams = new URLSearchParams(params)
+  keyParams.delete('key')
+  keyParams.sort()
+  const query = keyParams.toString()
+
+  return query ? `${path}?${query}` : path
+}
+
+/**
+ * Return a cached value or load it, sharing one upstream request between
+ * concurrent callers asking for the same key
+ */
+export async function withRAWGCache<T>(
+  key: string,
+  endpoint: RAWGCacheEndpoint,
+  loader: () => Promise<T>
+): Promise<T> {
+  const pending = inFlightRequests.get(key)
+  if (pending) {
+    return pending as Promise<T>
+  }
+
+  const store = getRAWGCacheStore()
+
+  const request = (async () => {
+    try {
+      const entry = await store.get<T>(key)
+      if (entry) {
+        return entry.value
+      }
+    } catch (error) {
+      console.warn(`RAWG cache read failed for ${key}:`, error)
+    }
+
+    const value = await loader()
+
+    try {
+      await store.set(key, {
+        value,
+        expiresAt: Date.now() + RAWG_CACHE_TTLS[endpoint],
+      })
+    } catch (error) {
+      console.warn(`RAWG cache write failed for ${key}:`, error)
+    }
+
+    return value
+  })()
+
+  inFlightRequests.set(key, request)
+
+  try {
+    return await request
+  } finally {
+    inFlightRequests.delete(key)
+  }
+}
@@ -0,0 +1,227 @@
+// Shared fetch wrapper for the RAWG API: timeouts, retries, backoff and client-side rate limiting
+
+const RAWG_BASE_URL = 'https://api.rawg.io/api'
+
+const RAWG_FETCH_DEFAULTS = {
+  timeoutMs: 10000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+}
+
+/**
+ * Base class for errors raised by the RAWG client
+ */
+export class RawgError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message)
+    this.name = 'RawgError'
+  }
+}
+
+/**
+ * The requested resource does not exist on RAWG (404)
+ */
+export class RawgNotFoundError extends RawgError {
+  constructor(message: string = 'RAWG resource not found') {
+    super(message, 404)
+    this.name = 'RawgNotFoundError'
+  }
+}
+
+/**
+ * RAWG kept answering 429 after all retries
+ * retryAfterMs carries the upstream Retry-After hint when there was one.
+ */
+export class RawgRateLimitedError extends RawgError {
+  constructor(public readonly retryAfterMs: number | null = null) {
+    super('RAWG API rate limit exceeded', 429)
+    this.name = 'RawgRateLimitedError'
+  }
+}
+
+/**
+ * RAWG failed, timed out or returned an unexpected response
+ */
+export class RawgUpstreamError extends RawgError {
+  constructor(message: string, status?: number) {
+    super(message, status)
+    this.name = 'RawgUpstreamError'
+  }
+}
+
+/**
+ * Map a RAWG client error to the HTTP status an API route should answer with
+ */
+export function getRawgErrorStatus(error: unknown): number {
+  if (error instanceof RawgNotFoundError) return 404
+  if (error instanceof RawgRateLimitedError) return 429
+  if (error instanceof RawgUpstreamError) return 502
+  return 500
+}
+
+/**
+ * Token bucket shared by every request in this server instance, so bursts
+ * from one page load don't trip RAWG's rate limiter
+ */
+function createTokenBucket(capacity: number, refillPerSecond: number) {
+  let tokens = capacity
+  let lastRefill = Date.now()
+
+  const refill = () => {
+    const now = Date.now()
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * refillPerSecond)
+    lastRefill = now
+  }
+
+  return {
+    async take(): Promise<void> {
+      refill()
+      while (tokens < 1) {
+        await sleep(((1 - tokens) / refillPerSecond) * 1000)
+        refill()
+      }
+      tokens -= 1
+    },
+  }
+}
+
+const rateLimiter = createTokenBucket(
+  parseInt(process.env.RAWG_RATE_LIMIT_BURST || '10'),
+  parseFloat(process.env.RAWG_RATE_LIMIT_PER_SECOND || '5')
+)
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(
+    RAWG_FETCH_DEFAULTS.maxDelayMs,
+    RAWG_FETCH_DEFAULTS.baseDelayMs * 2 ** attempt
+  )
+  return Math.random() * ceiling
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(header)
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return null
+}
+
+/**
+ * Get RAWG API key from environment variables
+ */
+export function getRAWGApiKey(): string {
+  const apiKey = process.env.RAWG_API_KEY
+  if (!apiKey) {
+    throw new Error('RAWG_API_KEY environment variable is not set')
+  }
+  return apiKey
+}
+
+export interface RawgFetchOptions {
+  timeoutMs?: number
+  maxRetries?: number
+}
+
+/**
+ * Fetch JSON from a RAWG endpoint
+ * Retries network failures, timeouts, 429 and 5xx responses with backoff,
+ * honouring Retry-After. Throws RawgNotFoundError, RawgRateLimitedError
+ * or RawgUpstreamError.
+ * @param path - Endpoint path relative to the API root, e.g. `games/portal-2`
+ * @param params - Query params (the API key is added automatically)
+ */
+export async function rawgFetch<T>(
+  path: string,
+  params?: URLSearchParams,
+  options: RawgFetchOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? RAWG_FETCH_DEFAULTS.timeoutMs
+  const maxRetries = options.maxRetries ?? RAWG_FETCH_DEFAULTS.maxRetries
+
+  const query = new URLSearchParams(params)
+  query.set('key', getRAWGApiKey())
+  const url = `${RAWG_BASE_URL}/${path}?${query}`
+
+  let lastError: RawgError = new RawgUpstreamError('RAWG API request failed')
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    await rateLimiter.take()
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), timeoutMs)
+    let retryDelay = getBackoffDelay(attempt)
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+        },
+        signal: controller.signal,
+      })
+
+      if (response.ok) {
+        return await response.json() as T
+      }
+
+      if (response.status === 404) {
+        throw new RawgNotFoundError(`RAWG resource not found: ${path}`)
+      }
+
+      if (response.status === 429) {
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+        lastError = new RawgRateLimitedError(retryAfter)
+        if (retryAfter !== null) {
+          retryDelay = Math.min(retryAfter, RAWG_FETCH_DEFAULTS.maxDelayMs * 4)
+        }
+      } else if (response.status >= 500) {
+        lastError = new RawgUpstreamError(
+          `RAWG API error: ${response.status} ${response.statusText}`,
+          response.status
+        )
+      } else {
+        // Other 4xx responses won't succeed on retry
+        throw new RawgUpstreamError(
+          `RAWG API error: ${response.status} ${response.statusText}`,
+          response.status
+        )
+      }
+    } catch (error) {
+      if (error instanceof RawgNotFoundError || error instanceof RawgUpstreamError) {
+        throw error
+      }
+
+      lastError = controller.signal.aborted
+        ? new RawgUpstreamError(`RAWG API request timed out after ${timeoutMs}ms`)
+        : new RawgUpstreamError(
+            `RAWG API request failed: ${error instanceof Error ? error.message : String(error)}`
+          )
+    } finally {
+      clearTimeout(timeout)
+    }
+
+    if (attempt < maxRetries) {
+      await sleep(retryDelay)
+    }
+  }
+
+  throw lastError
+}
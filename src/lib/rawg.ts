@@ -1,18 +1,31 @@
 // RAWG API utility functions
 
+import { getRAWGCacheKey, withRAWGCache } from './rawg-cache'
+import { rawgFetch, RawgRateLimitedError } from './rawg-client'
+import { applyRawgFilterParams, type GameFilters } from './game-filters'
+
+export {
+  getRAWGApiKey,
+  getRawgErrorStatus,
+  RawgError,
+  RawgNotFoundError,
+  RawgRateLimitedError,
+  RawgUpstreamError,
+} from './rawg-client'
+
 export interface RAWGGame {
   id: number
   name: string
   slug: string
   description: string
   description_raw: string
-  released: string
-  background_image: string
-  background_image_additional: string
+  released: string | null
+  background_image: string | null
+  background_image_additional: string | null
   website: string
   rating: number
   rating_top: number
-  metacritic: number
+  metacritic: number | null
   playtime: number
   platforms: Array<{
     platform: {
@@ -109,71 +122,40 @@ export interface RAWGTrailerResult {
   previous: string | null
   results: RAWGTrailer[]
 }
-/**
- * Get RAWG API key from environment variables
- */
-export function getRAWGApiKey(): string {
-  const apiKey = process.env.RAWG_API_KEY
-  if (!apiKey) {
-    throw new Error('RAWG_API_KEY environment variable is not set')
-  }
-  return apiKey
-}
-
 /**
  * Fetch a single game by slug from RAWG API
+ * @throws RawgNotFoundError when RAWG has no game with this slug
  */
 export async function fetchGameBySlug(slug: string): Promise<RAWGGame> {
-  const apiKey = getRAWGApiKey()
-  const response = await fetch(
-    `https://api.rawg.io/api/games/${slug}?key=${apiKey}`,
-    {
-      headers: {
-        'Accept': 'application/json',
-      },
-    }
+  const path = `games/${slug}`
+  return withRAWGCache(getRAWGCacheKey(path), 'game', () =>
+    rawgFetch<RAWGGame>(path)
   )
-
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error('Game not found')
-    }
-    throw new Error(`RAWG API error: ${response.status} ${response.statusText}`)
-  }
-
-  return response.json()
 }
 
 /**
  * Search games by query from RAWG API
+ * @param ordering - RAWG ordering; omit (or '-relevance') to keep RAWG's relevance ranking
  */
 export async function searchGames(
   query: string,
   page: number = 1,
-  pageSize: number = 20
+  pageSize: number = 20,
+  filters: GameFilters = {},
+  ordering?: string
 ): Promise<RAWGSearchResult> {
-  const apiKey = getRAWGApiKey()
-  const params = new URLSearchParams({
-    key: apiKey,
+  const params = applyRawgFilterParams(filters, new URLSearchParams({
     search: query,
     page: page.toString(),
     page_size: pageSize.toString(),
-  })
-
-  const response = await fetch(
-    `https://api.rawg.io/api/games?${params}`,
-    {
-      headers: {
-        'Accept': 'application/json',
-      },
-    }
-  )
-
-  if (!response.ok) {
-    throw new Error(`RAWG API error: ${response.status} ${response.statusText}`)
+  }))
+  if (ordering && ordering !== '-relevance') {
+    params.set('ordering', ordering)
   }
 
-  return response.json()
+  return withRAWGCache(getRAWGCacheKey('games', params), 'search', () =>
+    rawgFetch<RAWGSearchResult>('games', params)
+  )
 }
 
 /**
@@ -183,28 +165,15 @@ export async function getPopularGames(
   page: number = 1,
   pageSize: number = 20
 ): Promise<RAWGSearchResult> {
-  const apiKey = getRAWGApiKey()
   const params = new URLSearchParams({
-    key: apiKey,
     ordering: '-rating',
     page: page.toString(),
     page_size: pageSize.toString(),
   })
 
-  const response = await fetch(
-    `https://api.rawg.io/api/games?${params}`,
-    {
-      headers: {
-        'Accept': 'application/json',
-      },
-    }
+  return withRAWGCache(getRAWGCacheKey('games', params), 'list', () =>
+    rawgFetch<RAWGSearchResult>('games', params)
   )
-
-  if (!response.ok) {
-    throw new Error(`RAWG API error: ${response.status} ${response.statusText}`)
-  }
-
-  return response.json()
 }
 
 /**
@@ -213,13 +182,12 @@ export async function getPopularGames(
  * Uses multiple fetch attempts to ensure we get enough games with ratings
  * @param page - Optional page number. If not provided, uses a random page (1-500)
  * @param pageSize - Number of games per page (default: 20)
+ * @throws RawgRateLimitedError when RAWG is rate limiting us (no point trying more pages)
  */
 export async function getRandomGames(
   page?: number,
   pageSize: number = 20
 ): Promise<RAWGRandomGameResult> {
-  const apiKey = getRAWGApiKey()
-  
   // Fetch games from a random page 
   const randomPage = page ?? Math.floor(Math.random() * 500) + 1
   
@@ -237,26 +205,12 @@ export async function getRandomGames(
     size: number
   ): Promise<RAWGGame[]> => {
     const params = new URLSearchParams({
-      key: apiKey,
       ordering: ordering,
       page: pageNum.toString(),
       page_size: size.toString(),
     })
 
-    const response = await fetch(
-      `https://api.rawg.io/api/games?${params}`,
-      {
-        headers: {
-          'Accept': 'application/json',
-        },
-      }
-    )
-
-    if (!response.ok) {
-      throw new Error(`RAWG API error: ${response.status} ${response.statusText}`)
-    }
-
-    const data: RAWGRandomGameResult = await response.json()
+    const data = await rawgFetch<RAWGRandomGameResult>('games', params)
     
     // Filter out games without ratings (null, undefined, or 0)
     return (data.results || []).filter(
@@ -286,8 +240,12 @@ export async function getRandomGames(
         }
       }
     } catch (error) {
+      // Retries already happened inside rawgFetch, more pages would only burn quota
+      if (error instanceof RawgRateLimitedError) {
+        throw error
+      }
+      // Pages past the end of the catalog 404, anything else is worth one more page
       console.warn(`Failed to fetch games from page ${currentPage}:`, error)
-      // Try a different random page on error
       currentPage = Math.floor(Math.random() * 320) + 1
       attempts++
     }
@@ -301,6 +259,9 @@ export async function getRandomGames(
       const fallbackGames = await fetchGamesWithRatings(fallbackPage, '-rating', fetchSize)
       allFilteredGames = [...allFilteredGames, ...fallbackGames]
     } catch (error) {
+      if (error instanceof RawgRateLimitedError && allFilteredGames.length === 0) {
+        throw error
+      }
       console.warn('Fallback fetch failed:', error)
     }
   }
@@ -320,20 +281,12 @@ export async function getRandomGames(
   let firstPageData: RAWGRandomGameResult
   try {
     const params = new URLSearchParams({
-      key: apiKey,
       ordering: randomOrdering,
       page: randomPage.toString(),
       page_size: '20',
     })
-    const response = await fetch(
-      `https://api.rawg.io/api/games?${params}`,
-      {
-        headers: {
-          'Accept': 'application/json',
-        },
-      }
-    )
-    firstPageData = await response.json()
+    // Metadata only, so don't retry
+    firstPageData = await rawgFetch<RAWGRandomGameResult>('games', params, { maxRetries: 0 })
   } catch {
     // Fallback metadata if fetch fails
     firstPageData = {
@@ -354,34 +307,23 @@ export async function getRandomGames(
 
 /**
  * Get trending games from RAWG API (based on player counts and release date)
+ * @param filters - Optional genre/tag/platform/store/company/date/metacritic filters
  */
 export async function getTrendingGames(
   page: number = 1,
   pageSize: number = 20,
-  ordering: string = '-added'
+  ordering: string = '-added',
+  filters: GameFilters = {}
 ): Promise<RAWGSearchResult> {
-  const apiKey = getRAWGApiKey()
-  const params = new URLSearchParams({
-    key: apiKey,
+  const params = applyRawgFilterParams(filters, new URLSearchParams({
     ordering: ordering,
     page: page.toString(),
     page_size: pageSize.toString(),
-  })
+  }))
 
-  const response = await fetch(
-    `https://api.rawg.io/api/games?${params}`,
-    {
-      headers: {
-        'Accept': 'application/json',
-      },
-    }
+  return withRAWGCache(getRAWGCacheKey('games', params), 'list', () =>
+    rawgFetch<RAWGSearchResult>('games', params)
   )
-
-  if (!response.ok) {
-    throw new Error(`RAWG API error: ${response.status} ${response.statusText}`)
-  }
-
-  return response.json()
 }
 
 /**
@@ -390,21 +332,10 @@ export async function getTrendingGames(
 export async function fetchGameScreenshots(
   gameId: number
 ): Promise<RAWGScreenshotResult> {
-  const apiKey = getRAWGApiKey()
-  const response = await fetch(
-    `https://api.rawg.io/api/games/${gameId}/screenshots?key=${apiKey}`,
-    {
-      headers: {
-        'Accept': 'application/json',
-      },
-    }
+  const path = `games/${gameId}/screenshots`
+  return withRAWGCache(getRAWGCacheKey(path), 'screenshots', () =>
+    rawgFetch<RAWGScreenshotResult>(path)
   )
-
-  if (!response.ok) {
-    throw new Error(`RAWG API error: ${response.status} ${response.statusText}`)
-  }
-
-  return response.json()
 }
 
 /**
@@ -413,45 +344,8 @@ export async function fetchGameScreenshots(
 export async function fetchGameTrailers(
   gameId: number
 ): Promise<RAWGTrailerResult> {
-  const apiKey = getRAWGApiKey()
-  const response = await fetch(
-    `https://api.rawg.io/api/games/${gameId}/movies?key=${apiKey}`,
-    {
-      headers: {
-        'Accept': 'application/json',
-      },
-    }
+  const path = `games/${gameId}/movies`
+  return withRAWGCache(getRAWGCacheKey(path), 'movies', () =>
+    rawgFetch<RAWGTrailerResult>(path)
   )
-
-  if (!response.ok) {
-    throw new Error(`RAWG API error: ${response.status} ${response.statusText}`)
-  }
-
-  return response.json()
 }
-
-/**
- * Transform RAWG game data to match database schema
- */
-export function transformRAWGGame(rawgGame: RAWGGame) {
-  return {
-    rawg_id: rawgGame.id,
-    name: rawgGame.name,
-    slug: rawgGame.slug,
-    description: rawgGame.description || null,
-    released: rawgGame.released || null,
-    background_image: rawgGame.background_image || null,
-    website: rawgGame.website || null,
-    rating: rawgGame.rating || null,
-    rating_top: rawgGame.rating_top || null,
-    metacritic: rawgGame.metacritic || null,
-    playtime: rawgGame.playtime || null,
-    platforms: rawgGame.platforms ? rawgGame.platforms.map(p => p.platform) : null,
-    genres: rawgGame.genres || null,
-    tags: rawgGame.tags || null,
-    developers: rawgGame.developers || null,
-    publishers: rawgGame.publishers || null,
-    stores: rawgGame.stores ? rawgGame.stores.map(s => s.store) : null,
-  }
-}
-
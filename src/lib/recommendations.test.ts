@@ -0,0 +1,112 @@
+import * as tf from '@tensorflow/tfjs'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { describeFeatureSchema, FEATURE_SCHEMA_VERSION, type FeatureSchema } from './game-features'
+import { excludeInteractedGames, generateRecommendations } from './recommendations'
+
+// loadModel fetches metadata.json itself; only the weights load is replaced
+vi.mock('@tensorflow/tfjs', async importOriginal => {
+  const actual = await importOriginal<typeof import('@tensorflow/tfjs')>()
+  return { ...actual, loadLayersModel: vi.fn() }
+})
+
+const games = [
+  { id: '0b7d2f4e-1c7a-4e8e-9a51-6f0c3b2d1a01', slug: 'celeste', rawg_id: 58751, genres: ['Platformer'], rating: 4.5 },
+  { id: '0b7d2f4e-1c7a-4e8e-9a51-6f0c3b2d1a02', slug: 'hades', rawg_id: 274755, genres: ['Action'], rating: 4.6 },
+  { id: '0b7d2f4e-1c7a-4e8e-9a51-6f0c3b2d1a03', slug: 'portal-2', rawg_id: 4200, genres: ['Puzzle'], rating: 4.7 },
+  { id: '0b7d2f4e-1c7a-4e8e-9a51-6f0c3b2d1a04', slug: 'stardew-valley', rawg_id: 10754, genres: ['Simulation'], rating: 4.4 },
+]
+
+// One interaction stored under each kind of id the table has held
+const interactions = [
+  { game_id: 'celeste', action: 'played' },
+  { game_id: '0B7D2F4E-1C7A-4E8E-9A51-6F0C3B2D1A02', action: 'favorite' },
+  { game_id: '4200', action: 'like' },
+]
+
+const schema: FeatureSchema = {
+  version: FEATURE_SCHEMA_VERSION,
+  genres: ['Action', 'Platformer', 'Puzzle', 'Simulation'],
+  tags: [],
+  platforms: [],
+  referenceYear: 2024,
+}
+const featureSize = schema.genres.length + 4
+
+// Same inputs and embedding names as the training script, scaled down
+function buildModel() {
+  const userInput = tf.input({ shape: [1] })
+  const gameInput = tf.input({ shape: [1] })
+  const featureInput = tf.input({ shape: [featureSize] })
+  const userFlat = tf.layers.flatten().apply(
+    tf.layers.embedding({ inputDim: 1, outputDim: 4, name: 'user_embedding' }).apply(userInput)
+  ) as tf.SymbolicTensor
+  const gameFlat = tf.layers.flatten().apply(
+    tf.layers.embedding({ inputDim: games.length, outputDim: 4, name: 'game_embedding' }).apply(gameInput)
+  ) as tf.SymbolicTensor
+  const hidden = tf.layers.concatenate().apply([userFlat, gameFlat, featureInput]) as tf.SymbolicTensor
+  const output = tf.layers.dense({ units: 1, activation: 'sigmoid' }).apply(hidden) as tf.SymbolicTensor
+  return tf.model({ inputs: [userInput, gameInput, featureInput], outputs: output })
+}
+
+const metadata = {
+  gameIdentity: 'slug',
+  gameIdToIndex: Object.fromEntries(games.map((game, index) => [game.slug, index])),
+  userIdToIndex: { 'trained-user': 0 },
+  indexToGameId: Object.fromEntries(games.map((game, index) => [index, game.slug])),
+  indexToUserId: { 0: 'trained-user' },
+  featureSize,
+  numUsers: 1,
+  numGames: games.length,
+  genreList: schema.genres,
+  tagList: schema.tags,
+  platformList: schema.platforms,
+  featureSchema: describeFeatureSchema(schema),
+  config: {},
+  trainedAt: '2026-01-01T00:00:00Z',
+}
+
+describe('excludeInteractedGames', () => {
+  it('drops games interacted with by slug, UUID or RAWG id', () => {
+    expect(excludeInteractedGames(games, interactions).map(game => game.slug)).toEqual(['stardew-valley'])
+  })
+})
+
+// The module keeps the loaded model, so the popularity path runs first
+describe('generateRecommendations', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it('excludes interacted games on the popularity path', async () => {
+    const recommendations = await generateRecommendations('trained-user', games, interactions)
+    expect(recommendations.map(r => r.gameId)).toEqual(['stardew-valley'])
+  })
+
+  it('excludes interacted games on the trained-model path', async () => {
+    vi.mocked(tf.loadLayersModel).mockResolvedValue(buildModel())
+    vi.stubEnv('MODEL_BASE_URL', 'https://models.example.com')
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => metadata }))
+
+    const recommendations = await generateRecommendations('trained-user', games, interactions)
+    expect(tf.loadLayersModel).toHaveBeenCalledWith('https://models.example.com/model.json')
+    expect(recommendations.map(r => r.gameId)).toEqual(['stardew-valley'])
+  })
+
+  it('excludes interacted games on the fold-in path', async () => {
+    const recommendations = await generateRecommendations('new-user', games, interactions)
+    expect(recommendations.map(r => r.gameId)).toEqual(['stardew-valley'])
+  })
+
+  it('folds a new user in from UUID and RAWG id interactions alone', async () => {
+    const recommendations = await generateRecommendations('new-user', games, interactions.slice(1))
+    expect(recommendations.map(r => r.gameId).sort()).toEqual(['celeste', 'stardew-valley'])
+  })
+})
@@ -11,6 +11,15 @@
 // Use @tensorflow/tfjs (browser version) which is much smaller than tfjs-node
 // This can load models from URLs (Supabase Storage, CDN, etc.)
 import type * as tfjsType from '@tensorflow/tfjs';
+import {
+  extractGameFeatures,
+  featureNames,
+  parseFeatureSchema,
+  type FeatureSchema,
+  type FeatureSchemaInfo,
+  type GameFeatureInput,
+} from './game-features';
+import { createGameIdentityIndex, type GameIdentity } from './game-identity';
 
 type TensorFlowModule = typeof tfjsType;
 type TensorFlowModel = tfjsType.LayersModel;
@@ -18,6 +27,7 @@ type TensorFlowModel = tfjsType.LayersModel;
 let tf: TensorFlowModule | null = null;
 let model: TensorFlowModel | null = null;
 let metadata: ModelMetadata | null = null;
+let featureSchema: FeatureSchema | null = null;
 
 // Initialize TensorFlow.js
 async function initTensorFlow() {
@@ -36,6 +46,8 @@ async function initTensorFlow() {
 }
 
 interface ModelMetadata {
+  /** Set once game indices are keyed by slug; older models key them by games.id */
+  gameIdentity?: 'slug';
   gameIdToIndex: Record<string, number>;
   userIdToIndex: Record<string, number>;
   indexToGameId: Record<number, string>;
@@ -46,6 +58,8 @@ interface ModelMetadata {
   genreList: string[];
   tagList: string[];
   platformList: string[];
+  /** Missing on models trained before features were versioned; those are refused */
+  featureSchema?: FeatureSchemaInfo;
   config: {
     topNRecommendations?: number;
     [key: string]: unknown;
@@ -94,10 +108,18 @@ export async function loadModel(): Promise<void> {
       if (!metadataResponse.ok) {
         throw new Error(`Failed to load metadata from ${metadataUrl}`);
       }
-      metadata = await metadataResponse.json() as ModelMetadata;
+      const loadedMetadata = await metadataResponse.json() as ModelMetadata;
+
+      // Features must be built exactly as they were in training
+      const schema = parseFeatureSchema(loadedMetadata);
+      if (schema.error !== undefined) {
+        throw new Error(`Refusing model from ${modelBaseUrl}: ${schema.error}`);
+      }
       
       // Load model
       model = await tf.loadLayersModel(modelUrl);
+      metadata = loadedMetadata;
+      featureSchema = schema.data;
       console.log('✅ Recommendation model loaded from URL successfully');
       return;
     }
@@ -117,85 +139,185 @@ export async function loadModel(): Promise<void> {
   }
 }
 
-interface GameFeatureInput {
-  genres?: Array<{ name: string } | string> | null;
-  tags?: Array<{ name: string } | string> | null;
-  rating?: number | null;
-  metacritic?: number | null;
-  playtime?: number | null;
-  released?: string | null;
+/**
+ * The model's features for a game, built with the schema it was trained on
+ */
+function gameFeatures(game: GameFeatureInput): number[] {
+  if (!featureSchema) {
+    throw new Error('Model metadata not loaded');
+  }
+  return extractGameFeatures(game, featureSchema);
+}
+
+interface GameWithId extends GameFeatureInput, GameIdentity {}
+
+interface UserInteraction {
+  game_id: string;
+  action: string;
+}
+
+/**
+ * Games the user hasn't interacted with yet
+ * Interactions are matched on the canonical id, so rows still holding a
+ * UUID or RAWG id exclude their game too.
+ */
+export function excludeInteractedGames<T extends GameWithId>(
+  games: T[],
+  userInteractions: UserInteraction[]
+): T[] {
+  const index = createGameIdentityIndex(games);
+  const interactedGameIds = new Set(
+    userInteractions.map(i => index.canonicalId(i.game_id))
+  );
+  return games.filter(game => !interactedGameIds.has(game.slug));
 }
 
 /**
- * Extract game features (same as training script)
+ * The model's index for a game
  */
-function extractGameFeatures(game: GameFeatureInput): number[] {
+function modelGameIndex(game: GameIdentity): number | undefined {
   if (!metadata) {
     throw new Error('Model metadata not loaded');
   }
+  return metadata.gameIdToIndex[game.slug] ?? metadata.gameIdToIndex[game.id];
+}
 
-  const features: number[] = [];
+/** Candidates scored per model.predict call; bounds the size of the input tensors */
+export const PREDICTION_BATCH_SIZE = 2048;
 
-  // One-hot encode genres
-  const genreVec = new Array(metadata.genreList.length).fill(0);
-  if (game.genres && Array.isArray(game.genres)) {
-    game.genres.forEach((g) => {
-      const genreName = typeof g === 'string' ? g : (g.name || '');
-      const idx = metadata!.genreList.indexOf(genreName);
-      if (idx >= 0) genreVec[idx] = 1;
-    });
-  }
-  features.push(...genreVec);
-
-  // One-hot encode tags
-  const tagVec = new Array(metadata.tagList.length).fill(0);
-  if (game.tags && Array.isArray(game.tags)) {
-    game.tags.forEach((t) => {
-      const tagName = typeof t === 'string' ? t : (t.name || '');
-      const idx = metadata!.tagList.indexOf(tagName);
-      if (idx >= 0) tagVec[idx] = 1;
+/**
+ * Score games for one user, in batches of `batchSize` predictions
+ * Each batch's input and intermediate tensors are released by tf.tidy; only
+ * the scores are copied out before the result tensor is disposed.
+ */
+export async function predictScores(
+  tfModule: TensorFlowModule,
+  predictor: TensorFlowModel,
+  userIndex: number,
+  gameIndices: number[],
+  features: number[][],
+  batchSize: number = PREDICTION_BATCH_SIZE
+): Promise<Float32Array> {
+  const scores = new Float32Array(gameIndices.length);
+
+  for (let start = 0; start < gameIndices.length; start += batchSize) {
+    const end = Math.min(start + batchSize, gameIndices.length);
+    const count = end - start;
+
+    const batchScores = tfModule.tidy(() => {
+      const userTensor = tfModule.fill([count, 1], userIndex);
+      const gameTensor = tfModule.tensor2d(gameIndices.slice(start, end), [count, 1]);
+      const featureTensor = tfModule.tensor2d(features.slice(start, end));
+      // predict splits its input into batches of 32 unless told otherwise
+      const prediction = predictor.predict([userTensor, gameTensor, featureTensor], { batchSize: count });
+
+      // Handle prediction result (can be Tensor or Tensor[])
+      const predictionTensor = Array.isArray(prediction) ? prediction[0] : prediction;
+      return predictionTensor.reshape([count]);
     });
+
+    scores.set(await batchScores.data(), start);
+    batchScores.dispose();
   }
-  features.push(...tagVec);
-
-  // Normalize ratings
-  const rating = game.rating ? game.rating / 5.0 : 0.5;
-  features.push(rating);
-
-  // Normalize metacritic
-  const metacritic = game.metacritic ? game.metacritic / 100.0 : 0.5;
-  features.push(metacritic);
-
-  // Normalize playtime
-  const playtime = game.playtime 
-    ? Math.min(Math.log10(game.playtime + 1) / Math.log10(101), 1.0)
-    : 0.5;
-  features.push(playtime);
-
-  // Release year
-  let releaseYear = 0.5;
-  if (game.released) {
-    const year = new Date(game.released).getFullYear();
-    const currentYear = new Date().getFullYear();
-    releaseYear = Math.min((year - 1990) / (currentYear - 1990), 1.0);
-  }
-  features.push(releaseYear);
 
-  return features;
+  return scores;
 }
 
 /**
- * Generate recommendations for a user
+ * How strongly each interaction pulls a folded-in user towards a game
+ * (the training weights); dropping a game pushes away from it
  */
-interface GameWithId extends GameFeatureInput {
-  id: string;
-}
+const FOLD_IN_ACTION_WEIGHTS: Record<string, number> = {
+  favorite: 1.5,
+  played: 1.2,
+  dropped: -0.5,
+};
 
-interface UserInteraction {
-  game_id: string;
-  action: string;
+/** Share of a fold-in score that comes from the learned game embeddings */
+const FOLD_IN_EMBEDDING_WEIGHT = 0.5;
+
+/**
+ * Score candidates for a user the model has never seen
+ * The user's vector is the weighted mean of the games they interacted with,
+ * both in the model's game embedding space and in content-feature space.
+ * Candidates score by cosine similarity to it, mapped to 0-1; candidates the
+ * model wasn't trained on use the content features alone. Returns null when
+ * none of the user's games are in the catalog.
+ */
+function foldInScores(
+  tfModule: TensorFlowModule,
+  predictor: TensorFlowModel,
+  games: GameWithId[],
+  candidateGames: GameWithId[],
+  userInteractions: UserInteraction[]
+): Float32Array | null {
+  const identity = createGameIdentityIndex(games);
+  const weights = new Map<GameWithId, number>();
+  for (const { game_id, action } of userInteractions) {
+    const game = identity.resolve(game_id);
+    if (game) {
+      weights.set(game, (weights.get(game) ?? 0) + (FOLD_IN_ACTION_WEIGHTS[action] ?? 1.0));
+    }
+  }
+
+  const userGames = [...weights].filter(([, weight]) => weight !== 0);
+  if (userGames.length === 0) {
+    return null;
+  }
+
+  // Older models may not name the layer; fall back to content features
+  let gameEmbeddings: tfjsType.Tensor | null = null;
+  try {
+    gameEmbeddings = predictor.getLayer('game_embedding').getWeights()[0];
+  } catch {
+    console.warn('Model has no game_embedding layer, folding in on content features only');
+  }
+
+  const scores = tfModule.tidy(() => {
+    const unitRows = (rows: tfjsType.Tensor) =>
+      rows.div(rows.norm('euclidean', 1, true).add(1e-8)) as tfjsType.Tensor2D;
+    // Weighted mean of the user's games, as a unit row vector
+    const profile = (rows: tfjsType.Tensor2D, rowWeights: number[]) =>
+      unitRows(tfModule.tensor2d([rowWeights]).matMul(unitRows(rows)));
+    const similarity = (rows: tfjsType.Tensor2D, vector: tfjsType.Tensor2D) =>
+      unitRows(rows).matMul(vector.transpose()).reshape([rows.shape[0]]).add(1).div(2);
+
+    const featureScores = similarity(
+      tfModule.tensor2d(candidateGames.map(gameFeatures)),
+      profile(
+        tfModule.tensor2d(userGames.map(([game]) => gameFeatures(game))),
+        userGames.map(([, weight]) => weight)
+      )
+    );
+
+    const embedded = userGames.filter(([game]) => modelGameIndex(game) !== undefined);
+    if (!gameEmbeddings || embedded.length === 0) {
+      return featureScores;
+    }
+
+    const candidateIndices = candidateGames.map(game => modelGameIndex(game) ?? -1);
+    const embeddingScores = similarity(
+      tfModule.gather(gameEmbeddings, candidateIndices.map(index => Math.max(index, 0))) as tfjsType.Tensor2D,
+      profile(
+        tfModule.gather(gameEmbeddings, embedded.map(([game]) => modelGameIndex(game)!)) as tfjsType.Tensor2D,
+        embedded.map(([, weight]) => weight)
+      )
+    );
+    const mix = tfModule.tensor1d(
+      candidateIndices.map(index => (index >= 0 ? FOLD_IN_EMBEDDING_WEIGHT : 0))
+    );
+
+    return featureScores.mul(tfModule.sub(1, mix)).add(embeddingScores.mul(mix));
+  });
+
+  const result = scores.dataSync() as Float32Array;
+  scores.dispose();
+  return result;
 }
 
+/**
+ * Generate recommendations for a user
+ */
 export async function generateRecommendations(
   userId: string,
   games: GameWithId[],
@@ -209,65 +331,55 @@ export async function generateRecommendations(
   // If model failed to load, fall back to popularity-based recommendations
   if (!model || !metadata) {
     console.warn('ML model not available, using popularity-based recommendations');
-    return getPopularityRecommendations(games, 20);
-  }
-
-  const userIndex = metadata.userIdToIndex[userId];
-  if (userIndex === undefined) {
-    // New user - return popularity-based recommendations
-    return [];
+    return getPopularityRecommendations(games, 20, userInteractions);
   }
 
-  // Get games user has already interacted with
-  const interactedGameIds = new Set(
-    userInteractions.map(i => i.game_id)
-  );
-
   // Filter out games user has already interacted with
-  const candidateGames = games.filter(
-    game => !interactedGameIds.has(game.id)
-  );
+  const candidateGames = excludeInteractedGames(games, userInteractions);
 
   if (candidateGames.length === 0) {
     return [];
   }
 
-  // Generate predictions for all candidate games
-  const predictions: Array<{ gameId: string; score: number; features: number[] }> = [];
-
-  for (const game of candidateGames) {
-    const gameIndex = metadata.gameIdToIndex[game.id];
-    if (gameIndex === undefined) continue;
+  if (!tf) {
+    throw new Error('TensorFlow not initialized');
+  }
 
-    const features = extractGameFeatures(game);
+  let predictions: Array<{ gameId: string; score: number }>;
+  const userIndex = metadata.userIdToIndex[userId];
 
-    if (!tf) {
-      throw new Error('TensorFlow not initialized');
+  if (userIndex === undefined) {
+    // Signed up after the last training run: fold the user in from their games
+    const scores = foldInScores(tf, model, games, candidateGames, userInteractions);
+    if (!scores) {
+      return [];
+    }
+    predictions = candidateGames.map((game, i) => ({
+      gameId: game.slug,
+      score: scores[i]
+    }));
+  } else {
+    // Only games the model was trained on can be scored
+    const scorable: Array<{ game: GameWithId; gameIndex: number }> = [];
+    for (const game of candidateGames) {
+      const gameIndex = modelGameIndex(game);
+      if (gameIndex !== undefined) {
+        scorable.push({ game, gameIndex });
+      }
     }
 
-    // Create input tensors
-    const userTensor = tf.tensor2d([[userIndex]]);
-    const gameTensor = tf.tensor2d([[gameIndex]]);
-    const featureTensor = tf.tensor2d([features]);
+    const scores = await predictScores(
+      tf,
+      model,
+      userIndex,
+      scorable.map(({ gameIndex }) => gameIndex),
+      scorable.map(({ game }) => gameFeatures(game))
+    );
 
-    // Predict
-    const prediction = model.predict([userTensor, gameTensor, featureTensor]);
-    
-    // Handle prediction result (can be Tensor or Tensor[])
-    const predictionTensor = Array.isArray(prediction) ? prediction[0] : prediction;
-    const score = await predictionTensor.data();
-
-    // Clean up tensors
-    userTensor.dispose();
-    gameTensor.dispose();
-    featureTensor.dispose();
-    predictionTensor.dispose();
-
-    predictions.push({
-      gameId: game.id,
-      score: score[0],
-      features
-    });
+    predictions = scorable.map(({ game }, i) => ({
+      gameId: game.slug,
+      score: scores[i]
+    }));
   }
 
   // Sort by score and get top N
@@ -276,16 +388,14 @@ export async function generateRecommendations(
 
   // Generate reasons for recommendations
   const recommendations = topN.map(({ gameId, score }) => {
-    const game = games.find(g => g.id === gameId);
+    const game = candidateGames.find(g => g.slug === gameId);
     if (!game) return null;
 
     // Generate reason based on features
     let reason = 'Based on your preferences';
-    if (game.genres && Array.isArray(game.genres) && game.genres.length > 0) {
-      const topGenres = game.genres.slice(0, 2).map((g) => {
-        return typeof g === 'string' ? g : (g.name || '');
-      }).join(', ');
-      reason = `Similar genres: ${topGenres}`;
+    const topGenres = featureNames(game, 'genres').slice(0, 2);
+    if (topGenres.length > 0) {
+      reason = `Similar genres: ${topGenres.join(', ')}`;
     }
 
     return {
@@ -303,18 +413,19 @@ export async function generateRecommendations(
  */
 export async function getPopularityRecommendations(
   games: GameWithId[],
-  limit: number = 20
+  limit: number = 20,
+  userInteractions: UserInteraction[] = []
 ): Promise<Array<{ gameId: string; score: number; reason: string }>> {
   // Sort by rating and playtime
-  const sorted = [...games].sort((a, b) => {
-    const scoreA = (a.rating || 0) * (a.playtime || 0);
-    const scoreB = (b.rating || 0) * (b.playtime || 0);
+  const sorted = excludeInteractedGames(games, userInteractions).sort((a, b) => {
+    const scoreA = (Number(a.rating) || 0) * (a.playtime || 0);
+    const scoreB = (Number(b.rating) || 0) * (b.playtime || 0);
     return scoreB - scoreA;
   });
 
   return sorted.slice(0, limit).map(game => ({
-    gameId: game.id,
-    score: (game.rating || 0) / 5.0,
+    gameId: game.slug,
+    score: (Number(game.rating) || 0) / 5.0,
     reason: 'Popular game with high ratings'
   }));
 }
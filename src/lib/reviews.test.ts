@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from 'vitest'
+import { getReview, isReviewId } from './reviews'
+import type { TypedSupabaseClient } from './supabase'
+
+describe('review ids', () => {
+  it('accepts uuids only', () => {
+    expect(isReviewId('0f8b1c2e-3d4a-4b5c-9d6e-7f8091a2b3c4')).toBe(true)
+    expect(isReviewId('42')).toBe(false)
+    expect(isReviewId("1' or '1'='1")).toBe(false)
+    expect(isReviewId(undefined)).toBe(false)
+  })
+
+  it('finds no review for a malformed id without querying', async () => {
+    const from = vi.fn()
+    const supabase = { from } as unknown as TypedSupabaseClient
+
+    expect(await getReview(supabase, 'not-a-uuid')).toBeNull()
+    expect(from).not.toHaveBeenCalled()
+  })
+})
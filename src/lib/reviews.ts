@@ -0,0 +1,165 @@
+// Game reviews: row/response shapes, input validation and listing options
+
+import { isGameRating, type GameRating } from './ratings'
+import type { Database, TypedSupabaseClient } from './supabase'
+
+export type ReviewRow = Database['public']['Tables']['reviews']['Row']
+
+/**
+ * A review as the API returns it; author ids stay server-side
+ */
+export interface Review {
+  id: string
+  game_id: string
+  author_name: string
+  title: string
+  body: string
+  rating: GameRating
+  platform: string | null
+  helpful_count: number
+  created_at: string
+  updated_at: string
+  /** Written by the signed-in user */
+  is_own: boolean
+  /** The signed-in user marked it helpful */
+  voted_helpful: boolean
+}
+
+export type ReviewSort = 'helpful' | 'recent'
+
+export const REVIEW_SORTS: ReviewSort[] = ['helpful', 'recent']
+
+export const REVIEWS_PAGE_SIZE = 10
+
+/** Mirrors the check constraints in db/migrations/008_reviews.sql */
+export const REVIEW_LIMITS = {
+  title: 120,
+  body: 5000,
+  platform: 60,
+  reportReason: 500,
+}
+
+export interface ReviewInput {
+  title: string
+  body: string
+  rating: GameRating
+  platform: string | null
+}
+
+export type ReviewInputResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string }
+
+export function isReviewSort(value: unknown): value is ReviewSort {
+  return typeof value === 'string' && (REVIEW_SORTS as string[]).includes(value)
+}
+
+export function toReview(
+  row: ReviewRow,
+  viewerId: string | null,
+  votedIds: Set<string> = new Set()
+): Review {
+  return {
+    id: row.id,
+    game_id: row.game_id,
+    author_name: row.author_name,
+    title: row.title,
+    body: row.body,
+    rating: row.rating,
+    platform: row.platform,
+    helpful_count: row.helpful_count,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    is_own: viewerId !== null && row.user_id === viewerId,
+    voted_helpful: votedIds.has(row.id),
+  }
+}
+
+function readText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Validate a create (all fields) or update (any subset) request body
+ */
+export function parseReviewInput(input: unknown, partial: true): ReviewInputResult<Partial<ReviewInput>>
+export function parseReviewInput(input: unknown, partial?: false): ReviewInputResult<ReviewInput>
+export function parseReviewInput(
+  input: unknown,
+  partial = false
+): ReviewInputResult<Partial<ReviewInput>> {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Invalid request body' }
+  }
+
+  const body = input as Record<string, unknown>
+  const data: Partial<ReviewInput> = {}
+
+  if (!partial || 'title' in body) {
+    const title = readText(body.title)
+    if (!title) return { error: 'Title is required' }
+    if (title.length > REVIEW_LIMITS.title) {
+      return { error: `Title must be at most ${REVIEW_LIMITS.title} characters` }
+    }
+    data.title = title
+  }
+
+  if (!partial || 'body' in body) {
+    const text = readText(body.body)
+    if (!text) return { error: 'Review text is required' }
+    if (text.length > REVIEW_LIMITS.body) {
+      return { error: `Review text must be at most ${REVIEW_LIMITS.body} characters` }
+    }
+    data.body = text
+  }
+
+  if (!partial || 'rating' in body) {
+    if (!isGameRating(body.rating)) {
+      return { error: 'Rating must be one of: exceptional, recommended, meh, skip' }
+    }
+    data.rating = body.rating
+  }
+
+  if ('platform' in body) {
+    const platform = readText(body.platform)
+    if (platform.length > REVIEW_LIMITS.platform) {
+      return { error: `Platform must be at most ${REVIEW_LIMITS.platform} characters` }
+    }
+    data.platform = platform || null
+  } else if (!partial) {
+    data.platform = null
+  }
+
+  if (partial && Object.keys(data).length === 0) {
+    return { error: 'Nothing to update' }
+  }
+
+  return { data }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Review ids are uuids; anything else would fail the cast in Postgres
+ */
+export function isReviewId(id: unknown): id is string {
+  return typeof id === 'string' && UUID_PATTERN.test(id)
+}
+
+/**
+ * Look up a review the caller can see (RLS hides removed reviews from
+ * everyone but the author and moderators). Malformed ids find nothing.
+ */
+export async function getReview(supabase: TypedSupabaseClient, id: string): Promise<ReviewRow | null> {
+  if (!isReviewId(id)) return null
+
+  const { data, error } = await supabase
+    .from('reviews')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load review ${id}: ${error.message}`)
+  }
+
+  return data
+}
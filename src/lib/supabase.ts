@@ -1,20 +1,56 @@
 import { createBrowserClient } from '@supabase/ssr'
+import type { SupabaseClient } from '@supabase/supabase-js'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
-if (!supabaseUrl) {
-  throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL environment variable')
+/**
+ * Whether the Supabase env vars are set (they aren't when running offline)
+ */
+export function isSupabaseConfigured(): boolean {
+  return Boolean(supabaseUrl && supabaseAnonKey)
 }
 
-if (!supabaseAnonKey) {
-  throw new Error('Missing NEXT_PUBLIC_SUPABASE_ANON_KEY environment variable')
-}
+export type TypedSupabaseClient = SupabaseClient<Database>
+
+let browserClient: TypedSupabaseClient | null = null
+
+/**
+ * Get the browser client that syncs sessions to cookies for SSR compatibility
+ * Created on first use so importing this module never throws without env vars.
+ */
+export function getSupabaseBrowserClient(): TypedSupabaseClient {
+  if (!supabaseUrl) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL environment variable')
+  }
+
+  if (!supabaseAnonKey) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_ANON_KEY environment variable')
+  }
 
-// Create a browser client that syncs sessions to cookies for SSR compatibility
-export const supabase = createBrowserClient(supabaseUrl, supabaseAnonKey)
+  if (!browserClient) {
+    browserClient = createBrowserClient<Database>(supabaseUrl, supabaseAnonKey)
+  }
+  return browserClient
+}
 
 // Database types
+
+/**
+ * Shape of the platforms, genres, tags, developers, publishers and stores
+ * JSON columns on `games` (RAWG objects, unwrapped)
+ */
+export interface GameRefJson {
+  id: number
+  name: string
+  slug: string
+}
+
+export interface GameScreenshotJson {
+  id: number
+  image: string
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -25,40 +61,48 @@ export type Database = {
           name: string
           slug: string
           description: string | null
+          description_raw: string | null
           released: string | null
           background_image: string | null
+          background_image_additional: string | null
           website: string | null
           rating: number | null
           rating_top: number | null
           metacritic: number | null
           playtime: number | null
-          platforms: unknown | null
-          genres: unknown | null
-          tags: unknown | null
-          developers: unknown | null
-          publishers: unknown | null
-          stores: unknown | null
+          platforms: GameRefJson[] | null
+          genres: GameRefJson[] | null
+          tags: GameRefJson[] | null
+          developers: GameRefJson[] | null
+          publishers: GameRefJson[] | null
+          stores: GameRefJson[] | null
+          short_screenshots: GameScreenshotJson[] | null
           created_at: string
           updated_at: string
+          last_synced_at: string
         }
         Insert: {
           rawg_id: number
           name: string
           slug: string
           description?: string | null
+          description_raw?: string | null
           released?: string | null
           background_image?: string | null
+          background_image_additional?: string | null
           website?: string | null
           rating?: number | null
           rating_top?: number | null
           metacritic?: number | null
           playtime?: number | null
-          platforms?: unknown | null
-          genres?: unknown | null
-          tags?: unknown | null
-          developers?: unknown | null
-          publishers?: unknown | null
-          stores?: unknown | null
+          platforms?: GameRefJson[] | null
+          genres?: GameRefJson[] | null
+          tags?: GameRefJson[] | null
+          developers?: GameRefJson[] | null
+          publishers?: GameRefJson[] | null
+          stores?: GameRefJson[] | null
+          short_screenshots?: GameScreenshotJson[] | null
+          last_synced_at?: string
         }
         Update: {
           id?: string
@@ -66,22 +110,27 @@ export type Database = {
           name?: string
           slug?: string
           description?: string | null
+          description_raw?: string | null
           released?: string | null
           background_image?: string | null
+          background_image_additional?: string | null
           website?: string | null
           rating?: number | null
           rating_top?: number | null
           metacritic?: number | null
           playtime?: number | null
-          platforms?: unknown | null
-          genres?: unknown | null
-          tags?: unknown | null
-          developers?: unknown | null
-          publishers?: unknown | null
-          stores?: unknown | null
+          platforms?: GameRefJson[] | null
+          genres?: GameRefJson[] | null
+          tags?: GameRefJson[] | null
+          developers?: GameRefJson[] | null
+          publishers?: GameRefJson[] | null
+          stores?: GameRefJson[] | null
+          short_screenshots?: GameScreenshotJson[] | null
           created_at?: string
           updated_at?: string
+          last_synced_at?: string
         }
+        Relationships: []
       }
       user_interactions: {
         Row: {
@@ -103,6 +152,248 @@ export type Database = {
           action?: Database['public']['Enums']['interaction_action']
           created_at?: string
         }
+        Relationships: []
+      }
+      game_ratings: {
+        Row: {
+          id: string
+          user_id: string
+          game_id: string
+          rating: Database['public']['Enums']['game_rating']
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          game_id: string
+          rating: Database['public']['Enums']['game_rating']
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          game_id?: string
+          rating?: Database['public']['Enums']['game_rating']
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      reviews: {
+        Row: {
+          id: string
+          user_id: string | null
+          game_id: string
+          author_name: string
+          title: string
+          body: string
+          rating: Database['public']['Enums']['game_rating']
+          platform: string | null
+          helpful_count: number
+          status: Database['public']['Enums']['review_status']
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          game_id: string
+          author_name: string
+          title: string
+          body: string
+          rating: Database['public']['Enums']['game_rating']
+          platform?: string | null
+        }
+        Update: {
+          title?: string
+          body?: string
+          rating?: Database['public']['Enums']['game_rating']
+          platform?: string | null
+          status?: Database['public']['Enums']['review_status']
+          updated_at?: string
+          // service role only, when anonymising a deleted account
+          user_id?: null
+          author_name?: string
+        }
+        Relationships: []
+      }
+      review_votes: {
+        Row: {
+          review_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          review_id: string
+          user_id: string
+        }
+        Update: {
+          review_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'review_votes_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      review_reports: {
+        Row: {
+          id: string
+          review_id: string
+          user_id: string
+          reason: string
+          created_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+        }
+        Insert: {
+          review_id: string
+          user_id: string
+          reason: string
+        }
+        Update: {
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'review_reports_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      game_comments: {
+        Row: {
+          id: string
+          game_id: string
+          review_id: string | null
+          parent_id: string | null
+          root_id: string | null
+          depth: number
+          user_id: string | null
+          author_name: string | null
+          body: string
+          created_at: string
+          edited_at: string | null
+          deleted_at: string | null
+        }
+        Insert: {
+          game_id: string
+          review_id?: string | null
+          parent_id?: string | null
+          root_id?: string | null
+          depth?: number
+          user_id: string
+          author_name: string
+          body: string
+        }
+        Update: {
+          body?: string
+          edited_at?: string | null
+          deleted_at?: string | null
+          // service role only, when anonymising a deleted account
+          user_id?: null
+          author_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'game_comments_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'game_comments_parent_id_fkey'
+            columns: ['parent_id']
+            isOneToOne: false
+            referencedRelation: 'game_comments'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'game_comments_root_id_fkey'
+            columns: ['root_id']
+            isOneToOne: false
+            referencedRelation: 'game_comments'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      collections: {
+        Row: {
+          id: string
+          user_id: string | null
+          owner_name: string
+          name: string
+          description: string | null
+          is_public: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          owner_name: string
+          name: string
+          description?: string | null
+          is_public?: boolean
+        }
+        Update: {
+          name?: string
+          description?: string | null
+          is_public?: boolean
+          updated_at?: string
+          // service role only, when anonymising a deleted account
+          user_id?: null
+          owner_name?: string
+        }
+        Relationships: []
+      }
+      collection_games: {
+        Row: {
+          collection_id: string
+          game_id: string
+          position: number
+          added_at: string
+        }
+        Insert: {
+          collection_id: string
+          game_id: string
+          position: number
+        }
+        Update: {
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'collection_games_collection_id_fkey'
+            columns: ['collection_id']
+            isOneToOne: false
+            referencedRelation: 'collections'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      moderators: {
+        Row: {
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+        }
+        Update: {
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: []
       }
       similar_games: {
         Row: {
@@ -124,6 +415,22 @@ export type Database = {
           similarity_score?: number
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'similar_games_game_id_fkey'
+            columns: ['game_id']
+            isOneToOne: false
+            referencedRelation: 'games'
+            referencedColumns: ['slug']
+          },
+          {
+            foreignKeyName: 'similar_games_similar_game_id_fkey'
+            columns: ['similar_game_id']
+            isOneToOne: false
+            referencedRelation: 'games'
+            referencedColumns: ['slug']
+          }
+        ]
       }
       recommendations: {
         Row: {
@@ -150,17 +457,170 @@ export type Database = {
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'recommendations_game_id_fkey'
+            columns: ['game_id']
+            isOneToOne: false
+            referencedRelation: 'games'
+            referencedColumns: ['slug']
+          }
+        ]
+      }
+      rawg_cache: {
+        Row: {
+          key: string
+          value: unknown
+          expires_at: string
+          updated_at: string
+        }
+        Insert: {
+          key: string
+          value: unknown
+          expires_at: string
+        }
+        Update: {
+          key?: string
+          value?: unknown
+          expires_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      play_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          game_id: string
+          played_on: string
+          duration_minutes: number
+          platform: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          game_id: string
+          played_on: string
+          duration_minutes: number
+          platform?: string | null
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          game_id?: string
+          played_on?: string
+          duration_minutes?: number
+          platform?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      interaction_events: {
+        Row: {
+          id: number
+          user_id: string
+          game_id: string
+          action: Database['public']['Enums']['interaction_action']
+          event: Database['public']['Enums']['interaction_event_type']
+          caused_by: number | null
+          undo_of: number | null
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          game_id: string
+          action: Database['public']['Enums']['interaction_action']
+          event: Database['public']['Enums']['interaction_event_type']
+          caused_by?: number | null
+          undo_of?: number | null
+        }
+        Update: {
+          [_ in never]: never
+        }
+        Relationships: []
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      search_games: {
+        Args: {
+          search_query: string
+          max_results?: number
+        }
+        Returns: Database['public']['Tables']['games']['Row'][]
+      }
+      is_moderator: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      game_rating_distribution: {
+        Args: {
+          target_game_id: string
+        }
+        Returns: Array<{
+          rating: Database['public']['Enums']['game_rating']
+          count: number
+        }>
+      }
+      play_session_totals: {
+        Args: Record<PropertyKey, never>
+        Returns: Array<{
+          session_count: number
+          game_count: number
+          total_minutes: number
+        }>
+      }
+      canonical_game_id: {
+        Args: {
+          ref: string
+        }
+        Returns: string
+      }
+      reorder_collection_games: {
+        Args: {
+          target_collection_id: string
+          ordered_game_ids: string[]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      interaction_action: 'like' | 'favorite' | 'played'
+      interaction_action: 'like' | 'favorite' | 'played' | 'wishlist' | 'playing' | 'backlog' | 'dropped'
+      game_rating: 'exceptional' | 'recommended' | 'meh' | 'skip'
+      review_status: 'published' | 'removed'
+      interaction_event_type: 'added' | 'removed'
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
 
+
+export type InteractionAction = Database['public']['Enums']['interaction_action']
+
+/**
+ * Where a user is with a game; a game has at most one play status per user,
+ * independent of like/favorite/played
+ */
+export type PlayStatus = Extract<InteractionAction, 'wishlist' | 'playing' | 'backlog' | 'dropped'>
+
+export const PLAY_STATUSES: PlayStatus[] = ['wishlist', 'playing', 'backlog', 'dropped']
+
+export const INTERACTION_ACTIONS: InteractionAction[] = ['like', 'favorite', 'played', ...PLAY_STATUSES]
+
+export function isInteractionAction(value: unknown): value is InteractionAction {
+  return typeof value === 'string' && (INTERACTION_ACTIONS as string[]).includes(value)
+}
+
+export function isPlayStatus(value: unknown): value is PlayStatus {
+  return typeof value === 'string' && (PLAY_STATUSES as string[]).includes(value)
+}
@@ -0,0 +1,16 @@
+import type { User } from '@supabase/supabase-js'
+
+/** Shown in place of the author once an account is deleted */
+export const DELETED_USER_NAME = 'Deleted user'
+
+/**
+ * Name shown next to things a user writes (reviews, comments)
+ * Falls back to the local part of the email, like the header does.
+ */
+export function getDisplayName(user: Pick<User, 'email' | 'user_metadata'>): string {
+  const fullName = user.user_metadata?.full_name
+  if (typeof fullName === 'string' && fullName.trim()) {
+    return fullName.trim()
+  }
+  return user.email?.split('@')[0] || 'Player'
+}